@@ -0,0 +1,213 @@
+import { rm } from 'node:fs/promises';
+import { join } from 'node:path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { type CodeGraph, GraphBuilder } from '../../parser/graphBuilder.ts';
+import { writeJson } from '../../utils/fs.ts';
+import { findDeadCode, findEntryPoints } from '../deadCode.ts';
+import { declaration, edge, fileNode } from './fixtures.ts';
+
+// index.ts (entry) re-exports parse from lib.ts and imports run from app.ts;
+// internal.ts re-exports format from util.ts, but nothing imports internal.ts
+const graph: CodeGraph = {
+	nodes: [
+		fileNode('src/index.ts'),
+		fileNode('src/lib.ts'),
+		fileNode('src/app.ts'),
+		fileNode('src/util.ts'),
+		fileNode('src/internal.ts'),
+		fileNode('src/types.d.ts'),
+		fileNode('src/__tests__/lib.test.ts'),
+		fileNode('scripts/tool.py'),
+		fileNode('vite.config.ts'),
+		declaration('type', 'src/lib.ts', 'Options', 1, { exported: true }),
+		declaration('function', 'src/lib.ts', 'parse', 3, { exported: true }),
+		declaration('function', 'src/lib.ts', 'helper', 10, { exported: true }),
+		declaration('function', 'src/app.ts', 'run', 1, { exported: true }),
+		declaration('function', 'src/app.ts', 'start', 5),
+		declaration('function', 'src/app.ts', 'unusedLocal', 9),
+		declaration('class', 'src/app.ts', 'Widget', 12),
+		declaration('function', 'src/app.ts', 'Widget.render', 13),
+		declaration('function', 'src/app.ts', 'Widget.paint', 14),
+		declaration('function', 'src/util.ts', 'format', 1, { exported: true }),
+		declaration('function', 'src/util.ts', 'default', 5, { exported: true, defaultExport: true }),
+		declaration('test', 'src/__tests__/lib.test.ts', 'parses', 3),
+	],
+	edges: [
+		edge('file:src/index.ts', 'file:src/lib.ts', 'imports', { reExport: true, names: ['parse'] }),
+		edge('file:src/index.ts', 'file:src/app.ts', 'imports', { names: ['run'] }),
+		edge('file:src/app.ts', 'file:src/util.ts', 'imports', { names: ['default'] }),
+		edge('file:src/internal.ts', 'file:src/util.ts', 'imports', {
+			reExport: true,
+			names: ['format'],
+		}),
+		edge('file:src/__tests__/lib.test.ts', 'file:src/lib.ts', 'imports', { names: ['parse'] }),
+		edge('file:src/app.ts', 'class:src/app.ts:Widget', 'contains'),
+		edge('class:src/app.ts:Widget', 'function:src/app.ts:Widget.render', 'contains'),
+		edge('class:src/app.ts:Widget', 'function:src/app.ts:Widget.paint', 'contains'),
+		edge('function:src/lib.ts:parse', 'type:src/lib.ts:Options', 'references-type'),
+		edge('function:src/app.ts:run', 'function:src/app.ts:start', 'calls'),
+		edge('function:src/app.ts:run', 'class:src/app.ts:Widget', 'instantiates'),
+		edge('function:src/app.ts:unusedLocal', 'function:src/app.ts:unusedLocal', 'calls'),
+		edge('function:src/app.ts:Widget.paint', 'function:src/base.ts:Base.paint', 'overrides'),
+		edge('test:src/__tests__/lib.test.ts:parses', 'function:src/lib.ts:parse', 'tests'),
+	],
+};
+
+describe('dead code', () => {
+	it('should report unused exports, uncalled functions and unimported files', () => {
+		const entryPoints = new Set(['file:src/index.ts', 'file:src/__tests__/lib.test.ts']);
+		const findings = findDeadCode(graph, entryPoints).map(
+			({ kind, confidence, node }) => `${kind} ${confidence} ${node.label}`,
+		);
+
+		expect(findings).toEqual([
+			'unused-export high helper',
+			// Re-exported only by a barrel nothing imports
+			'unused-export high format',
+			// Only referenced by parse, in the same file
+			'unused-export medium Options',
+			// Calling itself does not count
+			'uncalled-function medium unusedLocal',
+			'uncalled-function low Widget.render',
+			'unimported-file high src/internal.ts',
+			'unimported-file medium scripts/tool.py',
+			'unimported-file low vite.config.ts',
+		]);
+	});
+
+	it('should count the names an entry point re-exports as used', () => {
+		const entryPoints = new Set(['file:src/index.ts', 'file:src/internal.ts']);
+		const labels = findDeadCode(graph, entryPoints)
+			.filter((finding) => finding.kind === 'unused-export')
+			.map((finding) => finding.node.label);
+
+		expect(labels).toEqual(['helper', 'Options']);
+	});
+
+	it('should lower the confidence for files with syntax errors', () => {
+		const broken: CodeGraph = {
+			nodes: [fileNode('src/a.ts'), fileNode('src/b.ts', { unreliable: true })],
+			edges: [],
+		};
+		const findings = findDeadCode(broken, new Set());
+
+		expect(findings.map(({ confidence, reason }) => `${confidence} ${reason}`)).toEqual([
+			'high not imported and not an entry point',
+			'low not imported and not an entry point (file has syntax errors)',
+		]);
+	});
+
+	describe('entry points', () => {
+		const dir = join(process.cwd(), '.test-dead-code');
+		const files = [
+			'src/cli.ts',
+			'src/main.ts',
+			'lib/extra.ts',
+			'src/index.ts',
+			'src/parse.test.ts',
+			'scripts/gen.ts',
+			'src/other.ts',
+		];
+		const fileGraph: CodeGraph = {
+			nodes: files.map((path) => fileNode(join(dir, path))),
+			edges: [],
+		};
+		const entries = (ids: Set<string>) =>
+			[...ids].map((id) => id.slice(`file:${dir}/`.length)).sort();
+
+		beforeAll(async () => {
+			await Bun.write(
+				join(dir, 'package.json'),
+				JSON.stringify({
+					name: 'demo',
+					bin: { demo: './dist/cli.js' },
+					exports: { '.': { import: './dist/main.mjs' }, './extra': './lib/extra.js' },
+				}),
+			);
+		});
+
+		afterAll(async () => {
+			await rm(dir, { recursive: true, force: true });
+		});
+
+		it('should take entry points from package.json, tests, index files and patterns', async () => {
+			expect(entries(await findEntryPoints(fileGraph, dir, { patterns: ['scripts/'] }))).toEqual([
+				'lib/extra.ts',
+				'scripts/gen.ts',
+				'src/cli.ts',
+				'src/index.ts',
+				'src/main.ts',
+				'src/parse.test.ts',
+			]);
+		});
+
+		it('should let each default source be turned off', async () => {
+			const onlyPatterns = await findEntryPoints(fileGraph, dir, {
+				patterns: ['scripts/'],
+				packageJson: false,
+				tests: false,
+				indexFiles: false,
+			});
+
+			expect(entries(onlyPatterns)).toEqual(['scripts/gen.ts']);
+		});
+
+		it('should count reads as values and leave helpers nested in functions alone', async () => {
+			const root = join(dir, 'values');
+			const sort = join(root, 'src', 'sort.ts');
+			const main = join(root, 'src', 'main.ts');
+			await Bun.write(
+				sort,
+				`export const DEFAULT_ORDER = ['b', 'a'];
+
+function byName(a: string, b: string) {
+	return a.localeCompare(b);
+}
+
+export function sorted(names: string[] = DEFAULT_ORDER) {
+	const twice = (name: string) => name + name;
+	return [...names].sort(byName).map(twice);
+}`,
+			);
+			await Bun.write(
+				main,
+				`import { sorted } from './sort';
+
+sorted();`,
+			);
+			await writeJson(join(root, '.the-gap', 'symbols.json'), [
+				{ filePath: main },
+				{ filePath: sort },
+			]);
+
+			const valueGraph = await new GraphBuilder(join(root, '.the-gap')).buildCompleteGraph(root);
+			const findings = findDeadCode(valueGraph, new Set([`file:${main}`]));
+
+			expect(
+				findings.map(({ kind, confidence, node }) => `${kind} ${confidence} ${node.label}`),
+			).toEqual(['unused-export medium DEFAULT_ORDER']);
+		});
+
+		it('should not report files loaded through a URL relative to an importing module', async () => {
+			const root = join(dir, 'workers');
+			const pool = join(root, 'src', 'pool.ts');
+			const worker = join(root, 'src', 'parseWorker.ts');
+			await Bun.write(
+				pool,
+				`export const worker = new Worker(new URL('./parseWorker.ts', import.meta.url));`,
+			);
+			await Bun.write(worker, `self.onmessage = () => {};`);
+			await writeJson(join(root, '.the-gap', 'symbols.json'), [
+				{ filePath: pool },
+				{ filePath: worker },
+			]);
+
+			const workerGraph = await new GraphBuilder(join(root, '.the-gap')).buildCompleteGraph(root);
+			const unimported = findDeadCode(workerGraph, new Set([`file:${pool}`])).filter(
+				(finding) => finding.kind === 'unimported-file',
+			);
+
+			expect(unimported).toEqual([]);
+		});
+	});
+});
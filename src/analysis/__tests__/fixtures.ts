@@ -0,0 +1,26 @@
+import type { GraphEdge, GraphNode } from '../../parser/graphBuilder.ts';
+
+/** A file node whose label and path are `path` */
+export const fileNode = (path: string, extra: Partial<GraphNode> = {}): GraphNode => ({
+	id: `file:${path}`,
+	label: path,
+	type: 'file',
+	path,
+	...extra,
+});
+
+/** A symbol node with the id the graph builder gives it */
+export const declaration = (
+	type: GraphNode['type'],
+	path: string,
+	name: string,
+	line = 1,
+	extra: Partial<GraphNode> = {},
+): GraphNode => ({ id: `${type}:${path}:${name}`, label: name, type, path, line, ...extra });
+
+export const edge = (
+	source: string,
+	target: string,
+	type: GraphEdge['type'],
+	extra: Partial<GraphEdge> = {},
+): GraphEdge => ({ source, target, type, ...extra });
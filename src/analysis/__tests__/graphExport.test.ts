@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+import type { CodeGraph } from '../../parser/graphBuilder.ts';
+import { fileGraph, focusSubgraph, renderGraph } from '../graphExport.ts';
+import { declaration, edge, fileNode } from './fixtures.ts';
+
+// cli/main.ts imports core/store.ts directly and core/types.ts for types only;
+// main calls save, which calls write
+const graph: CodeGraph = {
+	nodes: [
+		fileNode('src/cli/main.ts'),
+		fileNode('src/core/store.ts'),
+		fileNode('src/core/types.ts'),
+		fileNode('src/core/index.ts'),
+		declaration('function', 'src/cli/main.ts', 'main'),
+		declaration('function', 'src/core/store.ts', 'save'),
+		declaration('function', 'src/core/store.ts', 'write'),
+		declaration('type', 'src/core/types.ts', 'Record "v1"'),
+	],
+	edges: [
+		edge('file:src/cli/main.ts', 'file:src/core/store.ts', 'imports'),
+		edge('file:src/cli/main.ts', 'file:src/core/types.ts', 'imports', { typeOnly: true }),
+		edge('file:src/cli/main.ts', 'file:src/core/store.ts', 'imports', {
+			via: 'file:src/core/index.ts',
+		}),
+		edge('file:src/core/store.ts', 'function:src/core/store.ts:save', 'contains'),
+		edge('file:src/core/store.ts', 'function:src/core/store.ts:write', 'contains'),
+		edge('function:src/cli/main.ts:main', 'function:src/core/store.ts:save', 'calls'),
+		edge('function:src/core/store.ts:save', 'function:src/core/store.ts:write', 'calls'),
+		edge(
+			'function:src/core/store.ts:save',
+			'type:src/core/types.ts:Record "v1"',
+			'references-type',
+		),
+	],
+};
+const ids = (subgraph: CodeGraph) => subgraph.nodes.map((node) => node.id);
+
+describe('graph export', () => {
+	it('should reduce the graph to files and the imports between them', () => {
+		const files = fileGraph(graph);
+
+		expect(ids(files)).toEqual([
+			'file:src/cli/main.ts',
+			'file:src/core/store.ts',
+			'file:src/core/types.ts',
+			'file:src/core/index.ts',
+		]);
+		// The import through the barrel duplicates the direct one
+		expect(files.edges).toEqual([graph.edges[0], graph.edges[1]]);
+	});
+
+	it('should cut out the neighborhood of a node without following containment', () => {
+		const near = focusSubgraph(graph, ['function:src/cli/main.ts:main']);
+		expect(ids(near)).toEqual(['function:src/cli/main.ts:main', 'function:src/core/store.ts:save']);
+		expect(near.edges.map((e) => e.type)).toEqual(['calls']);
+
+		const further = focusSubgraph(graph, ['function:src/cli/main.ts:main'], 2);
+		expect(ids(further)).toEqual([
+			'function:src/cli/main.ts:main',
+			'function:src/core/store.ts:save',
+			'function:src/core/store.ts:write',
+			'type:src/core/types.ts:Record "v1"',
+		]);
+		expect(further.edges).toHaveLength(3);
+	});
+
+	it('should render DOT with a cluster per directory', () => {
+		const dot = renderGraph(fileGraph(graph), 'dot', { highlight: ['file:src/cli/main.ts'] });
+
+		expect(dot).toBe(
+			[
+				'digraph code {',
+				'\trankdir=LR;',
+				'\tnode [shape=box, fontname="Helvetica", fontsize=10];',
+				'\tedge [fontname="Helvetica", fontsize=9];',
+				'\tsubgraph cluster_0 {',
+				'\t\tlabel="src/cli";',
+				'\t\t"file:src/cli/main.ts" [label="main.ts", shape=note, tooltip="src/cli/main.ts", style="bold,filled", fillcolor="#fff3b0"];',
+				'\t}',
+				'\tsubgraph cluster_1 {',
+				'\t\tlabel="src/core";',
+				'\t\t"file:src/core/index.ts" [label="index.ts", shape=note, tooltip="src/core/index.ts"];',
+				'\t\t"file:src/core/store.ts" [label="store.ts", shape=note, tooltip="src/core/store.ts"];',
+				'\t\t"file:src/core/types.ts" [label="types.ts", shape=note, tooltip="src/core/types.ts"];',
+				'\t}',
+				'\t"file:src/cli/main.ts" -> "file:src/core/store.ts";',
+				'\t"file:src/cli/main.ts" -> "file:src/core/types.ts" [style=dashed];',
+				'}',
+				'',
+			].join('\n'),
+		);
+	});
+
+	it('should render a Mermaid flowchart with escaped labels', () => {
+		const subgraph = focusSubgraph(graph, ['function:src/core/store.ts:save']);
+
+		expect(
+			renderGraph(subgraph, 'mermaid', { highlight: ['function:src/core/store.ts:save'] }),
+		).toBe(`flowchart LR
+  subgraph c0["src/cli"]
+    n0("main")
+  end
+  subgraph c1["src/core"]
+    n1("save")
+    n2("write")
+    n3("Record #quot;v1#quot;")
+  end
+  n0 -->|calls| n1
+  n1 -->|calls| n2
+  n1 -->|references-type| n3
+  classDef focus stroke-width:3px,fill:#fff3b0
+  class n1 focus
+`);
+		expect(renderGraph(fileGraph(graph), 'mermaid', { cluster: false })).toContain(
+			'  n0["src/cli/main.ts"]\n',
+		);
+	});
+
+	it('should render GraphML with node and edge attributes', () => {
+		const subgraph = focusSubgraph(graph, ['function:src/core/store.ts:save']);
+		const xml = renderGraph(subgraph, 'graphml', { cluster: false });
+
+		expect(xml).toMatch(/^<\?xml version="1.0" encoding="UTF-8"\?>\n<graphml /);
+		expect(xml).toContain(
+			'<node id="type:src/core/types.ts:Record &quot;v1&quot;"><data key="label">Record &quot;v1&quot;</data>' +
+				'<data key="kind">type</data><data key="path">src/core/types.ts</data><data key="line">1</data></node>',
+		);
+		expect(xml).toContain(
+			'<edge id="e0" source="function:src/cli/main.ts:main" target="function:src/core/store.ts:save">' +
+				'<data key="relation">calls</data></edge>',
+		);
+		expect(xml).not.toContain('key="cluster">');
+		expect(xml.trimEnd().endsWith('</graphml>')).toBe(true);
+	});
+});
@@ -0,0 +1,111 @@
+import { join } from 'node:path';
+import { describe, expect, it } from 'vitest';
+import type { GraphNode } from '../../parser/graphBuilder.ts';
+import { graphView, traverse } from '../../parser/graphTraversal.ts';
+import { formatNode, matchNodes, renderTree } from '../graphQuery.ts';
+
+const nodes: GraphNode[] = [
+	{ id: 'file:src/store.ts', label: 'store.ts', type: 'file', path: 'src/store.ts' },
+	{ id: 'file:src/api/store.ts', label: 'store.ts', type: 'file', path: 'src/api/store.ts' },
+	{ id: 'class:src/store.ts:Store', label: 'Store', type: 'class', path: 'src/store.ts', line: 1 },
+	{
+		id: 'function:src/store.ts:Store.save',
+		label: 'Store.save',
+		type: 'function',
+		path: 'src/store.ts',
+		line: 2,
+	},
+	{
+		id: 'function:src/api/store.ts:save',
+		label: 'save',
+		type: 'function',
+		path: 'src/api/store.ts',
+		line: 5,
+	},
+	{
+		id: 'suite:src/__tests__/store.test.ts:Store',
+		label: 'Store',
+		type: 'suite',
+		path: 'src/__tests__/store.test.ts',
+	},
+	{
+		id: 'function:src/api/store.ts:saveAll',
+		label: 'saveAll',
+		type: 'function',
+		path: 'src/api/store.ts',
+		line: 9,
+	},
+];
+const best = (query: string) => matchNodes(nodes, query).map((m) => [m.node.id, m.score])[0];
+const ids = (query: string) => matchNodes(nodes, query).map((m) => m.node.id);
+
+describe('graph queries', () => {
+	it('should match ids, paths and file-qualified names exactly', () => {
+		expect(best('function:src/api/store.ts:save')).toEqual(['function:src/api/store.ts:save', 100]);
+		expect(best('src/api/store.ts')).toEqual(['file:src/api/store.ts', 95]);
+		expect(best(join(process.cwd(), 'src/store.ts'))).toEqual(['file:src/store.ts', 95]);
+		expect(best('api/store.ts:save')).toEqual(['function:src/api/store.ts:save', 90]);
+	});
+
+	it('should prefer exact names over method names, substrings and abbreviations', () => {
+		expect(ids('save')).toEqual([
+			'function:src/api/store.ts:save',
+			'function:src/store.ts:Store.save',
+			'function:src/api/store.ts:saveAll',
+		]);
+		expect(ids('SAVEALL')).toEqual(['function:src/api/store.ts:saveAll']);
+		expect(ids('svl')).toEqual(['function:src/api/store.ts:saveAll']);
+		expect(ids('')).toEqual([]);
+	});
+
+	it('should rank test suites below the code they are named after', () => {
+		expect(matchNodes(nodes, 'Store').map((m) => [m.node.id, m.score])).toEqual([
+			['class:src/store.ts:Store', 80],
+			['suite:src/__tests__/store.test.ts:Store', 75],
+			['function:src/store.ts:Store.save', 40],
+			['file:src/api/store.ts', 40],
+			['file:src/store.ts', 40],
+		]);
+	});
+
+	it('should render traversal hits as a tree', () => {
+		const view = graphView({
+			nodes,
+			edges: [
+				{ source: 'file:src/store.ts', target: 'class:src/store.ts:Store', type: 'contains' },
+				{
+					source: 'class:src/store.ts:Store',
+					target: 'function:src/store.ts:Store.save',
+					type: 'contains',
+				},
+				{ source: 'file:src/store.ts', target: 'file:src/api/store.ts', type: 'imports' },
+			],
+		});
+		const start = nodes[0] as GraphNode;
+
+		expect(renderTree(start, traverse(view, start.id))).toEqual([
+			'file src/store.ts',
+			'├─ class Store — src/store.ts:1',
+			'│  └─ function Store.save — src/store.ts:2',
+			'└─ file src/api/store.ts',
+		]);
+		expect(
+			renderTree(start, traverse(view, start.id, { maxDepth: 1 }), { edgeTypes: true }),
+		).toEqual([
+			'file src/store.ts',
+			'├─ class Store — src/store.ts:1 [contains]',
+			'└─ file src/api/store.ts [imports]',
+		]);
+	});
+
+	it('should show absolute paths relative to the working directory', () => {
+		const node: GraphNode = {
+			id: 'x',
+			label: 'run',
+			type: 'function',
+			path: join(process.cwd(), 'src', 'run.ts'),
+			line: 3,
+		};
+		expect(formatNode(node)).toBe(`function run — ${join('src', 'run.ts')}:3`);
+	});
+});
@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import type { CodeGraph } from '../../parser/graphBuilder.ts';
+import { buildArchitectureReport, renderHtmlReport } from '../htmlReport.ts';
+import { fileNode } from './fixtures.ts';
+
+const metrics = (complexity: number) => ({
+	complexity,
+	nesting: 1,
+	lines: 10,
+	parameters: 1,
+	fanIn: 0,
+	fanOut: 1,
+});
+
+// a.ts and b.ts import each other; c.ts imports a.ts for types only
+const graph: CodeGraph = {
+	nodes: [
+		fileNode('src/a.ts'),
+		fileNode('src/b.ts'),
+		fileNode('lib/c.ts'),
+		{
+			id: 'function:src/a.ts:run',
+			label: 'run',
+			type: 'function',
+			path: 'src/a.ts',
+			line: 8,
+			exported: true,
+			metrics: metrics(6),
+		},
+		{
+			id: 'function:src/a.ts:helper',
+			label: 'helper',
+			type: 'function',
+			path: 'src/a.ts',
+			line: 2,
+			metrics: metrics(2),
+		},
+		{
+			id: 'class:src/b.ts:</script>',
+			label: '</script>',
+			type: 'class',
+			path: 'src/b.ts',
+			line: 1,
+		},
+		{ id: 'suite:lib/c.ts:c', label: 'c', type: 'suite', path: 'lib/c.ts', line: 1 },
+		{ id: 'test:lib/c.ts:c.works', label: 'c.works', type: 'test', path: 'lib/c.ts', line: 2 },
+	],
+	edges: [
+		{ source: 'file:src/a.ts', target: 'file:src/b.ts', type: 'imports' },
+		{ source: 'file:src/b.ts', target: 'file:src/a.ts', type: 'imports' },
+		{ source: 'file:lib/c.ts', target: 'file:src/a.ts', type: 'imports', typeOnly: true },
+		{ source: 'function:src/a.ts:run', target: 'function:src/a.ts:helper', type: 'calls' },
+	],
+};
+const generatedAt = new Date('2026-01-02T03:04:05Z');
+
+describe('HTML architecture report', () => {
+	it('should collect files, imports, cycles and hotspots from the graph', () => {
+		const report = buildArchitectureReport(graph, { title: 'Demo', generatedAt, hotspots: 1 });
+
+		expect(report.title).toBe('Demo');
+		expect(report.generatedAt).toBe('2026-01-02T03:04:05.000Z');
+		expect(report.modules.map((module) => module.path)).toEqual([
+			'lib/c.ts',
+			'src/a.ts',
+			'src/b.ts',
+		]);
+		expect(report.modules[0]).toEqual({
+			path: 'lib/c.ts',
+			directory: 'lib',
+			symbols: [],
+			tests: 1,
+			imports: 1,
+			importers: 0,
+			complexity: 0,
+		});
+		expect(report.modules[1]).toEqual({
+			path: 'src/a.ts',
+			directory: 'src',
+			symbols: [
+				{ name: 'helper', type: 'function', line: 2 },
+				{ name: 'run', type: 'function', line: 8, exported: true },
+			],
+			tests: 0,
+			imports: 1,
+			importers: 2,
+			complexity: 8,
+			cycle: 0,
+		});
+		expect(report.imports).toEqual([
+			{ source: 1, target: 2, cycle: true },
+			{ source: 2, target: 1, cycle: true },
+			{ source: 0, target: 1, typeOnly: true },
+		]);
+		expect(report.cycles).toEqual([
+			{ files: ['src/a.ts', 'src/b.ts'], loop: ['src/a.ts', 'src/b.ts', 'src/a.ts'] },
+		]);
+		expect(report.hotspots).toEqual([{ name: 'run', path: 'src/a.ts', line: 8, ...metrics(6) }]);
+	});
+
+	it('should render one page that needs nothing from the network', () => {
+		const html = renderHtmlReport(
+			buildArchitectureReport(graph, { title: 'Demo <app>', generatedAt }),
+		);
+
+		expect(html.startsWith('<!DOCTYPE html>')).toBe(true);
+		expect(html).toContain('<title>Demo &lt;app&gt;</title>');
+		expect(html).not.toMatch(/<script[^>]*\bsrc=|<link\b|@import|url\(\s*['"]?https?:/);
+		// The SVG namespace is an identifier, never fetched
+		expect(html.match(/https?:\/\/[^'"\s]+/g)).toEqual(['http://www.w3.org/2000/svg']);
+
+		// A symbol named `</script>` cannot end the embedded data early
+		expect(html.match(/<\/script>/g)).toHaveLength(2);
+		expect(html).toContain('<code>src/a.ts → src/b.ts → src/a.ts</code>');
+		expect(html).toContain('<details id="file-1" data-path="src/a.ts">');
+		expect(html).toContain('<span class="kind">class</span> &lt;/script&gt;');
+		expect(html).toContain('<a href="#file-1">src/a.ts:8</a>');
+	});
+
+	it('should say so when there are no import cycles', () => {
+		const acyclic = { ...graph, edges: graph.edges.slice(1) };
+		const html = renderHtmlReport(buildArchitectureReport(acyclic, { generatedAt }));
+
+		expect(html).toContain('<p>No import cycles.</p>');
+		expect(html).toContain('<h1>Architecture</h1>');
+	});
+});
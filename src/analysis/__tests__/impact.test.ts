@@ -0,0 +1,182 @@
+import { rm } from 'node:fs/promises';
+import { join, resolve } from 'node:path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import type { CodeGraph, GraphNode } from '../../parser/graphBuilder.ts';
+import { analyzeImpact, describeImpact, gitDiff, parseDiff } from '../impact.ts';
+import { declaration, edge, fileNode } from './fixtures.ts';
+
+// store.ts: class Store { save, load } and openStore; api.ts: handler calls Store.save;
+// app.ts imports api.ts; cli.ts imports openStore but its calls are not linked
+const graph: CodeGraph = {
+	nodes: [
+		fileNode('src/store.ts'),
+		fileNode('src/api.ts'),
+		fileNode('src/app.ts'),
+		fileNode('src/cli.ts'),
+		fileNode('src/__tests__/store.test.ts', { test: true }),
+		declaration('class', 'src/store.ts', 'Store', 1, { endLine: 20 }),
+		declaration('function', 'src/store.ts', 'Store.save', 2, { endLine: 8 }),
+		declaration('function', 'src/store.ts', 'Store.load', 10, { endLine: 18 }),
+		declaration('function', 'src/store.ts', 'openStore', 22, { endLine: 25, exported: true }),
+		declaration('function', 'src/api.ts', 'handler', 3, { endLine: 6 }),
+		declaration('function', 'src/app.ts', 'main', 2, { endLine: 4 }),
+		declaration('test', 'src/__tests__/store.test.ts', 'saves', 4, { endLine: 7 }),
+	],
+	edges: [
+		edge('file:src/api.ts', 'file:src/store.ts', 'imports', { names: ['Store'] }),
+		edge('file:src/app.ts', 'file:src/api.ts', 'imports', { names: ['handler'] }),
+		edge('file:src/__tests__/store.test.ts', 'file:src/store.ts', 'imports', { names: ['Store'] }),
+		edge('file:src/cli.ts', 'file:src/store.ts', 'imports', { names: ['openStore'] }),
+		edge('function:src/api.ts:handler', 'function:src/store.ts:Store.save', 'calls'),
+		edge('function:src/app.ts:main', 'function:src/api.ts:handler', 'calls'),
+		edge('test:src/__tests__/store.test.ts:saves', 'function:src/store.ts:Store.save', 'tests'),
+	],
+};
+const rows = (hits: { node: GraphNode; distance: number }[]) =>
+	hits.map((hit) => `${hit.distance} ${hit.node.label}`);
+
+describe('impact analysis', () => {
+	it('should read changed line ranges from a diff', () => {
+		const diff = [
+			'diff --git src/store.ts src/store.ts',
+			'index 1111111..2222222 100644',
+			'--- src/store.ts',
+			'+++ src/store.ts',
+			'@@ -3 +3 @@ class Store {',
+			'-\t\treturn 1;',
+			'+\t\treturn 2;',
+			'@@ -12,2 +12,0 @@',
+			'--- removed line that looks like a header',
+			'-\tgone();',
+			'@@ -30,0 +31,3 @@',
+			'+++ added line that looks like a header',
+			'+a',
+			'+b',
+			'diff --git src/old.ts src/new.ts',
+			'similarity index 100%',
+			'rename from src/old.ts',
+			'rename to src/new.ts',
+			'diff --git src/dead.ts src/dead.ts',
+			'deleted file mode 100644',
+			'--- src/dead.ts',
+			'+++ /dev/null',
+			'@@ -1,3 +0,0 @@',
+			'-export const a = 1;',
+			'diff --git src/born.ts src/born.ts',
+			'new file mode 100644',
+			'--- /dev/null',
+			'+++ src/born.ts',
+			'@@ -0,0 +1,2 @@',
+			'+export const b = 1;',
+		].join('\n');
+
+		expect(parseDiff(diff)).toEqual([
+			{
+				path: 'src/store.ts',
+				ranges: [
+					{ start: 3, end: 3 },
+					{ start: 12, end: 12 },
+					{ start: 31, end: 33 },
+				],
+			},
+			{ path: 'src/new.ts', ranges: [] },
+			{ path: 'src/dead.ts', ranges: [], deleted: true },
+			{ path: 'src/born.ts', ranges: [], added: true },
+		]);
+	});
+
+	it('should follow callers, importers and tests back from changed declarations', () => {
+		const report = analyzeImpact(graph, [
+			{ path: 'src/store.ts', ranges: [{ start: 5, end: 6 }] },
+			{ path: 'README.md', ranges: [{ start: 1, end: 1 }] },
+		]);
+
+		// The changed method, not the class around it
+		expect(report.changed.map((node) => node.id)).toEqual(['function:src/store.ts:Store.save']);
+		expect(rows(report.symbols)).toEqual(['0 Store.save', '1 handler', '2 main']);
+		expect(rows(report.files)).toEqual([
+			'0 src/store.ts',
+			'1 src/__tests__/store.test.ts',
+			'1 src/api.ts',
+			'2 src/app.ts',
+		]);
+		expect(rows(report.tests)).toEqual(['1 saves']);
+		expect(report.tests[0]?.score).toBe(0.5);
+		expect(report.testFiles).toEqual(['src/__tests__/store.test.ts']);
+		expect(report.unmapped).toEqual(['README.md']);
+		expect(describeImpact(report)).toBe(
+			'Current changes touch Store.save; they affect 4 file(s) and 1 test(s). ' +
+				'Most affected: handler (1 hop), main (2 hops)',
+		);
+	});
+
+	it('should reach the files importing a changed export, and only those', () => {
+		const report = analyzeImpact(graph, [
+			{ path: 'src/store.ts', ranges: [{ start: 23, end: 23 }] },
+		]);
+
+		expect(report.changed.map((node) => node.id)).toEqual(['function:src/store.ts:openStore']);
+		expect(rows(report.symbols)).toEqual(['0 openStore']);
+		expect(rows(report.files)).toEqual(['0 src/store.ts', '1 src/cli.ts']);
+		expect(report.testFiles).toEqual([]);
+	});
+
+	it('should fall back to the file when no declaration changed, and honor the depth limit', () => {
+		const topLevel = [{ path: 'src/store.ts', ranges: [{ start: 30, end: 30 }] }];
+		const imports = analyzeImpact(graph, topLevel, { maxDepth: 1 });
+		expect(imports.changed.map((node) => node.id)).toEqual(['file:src/store.ts']);
+		expect(rows(imports.symbols)).toEqual([]);
+		expect(rows(imports.files)).toEqual([
+			'0 src/store.ts',
+			'1 src/__tests__/store.test.ts',
+			'1 src/api.ts',
+			'1 src/cli.ts',
+		]);
+
+		const whole = analyzeImpact(graph, [{ path: resolve('src/api.ts'), ranges: [] }]);
+		expect(whole.changed.map((node) => node.id)).toEqual(['file:src/api.ts']);
+		expect(rows(whole.symbols)).toEqual(['0 handler', '1 main']);
+		expect(describeImpact(analyzeImpact(graph, []))).toBe('');
+	});
+
+	describe('git diffs', () => {
+		const dir = join(process.cwd(), '.test-impact');
+		const git = (...args: string[]) => {
+			const result = Bun.spawnSync(
+				['git', '-c', 'user.name=test', '-c', 'user.email=test@example.com', ...args],
+				{ cwd: dir },
+			);
+			if (result.exitCode !== 0) throw new Error(result.stderr.toString());
+			return result.stdout.toString().trim();
+		};
+
+		beforeAll(async () => {
+			await Bun.write(join(dir, 'src', 'a.ts'), 'export const a = 1;\nexport const b = 2;\n');
+			git('init', '-q', '-b', 'main');
+			git('add', '.');
+			git('commit', '-qm', 'first');
+			git('checkout', '-qb', 'feature');
+			await Bun.write(join(dir, 'src', 'a.ts'), 'export const a = 1;\nexport const b = 3;\n');
+			git('commit', '-qam', 'second');
+			await Bun.write(join(dir, 'src', 'new.ts'), 'export const c = 4;\n');
+		});
+
+		afterAll(async () => {
+			await rm(dir, { recursive: true, force: true });
+		});
+
+		it('should diff against a base, a range or the working tree', async () => {
+			expect(await gitDiff({ cwd: dir, base: 'main' })).toEqual([
+				{ path: join(dir, 'src', 'a.ts'), ranges: [{ start: 2, end: 2 }] },
+				{ path: join(dir, 'src', 'new.ts'), ranges: [], added: true },
+			]);
+			expect(await gitDiff({ cwd: dir, base: 'main..feature' })).toEqual([
+				{ path: join(dir, 'src', 'a.ts'), ranges: [{ start: 2, end: 2 }] },
+			]);
+			expect(await gitDiff({ cwd: dir })).toEqual([
+				{ path: join(dir, 'src', 'new.ts'), ranges: [], added: true },
+			]);
+			await expect(gitDiff({ cwd: dir, base: 'no-such-branch' })).rejects.toThrow(/no-such-branch/);
+		});
+	});
+});
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import type { CodeGraph, GraphEdge } from '../../parser/graphBuilder.ts';
+import { findImportCycles, importStatementAt } from '../importCycles.ts';
+import { edge, fileNode } from './fixtures.ts';
+
+const imports = (source: string, target: string, extra: Partial<GraphEdge> = {}) =>
+	edge(`file:${source}`, `file:${target}`, 'imports', extra);
+
+// a -> b -> c -> a, c -> d, d -> d, e -(type)-> f -> e, g -(dynamic)-> a
+const graph: CodeGraph = {
+	nodes: ['a.ts', 'b.ts', 'c.ts', 'd.ts', 'e.ts', 'f.ts', 'g.ts'].map((path) => fileNode(path)),
+	edges: [
+		imports('a.ts', 'b.ts', { lines: [1] }),
+		imports('b.ts', 'c.ts', { lines: [2] }),
+		imports('c.ts', 'a.ts', { lines: [3, 4] }),
+		imports('c.ts', 'd.ts'),
+		imports('d.ts', 'd.ts'),
+		imports('e.ts', 'f.ts', { typeOnly: true }),
+		imports('f.ts', 'e.ts'),
+		imports('g.ts', 'a.ts', { dynamic: true }),
+		imports('a.ts', 'g.ts'),
+		edge('file:d.ts', 'file:b.ts', 'calls'),
+	],
+};
+
+describe('import cycles', () => {
+	it('should find every strongly connected group of files, largest first', () => {
+		const cycles = findImportCycles(graph);
+
+		expect(cycles.map((cycle) => cycle.files)).toEqual([
+			['a.ts', 'b.ts', 'c.ts', 'g.ts'],
+			['e.ts', 'f.ts'],
+			['d.ts'],
+		]);
+		expect(cycles.map((cycle) => cycle.loop)).toEqual([
+			['a.ts', 'g.ts', 'a.ts'],
+			['e.ts', 'f.ts', 'e.ts'],
+			['d.ts', 'd.ts'],
+		]);
+		expect(cycles[0]?.imports.map((edge) => `${edge.source} ${edge.target}`)).toEqual([
+			'file:a.ts file:b.ts',
+			'file:a.ts file:g.ts',
+			'file:b.ts file:c.ts',
+			'file:c.ts file:a.ts',
+			'file:g.ts file:a.ts',
+		]);
+	});
+
+	it('should ignore type-only and dynamic imports for runtime cycles', () => {
+		const cycles = findImportCycles(graph, { runtimeOnly: true });
+
+		expect(cycles.map((cycle) => cycle.loop)).toEqual([
+			['a.ts', 'b.ts', 'c.ts', 'a.ts'],
+			['d.ts', 'd.ts'],
+		]);
+	});
+
+	it('should not count imports made through a barrel', () => {
+		const barrel: CodeGraph = {
+			nodes: ['app.ts', 'index.ts', 'dates.ts'].map((path) => fileNode(path)),
+			edges: [
+				imports('app.ts', 'index.ts'),
+				imports('app.ts', 'dates.ts', { via: 'file:index.ts' }),
+				imports('index.ts', 'dates.ts', { reExport: true }),
+				imports('dates.ts', 'app.ts', { typeOnly: true }),
+			],
+		};
+
+		expect(findImportCycles(barrel).map((cycle) => cycle.loop)).toEqual([
+			['app.ts', 'index.ts', 'dates.ts', 'app.ts'],
+		]);
+		expect(findImportCycles(barrel, { runtimeOnly: true })).toEqual([]);
+	});
+
+	it('should read whole import statements from source', () => {
+		const source = [
+			"import { a } from './a';",
+			'import {',
+			'\ttype B,',
+			'\tc,',
+			"} from './b';",
+			'from .models import \\',
+			'    User',
+			'from ..util import (',
+			'    helper,',
+			')',
+		].join('\n');
+
+		expect(importStatementAt(source, 1)).toBe("import { a } from './a';");
+		expect(importStatementAt(source, 2)).toBe("import { type B, c, } from './b';");
+		expect(importStatementAt(source, 6)).toBe('from .models import User');
+		expect(importStatementAt(source, 8)).toBe('from ..util import ( helper, )');
+		expect(importStatementAt(source, 20)).toBeUndefined();
+	});
+});
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import type { CodeGraph, FunctionMetrics } from '../../parser/graphBuilder.ts';
+import { describeHotspots, functionMetrics, parseThreshold, rankFunctions } from '../metrics.ts';
+
+const metrics = (values: Partial<FunctionMetrics>): FunctionMetrics => ({
+	complexity: 1,
+	nesting: 0,
+	lines: 1,
+	parameters: 0,
+	fanIn: 0,
+	fanOut: 0,
+	...values,
+});
+
+const graph: CodeGraph = {
+	nodes: [
+		{ id: 'file:src/a.ts', label: 'a.ts', type: 'file', path: 'src/a.ts' },
+		{
+			id: 'function:src/a.ts:parse',
+			label: 'parse',
+			type: 'function',
+			path: 'src/a.ts',
+			line: 3,
+			metrics: metrics({ complexity: 12, nesting: 4, lines: 80, fanIn: 1 }),
+		},
+		{
+			id: 'function:src/a.ts:format',
+			label: 'format',
+			type: 'function',
+			path: 'src/a.ts',
+			line: 90,
+			metrics: metrics({ complexity: 3, lines: 10, fanIn: 6 }),
+		},
+		{
+			id: 'function:src/b.ts:noop',
+			label: 'noop',
+			type: 'function',
+			path: 'src/b.ts',
+			line: 1,
+			metrics: metrics({}),
+		},
+		{ id: 'interface:src/b.ts:Api', label: 'Api', type: 'interface', path: 'src/b.ts' },
+	],
+	edges: [],
+};
+
+describe('function metrics', () => {
+	it('should list only nodes with metrics', () => {
+		expect(functionMetrics(graph).map((row) => row.name)).toEqual(['parse', 'format', 'noop']);
+	});
+
+	it('should sort by complexity by default and by any metric on request', () => {
+		const rows = functionMetrics(graph);
+		expect(rankFunctions(rows).map((row) => row.name)).toEqual(['parse', 'format', 'noop']);
+		expect(rankFunctions(rows, { sortBy: 'fanIn', limit: 2 }).map((row) => row.name)).toEqual([
+			'format',
+			'parse',
+		]);
+	});
+
+	it('should keep functions reaching any threshold', () => {
+		const rows = functionMetrics(graph);
+		expect(
+			rankFunctions(rows, { thresholds: { nesting: 4, fanIn: 5 } }).map((row) => row.name),
+		).toEqual(['parse', 'format']);
+		expect(rankFunctions(rows, { thresholds: { complexity: 50 } })).toEqual([]);
+	});
+
+	it('should parse thresholds written on the command line', () => {
+		expect(parseThreshold('complexity=10')).toEqual(['complexity', 10]);
+		expect(parseThreshold('fan-in=3')).toEqual(['fanIn', 3]);
+		expect(parseThreshold('depth=3')).toBeNull();
+		expect(parseThreshold('constructor=1')).toBeNull();
+		expect(parseThreshold('lines=')).toBeNull();
+		expect(parseThreshold('lines=-1')).toBeNull();
+	});
+
+	it('should summarize hotspots for the planner, skipping trivial functions', () => {
+		expect(describeHotspots(graph)).toBe(
+			'Most complex functions: ' +
+				'parse at src/a.ts:3 (complexity 12, nesting 4, 80 lines, fan-in 1); ' +
+				'format at src/a.ts:90 (complexity 3, nesting 0, 10 lines, fan-in 6)',
+		);
+		expect(describeHotspots({ nodes: [], edges: [] })).toBe('');
+	});
+});
@@ -0,0 +1,254 @@
+import { basename, join, relative, resolve, sep } from 'node:path';
+import type { CodeGraph, GraphNode } from '../parser/graphBuilder.ts';
+import { graphView } from '../parser/graphTraversal.ts';
+import { compileIgnorePatterns, type IgnoreRule, isIgnored } from '../parser/ignoreRules.ts';
+import { subpathMapCandidates } from '../parser/moduleResolution.ts';
+import { isTestFile } from '../parser/testFiles.ts';
+import { discoverWorkspace, distToSource, type PackageJson } from '../parser/workspace.ts';
+import { readJson } from '../utils/fs.ts';
+
+/** How sure a finding is: dynamic usage (callbacks, reflection, tools loading files by name) can hide real uses */
+export type Confidence = 'high' | 'medium' | 'low';
+
+export const CONFIDENCE_LEVELS: Confidence[] = ['high', 'medium', 'low'];
+
+export type DeadCodeKind = 'unused-export' | 'uncalled-function' | 'unimported-file';
+
+export interface DeadCodeFinding {
+	kind: DeadCodeKind;
+	node: GraphNode;
+	confidence: Confidence;
+	/** Why it looks unused, or what might still use it */
+	reason: string;
+}
+
+export type EntryPointOptions = {
+	/** More entry points: .gitignore-style patterns relative to the project root */
+	patterns?: string[];
+	/** package.json `bin`, `main`, `module`, `source` and `exports` targets; on by default */
+	packageJson?: boolean;
+	/** Test files; on by default */
+	tests?: boolean;
+	/** `index.*`, `__init__.py` and `__main__.py`; on by default */
+	indexFiles?: boolean;
+};
+
+const INDEX_FILE = /^(index\.[cm]?[jt]sx?|__init__\.py|__main__\.py)$/;
+
+/** Files tools load by name: `vitest.config.ts`, `.eslintrc.js` */
+const CONFIG_FILE = /(^|\.)config\.[cm]?[jt]s$|^\..*rc\.[cm]?[jt]s$/;
+
+const SOURCE_EXTENSION = /\.(d\.ts|[cm]?[jt]sx?|py)$/;
+
+/**
+ * Ids of the file nodes where execution or outside use starts: package.json
+ * entries, test files, index files and files matching `patterns`
+ */
+export async function findEntryPoints(
+	graph: CodeGraph,
+	projectRoot = process.cwd(),
+	options: EntryPointOptions = {},
+): Promise<Set<string>> {
+	const root = resolve(projectRoot);
+	const rules = compileIgnorePatterns((options.patterns ?? []).join('\n'));
+	const packageEntries = options.packageJson === false ? new Set() : await packageEntryPaths(root);
+
+	const entries = new Set<string>();
+	for (const node of graph.nodes) {
+		if (node.type !== 'file' || !node.path) continue;
+		const absolute = resolve(root, node.path);
+		const relPath = relative(root, absolute).split(sep).join('/');
+		if (
+			(options.tests !== false && (node.test || isTestFile(relPath))) ||
+			(options.indexFiles !== false && INDEX_FILE.test(basename(absolute))) ||
+			packageEntries.has(absolute.replace(SOURCE_EXTENSION, '')) ||
+			matchesPatterns(rules, relPath)
+		) {
+			entries.add(node.id);
+		}
+	}
+	return entries;
+}
+
+/**
+ * Exports nothing imports, private functions nothing calls and files nothing
+ * imports, leaving out entry points and the API they re-export. Sorted by
+ * kind, then most certain first.
+ */
+export function findDeadCode(
+	graph: CodeGraph,
+	entryPoints: ReadonlySet<string>,
+): DeadCodeFinding[] {
+	const view = graphView(graph);
+	const fileOf = (id: string) => {
+		const path = view.nodes.get(id)?.path;
+		return path === undefined ? undefined : `file:${path}`;
+	};
+
+	// Entry points, and barrels they re-export, are used from outside the project
+	const publicFiles = new Set(entryPoints);
+	for (const fileId of publicFiles) {
+		for (const edge of view.index.outgoing(fileId, ['imports'])) {
+			if (edge.reExport) publicFiles.add(edge.target);
+		}
+	}
+	// Names each file's importers use; a re-export only uses a name when the barrel is public
+	const usedNames = new Map<string, Set<string>>();
+	for (const edge of graph.edges) {
+		if (edge.type !== 'imports' || (edge.reExport && !publicFiles.has(edge.source))) continue;
+		const names = usedNames.get(edge.target) ?? new Set();
+		for (const name of edge.names ?? []) names.add(name);
+		usedNames.set(edge.target, names);
+	}
+
+	const findings: DeadCodeFinding[] = [];
+	const report = (kind: DeadCodeKind, node: GraphNode, confidence: Confidence, reason: string) => {
+		if (node.unreliable) {
+			findings.push({
+				kind,
+				node,
+				confidence: 'low',
+				reason: `${reason} (file has syntax errors)`,
+			});
+		} else {
+			findings.push({ kind, node, confidence, reason });
+		}
+	};
+
+	for (const node of graph.nodes) {
+		if (node.type === 'file' || node.type === 'test' || node.type === 'suite') continue;
+		const fileId = fileOf(node.id);
+		if (!fileId) continue;
+		const python = node.path?.endsWith('.py') ?? false;
+		const incoming = view.index
+			.incoming(node.id)
+			.filter((edge) => edge.type !== 'contains' && edge.source !== node.id);
+
+		if (node.exported) {
+			if (entryPoints.has(fileId)) continue;
+			const names = usedNames.get(fileId);
+			const imported =
+				names?.has('*') ||
+				names?.has(node.label) ||
+				(node.defaultExport === true && names?.has('default'));
+			if (imported || incoming.some((edge) => fileOf(edge.source) !== fileId)) continue;
+			report(
+				'unused-export',
+				node,
+				// Used in its own file: often a type in the signature of another export
+				python || incoming.length > 0 ? 'medium' : 'high',
+				incoming.length > 0
+					? 'only used in its own file; it need not be exported'
+					: python
+						? 'never imported; attribute access on the module would not show'
+						: 'never imported or referenced',
+			);
+			continue;
+		}
+
+		if (node.type !== 'function' || node.defaultExport) continue;
+		const used = ['calls', 'references', 'tests'];
+		if (incoming.some((edge) => used.includes(edge.type))) continue;
+		// Overrides run when the base method is called
+		if (view.index.outgoing(node.id, ['overrides']).length > 0) continue;
+		const parents = view.index
+			.incoming(node.id, ['contains'])
+			.map((edge) => view.nodes.get(edge.source)?.type);
+		// Helpers inside another function live and die with it
+		if (parents.includes('function')) continue;
+		const inClass = parents.includes('class');
+		if (inClass) {
+			report(
+				'uncalled-function',
+				node,
+				'low',
+				'no call found; calls through an instance are only linked with index --type-check',
+			);
+		} else {
+			report(
+				'uncalled-function',
+				node,
+				python ? 'low' : 'medium',
+				python
+					? 'no call found; decorators and frameworks may call it'
+					: 'no call found; it may be passed as a callback',
+			);
+		}
+	}
+
+	for (const node of graph.nodes) {
+		if (node.type !== 'file' || !node.path || entryPoints.has(node.id)) continue;
+		if (node.path.endsWith('.d.ts')) continue;
+		const importers = view.index
+			.incoming(node.id, ['imports'])
+			.filter((edge) => edge.source !== node.id);
+		if (importers.length > 0) continue;
+		const name = basename(node.path);
+		if (CONFIG_FILE.test(name)) {
+			report('unimported-file', node, 'low', 'not imported; tools load config files by name');
+		} else if (name.endsWith('.py')) {
+			report('unimported-file', node, 'medium', 'not imported; it may be run as a script');
+		} else {
+			report('unimported-file', node, 'high', 'not imported and not an entry point');
+		}
+	}
+
+	const kinds: DeadCodeKind[] = ['unused-export', 'uncalled-function', 'unimported-file'];
+	return findings.sort(
+		(a, b) =>
+			kinds.indexOf(a.kind) - kinds.indexOf(b.kind) ||
+			CONFIDENCE_LEVELS.indexOf(a.confidence) - CONFIDENCE_LEVELS.indexOf(b.confidence) ||
+			(a.node.path ?? '').localeCompare(b.node.path ?? '') ||
+			(a.node.line ?? 0) - (b.node.line ?? 0),
+	);
+}
+
+/** A file matches a pattern, or sits in a directory that does */
+function matchesPatterns(rules: IgnoreRule[], relPath: string): boolean {
+	if (rules.length === 0) return false;
+	const parts = relPath.split('/');
+	for (let depth = 1; depth < parts.length; depth++) {
+		if (isIgnored(rules, parts.slice(0, depth).join('/'), true)) return true;
+	}
+	return isIgnored(rules, relPath, false);
+}
+
+/**
+ * Extensionless absolute paths named by the root and workspace package.json
+ * files, with built paths mapped back to their sources
+ */
+async function packageEntryPaths(root: string): Promise<Set<string>> {
+	const manifests: { dir: string; manifest: PackageJson }[] = [];
+	const rootManifest = await readJson<PackageJson | null>(join(root, 'package.json'), null);
+	if (rootManifest) manifests.push({ dir: root, manifest: rootManifest });
+	for (const pkg of (await discoverWorkspace(root)).packages) {
+		if (pkg.root !== root) manifests.push({ dir: pkg.root, manifest: pkg.manifest });
+	}
+
+	const paths = new Set<string>();
+	for (const { dir, manifest } of manifests) {
+		const { bin, exports } = manifest;
+		const subpaths =
+			exports && typeof exports === 'object' && !Array.isArray(exports)
+				? Object.keys(exports).filter((key) => key.startsWith('.'))
+				: [];
+		const targets = [
+			...(typeof bin === 'string' ? [bin] : Object.values(bin ?? {})),
+			manifest.main,
+			manifest.module,
+			manifest.source,
+		]
+			.filter((target): target is string => typeof target === 'string')
+			.map((target) => join(dir, target));
+		for (const key of subpaths.length > 0 ? subpaths : ['.']) {
+			targets.push(...subpathMapCandidates(dir, exports, key));
+		}
+		for (const target of targets) {
+			for (const path of [target, distToSource(target)]) {
+				paths.add(path.replace(SOURCE_EXTENSION, ''));
+				paths.add(join(path, 'index'));
+			}
+		}
+	}
+	return paths;
+}
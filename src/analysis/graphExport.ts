@@ -0,0 +1,288 @@
+import { basename, dirname } from 'node:path';
+import type { CodeGraph, GraphEdge, GraphNode, GraphNodeType } from '../parser/graphBuilder.ts';
+import { distancesFrom, graphView } from '../parser/graphTraversal.ts';
+import { displayPath } from './graphQuery.ts';
+
+export const EXPORT_FORMATS = ['dot', 'mermaid', 'graphml'] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export type RenderOptions = {
+	/**
+	 * Group nodes by directory: clusters in DOT, subgraphs in Mermaid and a
+	 * `cluster` attribute in GraphML; on by default
+	 */
+	cluster?: boolean;
+	/** Ids of nodes to draw in bold, such as the focus of a subgraph */
+	highlight?: string[];
+};
+
+/** A set of nodes sharing a directory; no directory for nodes without a path */
+type Cluster = { directory?: string; nodes: GraphNode[] };
+
+const DOT_SHAPES = new Map<GraphNodeType, string>([
+	['file', 'note'],
+	['class', 'component'],
+	['interface', 'component'],
+	['suite', 'ellipse'],
+	['test', 'ellipse'],
+]);
+
+/**
+ * Files and the imports between them: the module map. Imports resolved
+ * through a barrel are left out, as the import of the barrel already shows.
+ */
+export function fileGraph(graph: CodeGraph): CodeGraph {
+	const nodes = graph.nodes.filter((node) => node.type === 'file');
+	const ids = new Set(nodes.map((node) => node.id));
+	const edges = graph.edges.filter(
+		(edge) =>
+			edge.type === 'imports' &&
+			!edge.via &&
+			edge.source !== edge.target &&
+			ids.has(edge.source) &&
+			ids.has(edge.target),
+	);
+	return { nodes, edges };
+}
+
+/**
+ * The nodes within `depth` hops of any of `focusIds`, following edges either
+ * way, and the edges among them. Containment is not followed, so a function
+ * does not pull in every sibling in its file.
+ */
+export function focusSubgraph(graph: CodeGraph, focusIds: string[], depth = 1): CodeGraph {
+	const linking = { ...graph, edges: graph.edges.filter((edge) => edge.type !== 'contains') };
+	const reached = distancesFrom(graphView(linking), focusIds, {
+		direction: 'both',
+		maxDepth: depth,
+	});
+	return {
+		nodes: graph.nodes.filter((node) => reached.has(node.id)),
+		edges: linking.edges.filter((edge) => reached.has(edge.source) && reached.has(edge.target)),
+	};
+}
+
+/**
+ * A graph as Graphviz DOT, a Mermaid flowchart or GraphML
+ */
+export function renderGraph(
+	graph: CodeGraph,
+	format: ExportFormat,
+	options: RenderOptions = {},
+): string {
+	switch (format) {
+		case 'dot':
+			return renderDot(graph, options);
+		case 'mermaid':
+			return renderMermaid(graph, options);
+		case 'graphml':
+			return renderGraphML(graph, options);
+	}
+}
+
+/**
+ * Graphviz DOT, one `cluster_` subgraph per directory; render with
+ * `dot -Tsvg`
+ */
+export function renderDot(graph: CodeGraph, options: RenderOptions = {}): string {
+	const highlight = new Set(options.highlight);
+	const ids = exportIds(graph.nodes);
+	const lines = [
+		'digraph code {',
+		'\trankdir=LR;',
+		'\tnode [shape=box, fontname="Helvetica", fontsize=10];',
+		'\tedge [fontname="Helvetica", fontsize=9];',
+	];
+	const nodeLine = (node: GraphNode, clustered: boolean) => {
+		const attributes = [`label=${dotString(nodeLabel(node, clustered))}`];
+		const shape = DOT_SHAPES.get(node.type);
+		if (shape) attributes.push(`shape=${shape}`);
+		if (node.path) attributes.push(`tooltip=${dotString(location(node))}`);
+		if (highlight.has(node.id)) attributes.push('style="bold,filled"', 'fillcolor="#fff3b0"');
+		return `${dotString(ids.get(node.id) ?? node.id)} [${attributes.join(', ')}];`;
+	};
+
+	clusters(graph.nodes, options.cluster !== false).forEach(({ directory, nodes }, index) => {
+		if (directory === undefined) {
+			for (const node of nodes) lines.push(`\t${nodeLine(node, false)}`);
+			return;
+		}
+		lines.push(`\tsubgraph cluster_${index} {`, `\t\tlabel=${dotString(directory)};`);
+		for (const node of nodes) lines.push(`\t\t${nodeLine(node, true)}`);
+		lines.push('\t}');
+	});
+	for (const edge of drawnEdges(graph)) {
+		const attributes: string[] = [];
+		if (edge.type !== 'imports') attributes.push(`label=${dotString(edge.type)}`);
+		if (edge.typeOnly || edge.dynamic) attributes.push('style=dashed');
+		const suffix = attributes.length > 0 ? ` [${attributes.join(', ')}]` : '';
+		const [source, target] = [ids.get(edge.source) ?? '', ids.get(edge.target) ?? ''];
+		lines.push(`\t${dotString(source)} -> ${dotString(target)}${suffix};`);
+	}
+	lines.push('}');
+	return `${lines.join('\n')}\n`;
+}
+
+/**
+ * A Mermaid flowchart, one subgraph per directory, for pasting into
+ * Markdown; type-only and dynamic imports are dotted
+ */
+export function renderMermaid(graph: CodeGraph, options: RenderOptions = {}): string {
+	// Mermaid ids must be plain words
+	const ids = new Map<string, string>();
+	const lines = ['flowchart LR'];
+	const nodeLine = (node: GraphNode, clustered: boolean) => {
+		const id = `n${ids.size}`;
+		ids.set(node.id, id);
+		const text = mermaidString(nodeLabel(node, clustered));
+		return node.type === 'file' ? `${id}["${text}"]` : `${id}("${text}")`;
+	};
+
+	clusters(graph.nodes, options.cluster !== false).forEach(({ directory, nodes }, index) => {
+		if (directory === undefined) {
+			for (const node of nodes) lines.push(`  ${nodeLine(node, false)}`);
+			return;
+		}
+		lines.push(`  subgraph c${index}["${mermaidString(directory)}"]`);
+		for (const node of nodes) lines.push(`    ${nodeLine(node, true)}`);
+		lines.push('  end');
+	});
+	for (const edge of drawnEdges(graph)) {
+		const arrow = edge.typeOnly || edge.dynamic ? '-.->' : '-->';
+		const label = edge.type === 'imports' ? '' : `|${edge.type}|`;
+		lines.push(`  ${ids.get(edge.source)} ${arrow}${label} ${ids.get(edge.target)}`);
+	}
+	const highlighted = (options.highlight ?? []).flatMap((id) => ids.get(id) ?? []);
+	if (highlighted.length > 0) {
+		lines.push(
+			'  classDef focus stroke-width:3px,fill:#fff3b0',
+			`  class ${highlighted.join(',')} focus`,
+		);
+	}
+	return `${lines.join('\n')}\n`;
+}
+
+/**
+ * GraphML for tools such as Gephi, yEd or networkx. Nodes carry their type,
+ * path, line and directory; edges their type and import flags.
+ */
+export function renderGraphML(graph: CodeGraph, options: RenderOptions = {}): string {
+	const highlight = new Set(options.highlight);
+	const ids = exportIds(graph.nodes);
+	const data = (key: string, value: string | number | boolean | undefined) =>
+		value === undefined ? '' : `<data key="${key}">${xmlString(String(value))}</data>`;
+	const lines = [
+		'<?xml version="1.0" encoding="UTF-8"?>',
+		'<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+		'  <key id="label" for="node" attr.name="label" attr.type="string"/>',
+		'  <key id="kind" for="node" attr.name="type" attr.type="string"/>',
+		'  <key id="path" for="node" attr.name="path" attr.type="string"/>',
+		'  <key id="line" for="node" attr.name="line" attr.type="int"/>',
+		'  <key id="cluster" for="node" attr.name="cluster" attr.type="string"/>',
+		'  <key id="focus" for="node" attr.name="focus" attr.type="boolean"/>',
+		'  <key id="relation" for="edge" attr.name="type" attr.type="string"/>',
+		'  <key id="typeOnly" for="edge" attr.name="typeOnly" attr.type="boolean"/>',
+		'  <key id="dynamic" for="edge" attr.name="dynamic" attr.type="boolean"/>',
+		'  <graph id="code" edgedefault="directed">',
+	];
+	for (const { directory, nodes } of clusters(graph.nodes, options.cluster !== false)) {
+		for (const node of nodes) {
+			const fields = [
+				data('label', nodeLabel(node, false)),
+				data('kind', node.type),
+				data('path', node.path && displayPath(node.path)),
+				data('line', node.line),
+				data('cluster', directory),
+				data('focus', highlight.has(node.id) || undefined),
+			];
+			const id = xmlString(ids.get(node.id) ?? node.id);
+			lines.push(`    <node id="${id}">${fields.join('')}</node>`);
+		}
+	}
+	drawnEdges(graph).forEach((edge, index) => {
+		const fields = [
+			data('relation', edge.type),
+			data('typeOnly', edge.typeOnly),
+			data('dynamic', edge.dynamic),
+		];
+		const [source, target] = [ids.get(edge.source) ?? '', ids.get(edge.target) ?? ''];
+		lines.push(
+			`    <edge id="e${index}" source="${xmlString(source)}" target="${xmlString(target)}">${fields.join('')}</edge>`,
+		);
+	});
+	lines.push('  </graph>', '</graphml>');
+	return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Nodes grouped by the directory they live in, in path order; with
+ * clustering off, one group with no directory
+ */
+function clusters(nodes: GraphNode[], byDirectory: boolean): Cluster[] {
+	const sorted = [...nodes].sort(
+		(a, b) =>
+			(a.path ?? '').localeCompare(b.path ?? '') ||
+			Number(b.type === 'file') - Number(a.type === 'file') ||
+			(a.line ?? 0) - (b.line ?? 0) ||
+			a.label.localeCompare(b.label),
+	);
+	if (!byDirectory) return [{ nodes: sorted }];
+	const groups = new Map<string | undefined, GraphNode[]>();
+	for (const node of sorted) {
+		const directory = node.path ? dirname(displayPath(node.path)) : undefined;
+		groups.set(directory, [...(groups.get(directory) ?? []), node]);
+	}
+	return [...groups]
+		.map(([directory, members]) => ({ directory, nodes: members }))
+		.sort((a, b) => (a.directory ?? '').localeCompare(b.directory ?? ''));
+}
+
+/**
+ * Node ids with absolute paths made relative to the working directory, so
+ * exports do not depend on where the project was checked out
+ */
+function exportIds(nodes: GraphNode[]): Map<string, string> {
+	return new Map(
+		nodes.map((node) => [
+			node.id,
+			node.path ? node.id.replace(node.path, displayPath(node.path)) : node.id,
+		]),
+	);
+}
+
+/** Edges whose ends are both in the graph, self-loops left out */
+function drawnEdges(graph: CodeGraph): GraphEdge[] {
+	const ids = new Set(graph.nodes.map((node) => node.id));
+	return graph.edges.filter(
+		(edge) => edge.source !== edge.target && ids.has(edge.source) && ids.has(edge.target),
+	);
+}
+
+/** Files by name inside their directory's cluster, by path outside one */
+function nodeLabel(node: GraphNode, clustered: boolean): string {
+	if (node.type !== 'file' || !node.path) return node.label;
+	return clustered ? basename(node.path) : displayPath(node.path);
+}
+
+function location(node: GraphNode): string {
+	const path = displayPath(node.path ?? '');
+	return node.line ? `${path}:${node.line}` : path;
+}
+
+function dotString(text: string): string {
+	return `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+}
+
+/** Mermaid reads entity codes in labels; quotes and angle brackets would end or start markup */
+function mermaidString(text: string): string {
+	return text.replace(/"/g, '#quot;').replace(/</g, '#lt;').replace(/>/g, '#gt;');
+}
+
+function xmlString(text: string): string {
+	return text
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;');
+}
@@ -0,0 +1,147 @@
+import { isAbsolute, relative, resolve } from 'node:path';
+import type { GraphEdgeType, GraphNode } from '../parser/graphBuilder.ts';
+import type { TraversalHit, TraversalOptions } from '../parser/graphTraversal.ts';
+
+export const GRAPH_QUERIES = [
+	'callers',
+	'callees',
+	'imports',
+	'importers',
+	'path',
+	'deps',
+] as const;
+
+export type GraphQueryName = (typeof GRAPH_QUERIES)[number];
+
+type QueryTraversal = Required<Pick<TraversalOptions, 'direction' | 'edgeTypes'>> & {
+	/** Start from the file a matched symbol lives in */
+	fileLevel: boolean;
+	/** Hops when --depth is not given; unlimited when unset */
+	defaultDepth?: number;
+};
+
+/** Edges along which one piece of code depends on another */
+const DEPENDENCY_EDGES: GraphEdgeType[] = [
+	'imports',
+	'calls',
+	'references',
+	'extends',
+	'implements',
+	'references-type',
+	'instantiates',
+];
+
+/** How each neighborhood query walks the graph */
+export const QUERY_TRAVERSALS: Record<Exclude<GraphQueryName, 'path'>, QueryTraversal> = {
+	callers: { direction: 'backward', edgeTypes: ['calls'], fileLevel: false, defaultDepth: 1 },
+	callees: { direction: 'forward', edgeTypes: ['calls'], fileLevel: false, defaultDepth: 1 },
+	imports: { direction: 'forward', edgeTypes: ['imports'], fileLevel: true, defaultDepth: 1 },
+	importers: { direction: 'backward', edgeTypes: ['imports'], fileLevel: true, defaultDepth: 1 },
+	deps: { direction: 'forward', edgeTypes: DEPENDENCY_EDGES, fileLevel: false },
+};
+
+export type NodeMatch = { node: GraphNode; score: number };
+
+/**
+ * Graph nodes matching what someone typed, best first: a node id, a file
+ * path (absolute, relative or a trailing part), `file:symbol`, a symbol name
+ * or method name, and finally substrings and abbreviations of names
+ */
+export function matchNodes(nodes: Iterable<GraphNode>, query: string): NodeMatch[] {
+	const wanted = query.trim();
+	if (!wanted) return [];
+	const lowered = wanted.toLowerCase();
+	const separator = wanted.lastIndexOf(':');
+	const [filePart, namePart] =
+		separator > 0 ? [wanted.slice(0, separator), wanted.slice(separator + 1)] : ['', ''];
+
+	const matches: NodeMatch[] = [];
+	for (const node of nodes) {
+		const label = node.label.toLowerCase();
+		const path = node.path ?? '';
+		let score = 0;
+		if (node.id === wanted) score = 100;
+		else if (node.type === 'file' && samePath(path, wanted)) score = 95;
+		else if (filePart && node.label === namePart && pathEndsWith(path, filePart)) score = 90;
+		else if (node.label === wanted) score = 80;
+		else if (label === lowered || label.endsWith(`.${lowered}`)) score = 70;
+		else if (node.type === 'file' && pathEndsWith(path, wanted)) score = 60;
+		else if (label.includes(lowered)) score = 40;
+		else if (isSubsequence(lowered, label)) score = 20;
+		// A describe block named after a class should not shadow the class
+		if (score > 0 && (node.type === 'test' || node.type === 'suite')) score -= 5;
+		if (score > 0) matches.push({ node, score });
+	}
+
+	// Ties: declarations before files, shorter names, then by location
+	return matches.sort(
+		(a, b) =>
+			b.score - a.score ||
+			Number(a.node.type === 'file') - Number(b.node.type === 'file') ||
+			a.node.label.length - b.node.label.length ||
+			(a.node.path ?? '').localeCompare(b.node.path ?? '') ||
+			(a.node.line ?? 0) - (b.node.line ?? 0),
+	);
+}
+
+/** `function helper — src/util.ts:12`, with paths shown relative to the working directory */
+export function formatNode(node: GraphNode): string {
+	if (!node.path) return `${node.type} ${node.label}`;
+	const location = node.line ? `${displayPath(node.path)}:${node.line}` : displayPath(node.path);
+	return node.type === 'file' ? `file ${location}` : `${node.type} ${node.label} — ${location}`;
+}
+
+/**
+ * Traversal hits as an indented tree under the start node, each hit under
+ * the node it was reached from. With `edgeTypes`, each line names the edge.
+ */
+export function renderTree(
+	start: GraphNode,
+	hits: TraversalHit[],
+	options: { edgeTypes?: boolean } = {},
+): string[] {
+	const children = new Map<string, TraversalHit[]>();
+	for (const hit of hits) {
+		const parent = hit.path[hit.path.length - 1]?.from ?? start.id;
+		children.set(parent, [...(children.get(parent) ?? []), hit]);
+	}
+
+	const lines = [formatNode(start)];
+	const walk = (id: string, indent: string) => {
+		const below = children.get(id) ?? [];
+		below.forEach((hit, i) => {
+			const last = i === below.length - 1;
+			const step = hit.path[hit.path.length - 1];
+			const edge = options.edgeTypes && step ? ` [${step.reversed ? '←' : ''}${step.type}]` : '';
+			lines.push(`${indent}${last ? '└─ ' : '├─ '}${formatNode(hit.node)}${edge}`);
+			walk(hit.node.id, `${indent}${last ? '   ' : '│  '}`);
+		});
+	};
+	walk(start.id, '');
+	return lines;
+}
+
+/** A graph node path as shown to the user: relative to the working directory */
+export function displayPath(path: string): string {
+	return isAbsolute(path) ? relative(process.cwd(), path) : path;
+}
+
+function samePath(path: string, query: string): boolean {
+	return path === query || resolve(path) === resolve(query);
+}
+
+function pathEndsWith(path: string, suffix: string): boolean {
+	const normalized = path.replace(/\\/g, '/');
+	const tail = suffix.replace(/\\/g, '/').replace(/^\.\//, '');
+	return normalized === tail || normalized.endsWith(`/${tail}`);
+}
+
+/** Every character of `needle` appears in `haystack`, in order */
+function isSubsequence(needle: string, haystack: string): boolean {
+	let position = 0;
+	for (const char of haystack) {
+		if (char === needle[position]) position++;
+		if (position === needle.length) return true;
+	}
+	return needle.length === 0;
+}
@@ -0,0 +1,610 @@
+import { dirname } from 'node:path';
+import type { CodeGraph, FunctionMetrics, GraphNodeType } from '../parser/graphBuilder.ts';
+import { fileGraph } from './graphExport.ts';
+import { displayPath } from './graphQuery.ts';
+import { findImportCycles } from './importCycles.ts';
+import { functionMetrics, rankFunctions } from './metrics.ts';
+
+export type ArchitectureReportOptions = {
+	/** Shown as the page heading; `Architecture` by default */
+	title?: string;
+	/** Functions listed as hotspots (default: 20) */
+	hotspots?: number;
+	generatedAt?: Date;
+};
+
+export interface ReportSymbol {
+	name: string;
+	type: GraphNodeType;
+	line?: number;
+	exported?: boolean;
+}
+
+/** A file on the module map */
+export interface ReportModule {
+	path: string;
+	directory: string;
+	/** Declarations in line order, tests left out */
+	symbols: ReportSymbol[];
+	tests: number;
+	imports: number;
+	importers: number;
+	/** Summed complexity of the file's functions */
+	complexity: number;
+	/** Index into `cycles` when the file is on an import cycle */
+	cycle?: number;
+}
+
+/** An import between two modules, by index into `modules` */
+export interface ReportImport {
+	source: number;
+	target: number;
+	typeOnly?: boolean;
+	dynamic?: boolean;
+	/** Both ends are on the same import cycle */
+	cycle?: boolean;
+}
+
+export type ReportHotspot = FunctionMetrics & { name: string; path: string; line?: number };
+
+export interface ArchitectureReport {
+	title: string;
+	generatedAt: string;
+	modules: ReportModule[];
+	imports: ReportImport[];
+	/** Each cycle's shortest loop, ending where it starts */
+	cycles: { files: string[]; loop: string[] }[];
+	hotspots: ReportHotspot[];
+}
+
+/**
+ * Everything the HTML report shows, from the graph alone: files with their
+ * symbols, the imports between them, import cycles and the most complex
+ * functions
+ */
+export function buildArchitectureReport(
+	graph: CodeGraph,
+	options: ArchitectureReportOptions = {},
+): ArchitectureReport {
+	const files = graph.nodes
+		.filter((node) => node.type === 'file' && node.path)
+		.sort((a, b) => displayPath(a.path ?? '').localeCompare(displayPath(b.path ?? '')));
+	const indexById = new Map(files.map((file, i) => [file.id, i]));
+	const indexByPath = new Map(files.map((file, i) => [file.path, i]));
+	const modules: ReportModule[] = files.map((file) => {
+		const path = displayPath(file.path ?? '');
+		return {
+			path,
+			directory: dirname(path),
+			symbols: [],
+			tests: 0,
+			imports: 0,
+			importers: 0,
+			complexity: 0,
+		};
+	});
+
+	for (const node of graph.nodes) {
+		const module = node.type === 'file' ? undefined : modules[indexByPath.get(node.path) ?? -1];
+		if (!module) continue;
+		if (node.type === 'test') module.tests++;
+		if (node.type === 'test' || node.type === 'suite') continue;
+		module.symbols.push({
+			name: node.label,
+			type: node.type,
+			line: node.line,
+			...(node.exported ? { exported: true } : {}),
+		});
+		module.complexity += node.metrics?.complexity ?? 0;
+	}
+	for (const module of modules) module.symbols.sort((a, b) => (a.line ?? 0) - (b.line ?? 0));
+
+	const cycles = findImportCycles(graph);
+	cycles.forEach((cycle, i) => {
+		for (const path of cycle.files) {
+			const module = modules[indexByPath.get(path) ?? -1];
+			if (module) module.cycle = i;
+		}
+	});
+
+	const imports: ReportImport[] = [];
+	for (const edge of fileGraph(graph).edges) {
+		const source = indexById.get(edge.source);
+		const target = indexById.get(edge.target);
+		if (source === undefined || target === undefined) continue;
+		const from = modules[source] as ReportModule;
+		const to = modules[target] as ReportModule;
+		from.imports++;
+		to.importers++;
+		imports.push({
+			source,
+			target,
+			...(edge.typeOnly ? { typeOnly: true } : {}),
+			...(edge.dynamic ? { dynamic: true } : {}),
+			...(from.cycle !== undefined && from.cycle === to.cycle ? { cycle: true } : {}),
+		});
+	}
+
+	const hotspots = rankFunctions(functionMetrics(graph), { limit: options.hotspots ?? 20 }).map(
+		(row) => ({ name: row.name, path: displayPath(row.path), line: row.line, ...row.metrics }),
+	);
+
+	return {
+		title: options.title ?? 'Architecture',
+		generatedAt: (options.generatedAt ?? new Date()).toISOString(),
+		modules,
+		imports,
+		cycles: cycles.map((cycle) => ({
+			files: cycle.files.map(displayPath),
+			loop: cycle.loop.map(displayPath),
+		})),
+		hotspots,
+	};
+}
+
+/**
+ * The report as one HTML page with its styles, script and data inline: it
+ * opens from disk, offline, with nothing else to fetch
+ */
+export function renderHtmlReport(report: ArchitectureReport): string {
+	const symbolCount = report.modules.reduce((sum, module) => sum + module.symbols.length, 0);
+	const testCount = report.modules.reduce((sum, module) => sum + module.tests, 0);
+	const stats = [
+		[report.modules.length, 'files'],
+		[symbolCount, 'symbols'],
+		[report.imports.length, 'imports'],
+		[testCount, 'tests'],
+		[report.cycles.length, 'import cycles'],
+	]
+		.map(([count, label]) => `<li><strong>${count}</strong> ${label}</li>`)
+		.join('');
+
+	return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(report.title)}</title>
+<style>${REPORT_CSS}</style>
+</head>
+<body>
+<header>
+<h1>${escapeHtml(report.title)}</h1>
+<p class="muted">Generated ${escapeHtml(report.generatedAt.slice(0, 10))} from the code graph</p>
+<ul class="stats">${stats}</ul>
+</header>
+<main>
+<section id="map-section">
+<h2>Module map</h2>
+<p class="muted">Files as circles, sized by symbol count and colored by directory; arrows are imports,
+red ones close an import cycle. Drag to move, scroll to zoom, click a file for its details.</p>
+<div class="map-layout">
+<svg id="map" role="img" aria-label="Module map"></svg>
+<aside id="details"><p class="muted">Select a file on the map.</p></aside>
+</div>
+<input id="filter" type="search" placeholder="Filter files">
+<ul id="legend"></ul>
+</section>
+${renderCycles(report)}
+${renderHotspots(report)}
+${renderFiles(report)}
+</main>
+<script type="application/json" id="report-data">${scriptJson(report)}</script>
+<script>${REPORT_SCRIPT}</script>
+</body>
+</html>
+`;
+}
+
+function renderCycles(report: ArchitectureReport): string {
+	if (report.cycles.length === 0) {
+		return '<section id="cycles"><h2>Import cycles</h2><p>No import cycles.</p></section>';
+	}
+	const items = report.cycles.map(
+		(cycle, i) =>
+			`<li><button type="button" data-cycle="${i}">${cycle.files.length} files</button> ` +
+			`<code>${cycle.loop.map(escapeHtml).join(' → ')}</code></li>`,
+	);
+	return `<section id="cycles"><h2>Import cycles</h2><ol>${items.join('')}</ol></section>`;
+}
+
+function renderHotspots(report: ArchitectureReport): string {
+	if (report.hotspots.length === 0) return '';
+	const rows = report.hotspots.map(
+		(hotspot) =>
+			`<tr><td>${escapeHtml(hotspot.name)}</td>` +
+			`<td><a href="#file-${moduleIndex(report, hotspot.path)}">${escapeHtml(hotspot.path)}${hotspot.line ? `:${hotspot.line}` : ''}</a></td>` +
+			`<td>${hotspot.complexity}</td><td>${hotspot.nesting}</td><td>${hotspot.lines}</td>` +
+			`<td>${hotspot.fanIn}</td><td>${hotspot.fanOut}</td></tr>`,
+	);
+	return `<section id="hotspots"><h2>Hotspots</h2>
+<table><thead><tr><th>Function</th><th>Location</th><th>Complexity</th><th>Nesting</th><th>Lines</th><th>Fan-in</th><th>Fan-out</th></tr></thead>
+<tbody>${rows.join('')}</tbody></table></section>`;
+}
+
+function renderFiles(report: ArchitectureReport): string {
+	const files = report.modules.map((module, i) => {
+		const symbols = module.symbols.map(
+			(symbol) =>
+				`<li><span class="kind">${symbol.type}</span> ${escapeHtml(symbol.name)}` +
+				`${symbol.exported ? ' <span class="tag">exported</span>' : ''}` +
+				`${symbol.line ? ` <span class="muted">:${symbol.line}</span>` : ''}</li>`,
+		);
+		const facts = [
+			`${module.symbols.length} symbols`,
+			`imports ${module.imports}`,
+			`imported by ${module.importers}`,
+			...(module.tests > 0 ? [`${module.tests} tests`] : []),
+			...(module.cycle !== undefined ? ['<span class="tag warn">in a cycle</span>'] : []),
+		];
+		return (
+			`<details id="file-${i}" data-path="${escapeHtml(module.path)}">` +
+			`<summary><code>${escapeHtml(module.path)}</code> <span class="muted">${facts.join(' · ')}</span></summary>` +
+			`<ul class="symbols">${symbols.join('')}</ul></details>`
+		);
+	});
+	return `<section id="files"><h2>Files</h2>${files.join('\n')}</section>`;
+}
+
+function moduleIndex(report: ArchitectureReport, path: string): number {
+	return report.modules.findIndex((module) => module.path === path);
+}
+
+function escapeHtml(text: string): string {
+	return text
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;');
+}
+
+/** JSON that cannot end the script element it sits in */
+function scriptJson(value: unknown): string {
+	return JSON.stringify(value).replace(/</g, '\\u003c');
+}
+
+const REPORT_CSS = `
+:root { --fg: #1d2330; --muted: #667085; --bg: #ffffff; --panel: #f5f7fa; --line: #d0d5dd; --warn: #d92d20; --accent: #2f6fed; }
+@media (prefers-color-scheme: dark) {
+	:root { --fg: #e4e7ec; --muted: #98a2b3; --bg: #111418; --panel: #1b2028; --line: #344054; --warn: #f97066; --accent: #7aa2ff; }
+}
+* { box-sizing: border-box; }
+body { margin: 0; font: 14px/1.5 system-ui, -apple-system, "Segoe UI", sans-serif; color: var(--fg); background: var(--bg); }
+header, main { max-width: 1200px; margin: 0 auto; padding: 0 24px; }
+header { padding-top: 24px; }
+h1 { margin: 0 0 4px; }
+h2 { margin: 32px 0 8px; }
+.muted { color: var(--muted); }
+.stats { display: flex; flex-wrap: wrap; gap: 12px; padding: 0; list-style: none; }
+.stats li { background: var(--panel); border-radius: 6px; padding: 6px 12px; }
+.map-layout { display: flex; gap: 12px; }
+#map { flex: 1; height: 640px; background: var(--panel); border-radius: 8px; cursor: grab; touch-action: none; }
+#details { width: 300px; max-height: 640px; overflow: auto; background: var(--panel); border-radius: 8px; padding: 12px; }
+#details h3 { margin: 0 0 4px; font-size: 14px; word-break: break-all; }
+#filter { margin: 12px 0 4px; padding: 6px 8px; width: 300px; border: 1px solid var(--line); border-radius: 6px; background: var(--bg); color: var(--fg); }
+#legend { display: flex; flex-wrap: wrap; gap: 4px 16px; padding: 0; list-style: none; font-size: 12px; }
+#legend span { display: inline-block; width: 10px; height: 10px; border-radius: 50%; margin-right: 4px; }
+.link { stroke: var(--line); stroke-width: 1.2; }
+.link.soft { stroke-dasharray: 4 3; }
+.link.cycle { stroke: var(--warn); stroke-width: 2; }
+.node circle { stroke: var(--bg); stroke-width: 1.5; cursor: pointer; }
+.node text { font-size: 10px; fill: var(--fg); pointer-events: none; }
+.node.cycle circle { stroke: var(--warn); stroke-width: 2.5; }
+.node.selected circle { stroke: var(--accent); stroke-width: 3; }
+.dim { opacity: 0.12; }
+table { border-collapse: collapse; width: 100%; }
+th, td { text-align: left; padding: 4px 8px; border-bottom: 1px solid var(--line); }
+td:nth-child(n+3), th:nth-child(n+3) { text-align: right; }
+a { color: var(--accent); }
+details { border-bottom: 1px solid var(--line); padding: 4px 0; }
+details.hidden { display: none; }
+summary { cursor: pointer; }
+.symbols { margin: 4px 0 8px; padding-left: 20px; list-style: none; columns: 2 320px; }
+.kind { display: inline-block; min-width: 64px; color: var(--muted); font-size: 12px; }
+.tag { font-size: 11px; border: 1px solid var(--line); border-radius: 4px; padding: 0 4px; }
+.tag.warn { color: var(--warn); border-color: var(--warn); }
+button { font: inherit; cursor: pointer; border: 1px solid var(--line); border-radius: 4px; background: var(--panel); color: var(--fg); }
+`;
+
+/**
+ * Draws the module map: a force-directed layout simulated in the page, with
+ * dragging, panning, zooming, selection and filtering. Plain ES5 so any
+ * browser opens the file.
+ */
+const REPORT_SCRIPT = `
+(function () {
+	var data = JSON.parse(document.getElementById('report-data').textContent);
+	var NS = 'http://www.w3.org/2000/svg';
+	var svg = document.getElementById('map');
+	var details = document.getElementById('details');
+	var width = svg.clientWidth || 900;
+	var height = svg.clientHeight || 640;
+	var view = { x: 0, y: 0, k: 1 };
+	var viewport = document.createElementNS(NS, 'g');
+	svg.appendChild(viewport);
+
+	var defs = document.createElementNS(NS, 'defs');
+	defs.innerHTML = '<marker id="arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto"><path d="M0,0L10,5L0,10z" fill="#98a2b3"/></marker>';
+	svg.appendChild(defs);
+
+	function hue(text) {
+		var hash = 0;
+		for (var i = 0; i < text.length; i++) hash = (hash * 31 + text.charCodeAt(i)) | 0;
+		return Math.abs(hash) % 360;
+	}
+	function color(directory) { return 'hsl(' + hue(directory) + ', 60%, 55%)'; }
+	function baseName(path) { return path.slice(path.lastIndexOf('/') + 1); }
+
+	// Sunflower spiral: spread out, and the same layout every time
+	var nodes = data.modules.map(function (module, i) {
+		var angle = i * 2.39996;
+		var radius = 14 * Math.sqrt(i + 1);
+		return {
+			module: module,
+			index: i,
+			x: width / 2 + radius * Math.cos(angle),
+			y: height / 2 + radius * Math.sin(angle),
+			vx: 0,
+			vy: 0,
+			r: 4 + Math.sqrt(module.symbols.length) * 1.6,
+			pinned: false
+		};
+	});
+	var links = data.imports.map(function (edge) {
+		return { source: nodes[edge.source], target: nodes[edge.target], edge: edge };
+	});
+
+	links.forEach(function (link) {
+		var line = document.createElementNS(NS, 'line');
+		line.setAttribute('class', 'link' + (link.edge.cycle ? ' cycle' : '') + (link.edge.typeOnly || link.edge.dynamic ? ' soft' : ''));
+		line.setAttribute('marker-end', 'url(#arrow)');
+		viewport.appendChild(line);
+		link.element = line;
+	});
+	nodes.forEach(function (node) {
+		var group = document.createElementNS(NS, 'g');
+		group.setAttribute('class', 'node' + (node.module.cycle !== undefined ? ' cycle' : ''));
+		var circle = document.createElementNS(NS, 'circle');
+		circle.setAttribute('r', node.r);
+		circle.setAttribute('fill', color(node.module.directory));
+		var title = document.createElementNS(NS, 'title');
+		title.textContent = node.module.path;
+		circle.appendChild(title);
+		var label = document.createElementNS(NS, 'text');
+		label.setAttribute('dx', node.r + 2);
+		label.setAttribute('dy', 3);
+		label.textContent = baseName(node.module.path);
+		group.appendChild(circle);
+		group.appendChild(label);
+		viewport.appendChild(group);
+		node.element = group;
+		circle.addEventListener('pointerdown', function (event) { startDrag(event, node); });
+	});
+
+	var directories = {};
+	nodes.forEach(function (node) { directories[node.module.directory] = true; });
+	var legend = document.getElementById('legend');
+	Object.keys(directories).sort().forEach(function (directory) {
+		var item = document.createElement('li');
+		var swatch = document.createElement('span');
+		swatch.style.background = color(directory);
+		item.appendChild(swatch);
+		item.appendChild(document.createTextNode(directory));
+		legend.appendChild(item);
+	});
+
+	// Repulsion between all files, springs along imports, a pull toward the
+	// center and toward the middle of each file's directory
+	var alpha = 1;
+	function tick() {
+		var i, j, a, b, dx, dy, distance, force;
+		for (i = 0; i < nodes.length; i++) {
+			a = nodes[i];
+			for (j = i + 1; j < nodes.length; j++) {
+				b = nodes[j];
+				dx = b.x - a.x;
+				dy = b.y - a.y;
+				distance = dx * dx + dy * dy || 0.01;
+				force = (120 * alpha) / distance;
+				a.vx -= dx * force; a.vy -= dy * force;
+				b.vx += dx * force; b.vy += dy * force;
+			}
+		}
+		links.forEach(function (link) {
+			dx = link.target.x - link.source.x;
+			dy = link.target.y - link.source.y;
+			distance = Math.sqrt(dx * dx + dy * dy) || 0.01;
+			force = ((distance - 70) / distance) * 0.04 * alpha;
+			link.source.vx += dx * force; link.source.vy += dy * force;
+			link.target.vx -= dx * force; link.target.vy -= dy * force;
+		});
+		var centers = {};
+		nodes.forEach(function (node) {
+			var center = centers[node.module.directory] || (centers[node.module.directory] = { x: 0, y: 0, n: 0 });
+			center.x += node.x; center.y += node.y; center.n++;
+		});
+		nodes.forEach(function (node) {
+			var center = centers[node.module.directory];
+			node.vx += ((center.x / center.n - node.x) * 0.02 + (width / 2 - node.x) * 0.01) * alpha;
+			node.vy += ((center.y / center.n - node.y) * 0.02 + (height / 2 - node.y) * 0.01) * alpha;
+			if (node.pinned) { node.vx = 0; node.vy = 0; return; }
+			node.vx *= 0.6; node.vy *= 0.6;
+			node.x += node.vx; node.y += node.vy;
+		});
+	}
+
+	function draw() {
+		links.forEach(function (link) {
+			var dx = link.target.x - link.source.x;
+			var dy = link.target.y - link.source.y;
+			var distance = Math.sqrt(dx * dx + dy * dy) || 1;
+			var r = link.target.r + 2;
+			link.element.setAttribute('x1', link.source.x);
+			link.element.setAttribute('y1', link.source.y);
+			link.element.setAttribute('x2', link.target.x - (dx / distance) * r);
+			link.element.setAttribute('y2', link.target.y - (dy / distance) * r);
+		});
+		nodes.forEach(function (node) {
+			node.element.setAttribute('transform', 'translate(' + node.x + ',' + node.y + ')');
+		});
+		viewport.setAttribute('transform', 'translate(' + view.x + ',' + view.y + ') scale(' + view.k + ')');
+	}
+
+	// Keep every file in view until someone pans or zooms
+	var fitted = true;
+	function fit() {
+		var minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+		nodes.forEach(function (node) {
+			minX = Math.min(minX, node.x - node.r); maxX = Math.max(maxX, node.x + node.r);
+			minY = Math.min(minY, node.y - node.r); maxY = Math.max(maxY, node.y + node.r);
+		});
+		if (nodes.length === 0) return;
+		var k = Math.min(2, (width - 80) / (maxX - minX || 1), (height - 80) / (maxY - minY || 1));
+		view.k = k;
+		view.x = width / 2 - (k * (minX + maxX)) / 2;
+		view.y = height / 2 - (k * (minY + maxY)) / 2;
+	}
+
+	var running = false;
+	function run() {
+		if (running) return;
+		running = true;
+		(function frame() {
+			tick();
+			if (fitted) fit();
+			draw();
+			alpha *= 0.98;
+			if (alpha > 0.02) requestAnimationFrame(frame);
+			else running = false;
+		})();
+	}
+	function reheat(value) { alpha = Math.max(alpha, value); run(); }
+
+	function toWorld(event) {
+		var box = svg.getBoundingClientRect();
+		return { x: (event.clientX - box.left - view.x) / view.k, y: (event.clientY - box.top - view.y) / view.k };
+	}
+
+	var drag = null;
+	function startDrag(event, node) {
+		event.stopPropagation();
+		drag = { node: node, moved: false };
+		node.pinned = true;
+		svg.setPointerCapture(event.pointerId);
+	}
+	svg.addEventListener('pointerdown', function (event) {
+		drag = { pan: true, x: event.clientX - view.x, y: event.clientY - view.y, moved: false };
+		svg.setPointerCapture(event.pointerId);
+	});
+	svg.addEventListener('pointermove', function (event) {
+		if (!drag) return;
+		drag.moved = true;
+		fitted = false;
+		if (drag.pan) {
+			view.x = event.clientX - drag.x;
+			view.y = event.clientY - drag.y;
+			draw();
+			return;
+		}
+		var point = toWorld(event);
+		drag.node.x = point.x;
+		drag.node.y = point.y;
+		reheat(0.2);
+	});
+	svg.addEventListener('pointerup', function () {
+		if (drag && drag.node) {
+			drag.node.pinned = false;
+			if (!drag.moved) select(drag.node.index);
+		} else if (drag && !drag.moved) {
+			select(-1);
+		}
+		drag = null;
+	});
+	svg.addEventListener('wheel', function (event) {
+		event.preventDefault();
+		fitted = false;
+		var box = svg.getBoundingClientRect();
+		var px = event.clientX - box.left;
+		var py = event.clientY - box.top;
+		var k = Math.min(8, Math.max(0.1, view.k * (event.deltaY < 0 ? 1.15 : 1 / 1.15)));
+		view.x = px - ((px - view.x) / view.k) * k;
+		view.y = py - ((py - view.y) / view.k) * k;
+		view.k = k;
+		draw();
+	}, { passive: false });
+
+	function highlight(visible) {
+		nodes.forEach(function (node) {
+			node.element.classList.toggle('dim', visible !== null && !visible[node.index]);
+		});
+		links.forEach(function (link) {
+			link.element.classList.toggle('dim', visible !== null && !(visible[link.source.index] && visible[link.target.index]));
+		});
+	}
+
+	function escape(text) {
+		return String(text).replace(/[&<>"]/g, function (c) {
+			return { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' }[c];
+		});
+	}
+
+	function select(index) {
+		nodes.forEach(function (node) { node.element.classList.toggle('selected', node.index === index); });
+		if (index < 0) {
+			highlight(null);
+			details.innerHTML = '<p class="muted">Select a file on the map.</p>';
+			return;
+		}
+		var module = data.modules[index];
+		var visible = {};
+		visible[index] = true;
+		var imports = [];
+		var importers = [];
+		links.forEach(function (link) {
+			if (link.source.index === index) { visible[link.target.index] = true; imports.push(link.target.module.path); }
+			if (link.target.index === index) { visible[link.source.index] = true; importers.push(link.source.module.path); }
+		});
+		highlight(visible);
+		function list(title, items) {
+			if (items.length === 0) return '';
+			return '<h4>' + title + '</h4><ul>' + items.map(function (item) { return '<li>' + item + '</li>'; }).join('') + '</ul>';
+		}
+		details.innerHTML =
+			'<h3>' + escape(module.path) + '</h3>' +
+			'<p class="muted">' + module.symbols.length + ' symbols, complexity ' + module.complexity +
+			(module.cycle !== undefined ? ', <span class="tag warn">in a cycle</span>' : '') + '</p>' +
+			'<p><a href="#file-' + index + '">Show in the file list</a></p>' +
+			list('Symbols', module.symbols.map(function (symbol) {
+				return '<span class="kind">' + symbol.type + '</span> ' + escape(symbol.name);
+			})) +
+			list('Imports', imports.map(escape)) +
+			list('Imported by', importers.map(escape));
+		var entry = document.getElementById('file-' + index);
+		if (entry) entry.open = true;
+	}
+
+	Array.prototype.forEach.call(document.querySelectorAll('[data-cycle]'), function (button) {
+		button.addEventListener('click', function () {
+			var cycle = Number(button.getAttribute('data-cycle'));
+			var visible = {};
+			nodes.forEach(function (node) { if (node.module.cycle === cycle) visible[node.index] = true; });
+			highlight(visible);
+			document.getElementById('map-section').scrollIntoView({ behavior: 'smooth' });
+		});
+	});
+
+	document.getElementById('filter').addEventListener('input', function (event) {
+		var query = event.target.value.trim().toLowerCase();
+		var visible = query ? {} : null;
+		nodes.forEach(function (node) {
+			var match = !query || node.module.path.toLowerCase().indexOf(query) >= 0;
+			if (match && visible) visible[node.index] = true;
+			var entry = document.getElementById('file-' + node.index);
+			if (entry) entry.classList.toggle('hidden', !match);
+		});
+		highlight(visible);
+	});
+
+	run();
+})();
+`;
@@ -0,0 +1,374 @@
+import { resolve } from 'node:path';
+import type { CodeGraph, GraphEdgeType, GraphNode } from '../parser/graphBuilder.ts';
+import { distancesFrom, type GraphView, graphView } from '../parser/graphTraversal.ts';
+import { ExecutionError } from '../utils/errors.ts';
+
+/** 1-based, inclusive line span in the new version of a file */
+export type LineRange = { start: number; end: number };
+
+/** A file touched by a diff */
+export interface ChangedFile {
+	/** Path after the change; the old path when the file was deleted */
+	path: string;
+	/** Changed lines; empty when the whole file counts as changed (added, deleted, renamed, binary) */
+	ranges: LineRange[];
+	added?: boolean;
+	deleted?: boolean;
+}
+
+export type DiffSource = {
+	/**
+	 * Revision to compare the working tree with, from where the two branched
+	 * off, or an `a..b` range of commits; HEAD by default
+	 */
+	base?: string;
+	/** Directory to run git in; defaults to the working directory */
+	cwd?: string;
+};
+
+export type ImpactOptions = {
+	/** Hops to follow back from the changed code; unlimited by default */
+	maxDepth?: number;
+};
+
+/** A node affected by a change, `distance` hops from the nearest changed code */
+export interface ImpactedNode {
+	node: GraphNode;
+	distance: number;
+	/** 1 for changed code, halving with every hop away from it */
+	score: number;
+}
+
+export interface ImpactReport {
+	/**
+	 * Declarations whose lines changed; the file itself when it changed as a
+	 * whole or none of its declarations did
+	 */
+	changed: GraphNode[];
+	/** Changed symbols and the symbols that reach them, closest first */
+	symbols: ImpactedNode[];
+	files: ImpactedNode[];
+	/** Test cases and suites exercising affected code */
+	tests: ImpactedNode[];
+	/** Files holding affected tests, or importing affected files */
+	testFiles: string[];
+	/** Changed files with nothing in the graph: deleted, ignored or not code */
+	unmapped: string[];
+}
+
+/**
+ * Edges along which a change spreads, followed from target to source:
+ * callers, code reading it as a value, importers, subclasses, constructors and
+ * the tests of changed code
+ */
+const IMPACT_EDGES: GraphEdgeType[] = [
+	'calls',
+	'references',
+	'imports',
+	'extends',
+	'instantiates',
+	'tests',
+];
+
+const HUNK_HEADER = /^@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/;
+
+/**
+ * Files and changed line ranges from `git diff --unified=0 --no-prefix`
+ * output. A deletion counts as a change to the line it followed.
+ */
+export function parseDiff(diff: string): ChangedFile[] {
+	const files: ChangedFile[] = [];
+	let file: ChangedFile | undefined;
+	let inHunks = false;
+	for (const line of diff.split(/\r?\n/)) {
+		if (line.startsWith('diff --git ')) {
+			// Both halves name the same file unless it was renamed; `rename to` or `+++` says
+			const paths = line.slice('diff --git '.length);
+			const half = paths.slice(0, (paths.length - 1) / 2);
+			file = { path: paths === `${half} ${half}` ? unquote(half) : '', ranges: [] };
+			files.push(file);
+			inHunks = false;
+			continue;
+		}
+		if (!file) continue;
+
+		const hunk = HUNK_HEADER.exec(line);
+		if (hunk) {
+			inHunks = true;
+			const start = Math.max(Number(hunk[1]), 1);
+			const count = hunk[2] === undefined ? 1 : Number(hunk[2]);
+			file.ranges.push({ start, end: start + Math.max(count, 1) - 1 });
+			continue;
+		}
+		// Added and removed lines can look like headers
+		if (inHunks) continue;
+		if (line.startsWith('new file mode')) {
+			file.added = true;
+		} else if (line.startsWith('deleted file mode')) {
+			file.deleted = true;
+		} else if (line.startsWith('rename to ')) {
+			file.path = unquote(line.slice('rename to '.length));
+		} else if (line.startsWith('+++ ') && line !== '+++ /dev/null') {
+			file.path = unquote(line.slice(4));
+		} else if (line.startsWith('--- ') && line !== '--- /dev/null' && !file.path) {
+			file.path = unquote(line.slice(4));
+		}
+	}
+	return files
+		.filter((changed) => changed.path)
+		.map((changed) => (changed.added || changed.deleted ? { ...changed, ranges: [] } : changed));
+}
+
+/**
+ * Files changed between `base` and the working tree (untracked files
+ * included), or within a commit range, with absolute paths
+ */
+export async function gitDiff(source: DiffSource = {}): Promise<ChangedFile[]> {
+	const cwd = source.cwd ?? process.cwd();
+	const base = source.base ?? 'HEAD';
+	const range = base.includes('..');
+	const diff = await runGit(
+		[
+			'-c',
+			'core.quotePath=false',
+			'diff',
+			'--no-color',
+			'--no-ext-diff',
+			'--no-prefix',
+			'--unified=0',
+			'--relative',
+			...(range ? [base] : ['--merge-base', base]),
+		],
+		cwd,
+	);
+	const changed = parseDiff(diff);
+	if (!range) {
+		const untracked = await runGit(['ls-files', '--others', '--exclude-standard', '-z'], cwd);
+		for (const path of untracked.split('\0')) {
+			if (path) changed.push({ path, ranges: [], added: true });
+		}
+	}
+	return changed.map((file) => ({ ...file, path: resolve(cwd, file.path) }));
+}
+
+/**
+ * Map changed lines to the declarations around them, then follow callers,
+ * importers and tests back from them: everything that may behave differently
+ * because of the change. A change inside declarations reaches the files
+ * importing them; one outside every declaration reaches every importer.
+ */
+export function analyzeImpact(
+	graph: CodeGraph,
+	changes: ChangedFile[],
+	options: ImpactOptions = {},
+): ImpactReport {
+	const filesByPath = new Map<string, GraphNode>();
+	const declarationsByPath = new Map<string, GraphNode[]>();
+	for (const node of graph.nodes) {
+		if (!node.path) continue;
+		const key = resolve(node.path);
+		if (node.type === 'file') filesByPath.set(key, node);
+		else if (node.line !== undefined) {
+			const declarations = declarationsByPath.get(key);
+			if (declarations) declarations.push(node);
+			else declarationsByPath.set(key, [node]);
+		}
+	}
+
+	const view = graphView(graph);
+	const changed: GraphNode[] = [];
+	const seeds: string[] = [];
+	const importers = new Set<string>();
+	const unmapped: string[] = [];
+	for (const change of changes) {
+		const key = resolve(change.path);
+		const file = filesByPath.get(key);
+		if (!file) {
+			unmapped.push(change.path);
+			continue;
+		}
+		const declarations = declarationsByPath.get(key) ?? [];
+		const touched =
+			change.ranges.length === 0 ? declarations : innermostTouched(declarations, change.ranges);
+		// Only changes outside every declaration (or to the whole file) change the file itself
+		const wholeFile = change.ranges.length === 0 || touched.length === 0;
+		changed.push(...(wholeFile ? [file] : touched));
+		seeds.push(...(wholeFile ? [file.id] : []), ...touched.map((node) => node.id));
+		if (!wholeFile) {
+			for (const id of importersUsing(view, file.id, touched)) importers.add(id);
+		}
+	}
+
+	const traversal = { direction: 'backward' as const, edgeTypes: IMPACT_EDGES };
+	const maxDepth = options.maxDepth ?? Number.POSITIVE_INFINITY;
+	const distances = distancesFrom(view, seeds, { ...traversal, maxDepth });
+	// Calls into other files are only linked under --type-check: the files
+	// importing a changed declaration are one hop away even without them
+	if (maxDepth >= 1) {
+		for (const [id, distance] of distancesFrom(view, [...importers], {
+			...traversal,
+			maxDepth: maxDepth - 1,
+		})) {
+			if (distance + 1 < (distances.get(id) ?? Number.POSITIVE_INFINITY)) {
+				distances.set(id, distance + 1);
+			}
+		}
+	}
+	const symbols: ImpactedNode[] = [];
+	const tests: ImpactedNode[] = [];
+	const fileDistances = new Map<GraphNode, number>();
+	const reach = (file: GraphNode | undefined, distance: number) => {
+		if (file && distance < (fileDistances.get(file) ?? Number.POSITIVE_INFINITY)) {
+			fileDistances.set(file, distance);
+		}
+	};
+	for (const [id, distance] of distances) {
+		const node = view.nodes.get(id);
+		if (!node) continue;
+		if (node.type === 'file') {
+			reach(node, distance);
+			continue;
+		}
+		const hit = { node, distance, score: 0.5 ** distance };
+		if (node.type === 'test' || node.type === 'suite') tests.push(hit);
+		else symbols.push(hit);
+		reach(node.path ? filesByPath.get(resolve(node.path)) : undefined, distance);
+	}
+
+	const files = [...fileDistances].map(([node, distance]) => ({
+		node,
+		distance,
+		score: 0.5 ** distance,
+	}));
+	const testFiles = new Set<string>();
+	for (const { node } of tests) if (node.path) testFiles.add(node.path);
+	for (const { node } of files) if (node.test && node.path) testFiles.add(node.path);
+
+	return {
+		changed,
+		symbols: symbols.sort(closestFirst),
+		files: files.sort(closestFirst),
+		tests: tests.sort(closestFirst),
+		testFiles: [...testFiles].sort(),
+		unmapped,
+	};
+}
+
+/**
+ * Files importing `fileId` for one of the `declarations` (or a class holding
+ * one), the whole module, or its default export when that changed
+ */
+function importersUsing(view: GraphView, fileId: string, declarations: GraphNode[]): string[] {
+	const names = new Set(declarations.map((node) => node.label.split('.')[0]));
+	if (declarations.some((node) => node.defaultExport)) names.add('default');
+	return view.index
+		.incoming(fileId, ['imports'])
+		.filter(
+			(edge) =>
+				edge.source !== fileId &&
+				(!edge.names || edge.names.some((name) => name === '*' || names.has(name))),
+		)
+		.map((edge) => edge.source);
+}
+
+/**
+ * Impact of the changes since `source.base` (uncommitted changes by default)
+ */
+export async function diffImpact(
+	graph: CodeGraph,
+	source: DiffSource = {},
+	options: ImpactOptions = {},
+): Promise<ImpactReport> {
+	return analyzeImpact(graph, await gitDiff(source), options);
+}
+
+/**
+ * One paragraph on what a change touches, for the planner's project context;
+ * empty when nothing changed
+ */
+export function describeImpact(report: ImpactReport, limit = 5): string {
+	if (report.changed.length === 0) return '';
+	const name = (node: GraphNode) => (node.type === 'file' ? node.path : node.label);
+	const changed = report.changed.slice(0, limit).map(name);
+	const affected = report.symbols
+		.filter((hit) => hit.distance > 0)
+		.slice(0, limit)
+		.map((hit) => `${hit.node.label} (${hit.distance} hop${hit.distance === 1 ? '' : 's'})`);
+	let text = `Current changes touch ${changed.join(', ')}`;
+	if (report.changed.length > limit) text += ` and ${report.changed.length - limit} more`;
+	text += `; they affect ${report.files.length} file(s) and ${report.tests.length} test(s)`;
+	if (affected.length > 0) text += `. Most affected: ${affected.join(', ')}`;
+	return text;
+}
+
+/**
+ * Declarations overlapping any of `ranges`, leaving out those that only
+ * enclose another touched declaration: a changed method, not its class
+ */
+function innermostTouched(declarations: GraphNode[], ranges: LineRange[]): GraphNode[] {
+	const touched = new Set<GraphNode>();
+	for (const range of ranges) {
+		const overlapping = declarations.filter(
+			(node) => (node.line ?? 0) <= range.end && (node.endLine ?? node.line ?? 0) >= range.start,
+		);
+		for (const node of overlapping) {
+			if (!overlapping.some((other) => other !== node && encloses(node, other))) touched.add(node);
+		}
+	}
+	return [...touched];
+}
+
+function encloses(outer: GraphNode, inner: GraphNode): boolean {
+	const [outerStart, outerEnd] = [outer.line ?? 0, outer.endLine ?? outer.line ?? 0];
+	const [innerStart, innerEnd] = [inner.line ?? 0, inner.endLine ?? inner.line ?? 0];
+	return (
+		outerStart <= innerStart &&
+		outerEnd >= innerEnd &&
+		(outerStart < innerStart || outerEnd > innerEnd)
+	);
+}
+
+function closestFirst(a: ImpactedNode, b: ImpactedNode): number {
+	return (
+		a.distance - b.distance ||
+		(a.node.path ?? '').localeCompare(b.node.path ?? '') ||
+		(a.node.line ?? 0) - (b.node.line ?? 0)
+	);
+}
+
+/** Git's quoting of paths with special characters */
+function unquote(path: string): string {
+	if (!path.startsWith('"')) return path;
+	try {
+		return JSON.parse(path) as string;
+	} catch {
+		return path.slice(1, -1);
+	}
+}
+
+async function runGit(args: string[], cwd: string): Promise<string> {
+	const command = `git ${args.join(' ')}`;
+	const remediation = 'Run inside a git repository and check that the base revision exists';
+	let result: { stdout: string; stderr: string; exitCode: number };
+	try {
+		const child = Bun.spawn(['git', ...args], { cwd, stdout: 'pipe', stderr: 'pipe' });
+		const [stdout, stderr] = await Promise.all([
+			new Response(child.stdout).text(),
+			new Response(child.stderr).text(),
+		]);
+		result = { stdout, stderr, exitCode: await child.exited };
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		throw new ExecutionError(`Failed to run git: ${message}`, command, undefined, remediation);
+	}
+	const { stdout, stderr, exitCode } = result;
+	if (exitCode !== 0) {
+		throw new ExecutionError(
+			stderr.trim() || `git exited with code ${exitCode}`,
+			command,
+			exitCode,
+			remediation,
+		);
+	}
+	return stdout;
+}
@@ -0,0 +1,129 @@
+import type { CodeGraph, GraphEdge } from '../parser/graphBuilder.ts';
+import { stronglyConnectedComponents } from '../parser/graphTraversal.ts';
+
+export type ImportCycleOptions = {
+	/** Leave out type-only and dynamic imports, which do not run when a module loads */
+	runtimeOnly?: boolean;
+};
+
+/** Files that import one another, directly or around a loop */
+export interface ImportCycle {
+	/** Every file in the strongly connected component, sorted */
+	files: string[];
+	/** A shortest loop through the first file, ending where it starts */
+	loop: string[];
+	/** The import edges between the cycle's files */
+	imports: GraphEdge[];
+}
+
+/** Statements spanning more lines than this are cut short */
+const MAX_STATEMENT_LINES = 20;
+
+/**
+ * Import cycles between files, largest first. Edges that skip over a barrel
+ * are left out: the barrel's own imports already close any loop they are on.
+ */
+export function findImportCycles(
+	graph: CodeGraph,
+	options: ImportCycleOptions = {},
+): ImportCycle[] {
+	const edges = graph.edges.filter(
+		(edge) =>
+			edge.type === 'imports' &&
+			!edge.via &&
+			!(options.runtimeOnly && (edge.typeOnly || edge.dynamic)),
+	);
+	const targets = targetsBySource(edges);
+	const paths = new Map(graph.nodes.map((node) => [node.id, node.path ?? node.id]));
+	const pathOf = (id: string) => paths.get(id) ?? id.replace(/^file:/, '');
+
+	const components = stronglyConnectedComponents(targets.keys(), (id) => targets.get(id) ?? []);
+	const componentOf = new Map<string, number>();
+	components.forEach((component, i) => {
+		for (const id of component) componentOf.set(id, i);
+	});
+	const inside = components.map((): GraphEdge[] => []);
+	for (const edge of edges) {
+		const component = componentOf.get(edge.source);
+		if (component !== undefined && component === componentOf.get(edge.target)) {
+			inside[component]?.push(edge);
+		}
+	}
+
+	const cycles: ImportCycle[] = [];
+	components.forEach((component, i) => {
+		const imports = inside[i] ?? [];
+		// A lone file is only a cycle when it imports itself
+		if (imports.length === 0) return;
+		const [first] = [...component].sort((a, b) => pathOf(a).localeCompare(pathOf(b)));
+		if (!first) return;
+		cycles.push({
+			files: component.map(pathOf).sort(),
+			loop: shortestLoop(first, imports).map(pathOf),
+			imports: imports.sort(
+				(a, b) =>
+					pathOf(a.source).localeCompare(pathOf(b.source)) ||
+					pathOf(a.target).localeCompare(pathOf(b.target)),
+			),
+		});
+	});
+	return cycles.sort(
+		(a, b) => b.files.length - a.files.length || (a.files[0] ?? '').localeCompare(b.files[0] ?? ''),
+	);
+}
+
+/**
+ * The import statement starting on a 1-based line of `source`, on one line
+ * with its whitespace collapsed. Follows brackets and backslash continuations
+ * onto later lines.
+ */
+export function importStatementAt(source: string, line: number): string | undefined {
+	const lines = source.split(/\r?\n/);
+	const parts: string[] = [];
+	let depth = 0;
+	for (
+		let i = line - 1;
+		i >= 0 && i < Math.min(lines.length, line - 1 + MAX_STATEMENT_LINES);
+		i++
+	) {
+		const text = lines[i] ?? '';
+		parts.push(text.replace(/\\\s*$/, ''));
+		for (const char of text) {
+			if (char === '(' || char === '{' || char === '[') depth++;
+			else if (char === ')' || char === '}' || char === ']') depth--;
+		}
+		if (depth <= 0 && !text.trimEnd().endsWith('\\')) break;
+	}
+	const statement = parts.join(' ').replace(/\s+/g, ' ').trim();
+	return statement || undefined;
+}
+
+/** Breadth-first from `start` back to itself along `edges` */
+function shortestLoop(start: string, edges: GraphEdge[]): string[] {
+	const targets = targetsBySource(edges);
+	const reachedFrom = new Map<string, string>();
+	const queue = [start];
+	for (const id of queue) {
+		for (const to of targets.get(id) ?? []) {
+			if (to === start) {
+				const back: string[] = [];
+				for (let at = id; at !== start; at = reachedFrom.get(at) ?? start) back.push(at);
+				return [start, ...back.reverse(), start];
+			}
+			if (reachedFrom.has(to)) continue;
+			reachedFrom.set(to, id);
+			queue.push(to);
+		}
+	}
+	return [start];
+}
+
+function targetsBySource(edges: GraphEdge[]): Map<string, string[]> {
+	const targets = new Map<string, string[]>();
+	for (const edge of edges) {
+		const list = targets.get(edge.source);
+		if (list) list.push(edge.target);
+		else targets.set(edge.source, [edge.target]);
+	}
+	return targets;
+}
@@ -0,0 +1,108 @@
+import type { CodeGraph, FunctionMetrics } from '../parser/graphBuilder.ts';
+
+export type MetricName = keyof FunctionMetrics;
+
+/** CLI spelling of each metric */
+export const METRIC_NAMES: Record<string, MetricName> = {
+	complexity: 'complexity',
+	nesting: 'nesting',
+	lines: 'lines',
+	parameters: 'parameters',
+	'fan-in': 'fanIn',
+	'fan-out': 'fanOut',
+};
+
+/** The metric a CLI name stands for; names inherited from Object.prototype are not metrics */
+export function metricNamed(name: string): MetricName | undefined {
+	return Object.hasOwn(METRIC_NAMES, name) ? METRIC_NAMES[name] : undefined;
+}
+
+export type FunctionMetricsRow = {
+	id: string;
+	name: string;
+	kind: string;
+	path: string;
+	line?: number;
+	metrics: FunctionMetrics;
+	unreliable?: boolean;
+};
+
+export type MetricsQuery = {
+	/** Highest first; defaults to complexity */
+	sortBy?: MetricName;
+	/** Keep functions that reach at least one of these values */
+	thresholds?: Partial<Record<MetricName, number>>;
+	limit?: number;
+};
+
+/**
+ * Every function in the graph that has metrics, test cases aside
+ */
+export function functionMetrics(graph: CodeGraph): FunctionMetricsRow[] {
+	const rows: FunctionMetricsRow[] = [];
+	for (const node of graph.nodes) {
+		if (!node.metrics || node.type === 'test' || node.type === 'suite') continue;
+		rows.push({
+			id: node.id,
+			name: node.label,
+			kind: node.type,
+			path: node.path ?? '',
+			line: node.line,
+			metrics: node.metrics,
+			unreliable: node.unreliable,
+		});
+	}
+	return rows;
+}
+
+/**
+ * Filter by thresholds, sort by one metric (ties broken by complexity, then
+ * location) and cut to `limit`
+ */
+export function rankFunctions(
+	rows: FunctionMetricsRow[],
+	query: MetricsQuery = {},
+): FunctionMetricsRow[] {
+	const sortBy = query.sortBy ?? 'complexity';
+	const thresholds = Object.entries(query.thresholds ?? {}) as [MetricName, number][];
+	const matching = thresholds.length
+		? rows.filter((row) => thresholds.some(([name, min]) => row.metrics[name] >= min))
+		: rows;
+
+	const ranked = [...matching].sort(
+		(a, b) =>
+			b.metrics[sortBy] - a.metrics[sortBy] ||
+			b.metrics.complexity - a.metrics.complexity ||
+			a.path.localeCompare(b.path) ||
+			(a.line ?? 0) - (b.line ?? 0),
+	);
+	return query.limit === undefined ? ranked : ranked.slice(0, query.limit);
+}
+
+/**
+ * Parse `complexity=10` style thresholds. Returns null for an unknown metric
+ * or a value that is not a non-negative number.
+ */
+export function parseThreshold(text: string): [MetricName, number] | null {
+	const [name = '', value = ''] = text.split('=');
+	const metric = metricNamed(name.trim());
+	const min = Number(value);
+	if (!metric || value.trim() === '' || !Number.isFinite(min) || min < 0) return null;
+	return [metric, min];
+}
+
+/**
+ * One-line summary of the hardest functions to change, for planner prompts
+ */
+export function describeHotspots(graph: CodeGraph, limit = 5): string {
+	const top = rankFunctions(functionMetrics(graph), { limit }).filter(
+		(row) => row.metrics.complexity > 1,
+	);
+	if (top.length === 0) return '';
+	const items = top.map(
+		(row) =>
+			`${row.name} at ${row.path}:${row.line ?? 1} (complexity ${row.metrics.complexity}, ` +
+			`nesting ${row.metrics.nesting}, ${row.metrics.lines} lines, fan-in ${row.metrics.fanIn})`,
+	);
+	return `Most complex functions: ${items.join('; ')}`;
+}
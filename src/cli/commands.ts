@@ -1,79 +1,909 @@
-import { join } from 'node:path';
+import { basename, join, resolve } from 'node:path';
+import {
+	CONFIDENCE_LEVELS,
+	type Confidence,
+	type DeadCodeFinding,
+	type DeadCodeKind,
+	findDeadCode,
+	findEntryPoints,
+} from '../analysis/deadCode.ts';
+import {
+	type ExportFormat,
+	fileGraph,
+	focusSubgraph,
+	renderGraph,
+} from '../analysis/graphExport.ts';
+import {
+	displayPath,
+	formatNode,
+	type GraphQueryName,
+	matchNodes,
+	QUERY_TRAVERSALS,
+	renderTree,
+} from '../analysis/graphQuery.ts';
+import { buildArchitectureReport, renderHtmlReport } from '../analysis/htmlReport.ts';
+import {
+	describeImpact,
+	diffImpact,
+	type ImpactedNode,
+	type ImpactReport,
+} from '../analysis/impact.ts';
+import { findImportCycles, importStatementAt } from '../analysis/importCycles.ts';
+import {
+	describeHotspots,
+	functionMetrics,
+	type MetricName,
+	type MetricsQuery,
+	rankFunctions,
+} from '../analysis/metrics.ts';
 import { CommandExecutor } from '../execution/executor.ts';
 import { CheckpointManager } from '../memory/checkpoint.ts';
 import { indexProjectFiles } from '../parser/fileIndexer.ts';
-import { type ParsedSymbol, parseFileSymbols } from '../parser/tsParser.ts';
+import {
+	type CodeGraph,
+	GraphBuilder,
+	type GraphEdge,
+	type GraphNode,
+} from '../parser/graphBuilder.ts';
+import { type FileChange, IndexManifest } from '../parser/indexManifest.ts';
+import { parseFilesInParallel } from '../parser/parsePool.ts';
+import { formatLocation, type ParseDiagnostic, type ParsedSymbol } from '../parser/tsParser.ts';
+import { discoverWorkspace, type WorkspaceLayout } from '../parser/workspace.ts';
 import { TaskPlanner } from '../planning/planner.ts';
-import { LmStudioEmbedder, RandomEmbedder } from '../rag/embeddings.ts';
+import { type Embedder, LmStudioEmbedder, RandomEmbedder } from '../rag/embeddings.ts';
 import { type Document, RagEngine } from '../rag/ragEngine.ts';
-import { ensureDir, readJson, writeJson } from '../utils/fs.ts';
+import { InMemoryVectorStore } from '../rag/vectorStore.ts';
+import { formatError, ParsingError } from '../utils/errors.ts';
+import { ensureDir, exists, readFile, readJson, writeJson } from '../utils/fs.ts';
+import { watchProject } from './watch.ts';
 
-const DATA_DIR = join(process.cwd(), '.the-gap');
-const SYMBOLS_JSON = join(DATA_DIR, 'symbols.json');
+type IndexPaths = {
+	dir: string;
+	symbols: string;
+	diagnostics: string;
+	graph: string;
+	vectors: string;
+	ragMeta: string;
+};
 
-export async function cmdIndex(root = process.cwd()): Promise<void> {
-	await ensureDir(DATA_DIR);
-	const files = await indexProjectFiles(root);
-	const symbols: ParsedSymbol[] = [];
-	for (const f of files) {
-		try {
-			const file = Bun.file(f.path);
-			const text = await file.text();
-			symbols.push(...parseFileSymbols(f.path, text));
-		} catch (error) {
-			console.warn(`Failed to read file ${f.path}:`, error);
-		}
+/** The files the index of the project at `root` is kept in */
+function indexPaths(root: string): IndexPaths {
+	const dir = join(root, '.the-gap');
+	return {
+		dir,
+		symbols: join(dir, 'symbols.json'),
+		diagnostics: join(dir, 'diagnostics.json'),
+		graph: join(dir, 'graph.json'),
+		vectors: join(dir, 'vectors.json'),
+		ragMeta: join(dir, 'rag_meta.json'),
+	};
+}
+
+/** Which project's index a command reads */
+export type IndexedProjectOptions = {
+	/** The path given to `index [path]`; the working directory by default */
+	root?: string;
+};
+
+function projectRoot(options: IndexedProjectOptions): string {
+	return options.root ?? process.cwd();
+}
+
+type RagMeta = { count: number; dim: number; embedder?: string };
+
+/** Syntax errors per file, for files that have any */
+type DiagnosticsIndex = Record<string, ParseDiagnostic[]>;
+
+function symbolDocument(s: ParsedSymbol): Document {
+	// Signature and JSDoc give the embedder something beyond the bare name to match on
+	const lines = [`${s.kind} ${s.name} in ${s.filePath}`];
+	if (s.signature) lines.push(s.signature);
+	if (s.doc?.summary) lines.push(s.doc.summary);
+	for (const tag of s.doc?.tags ?? []) {
+		lines.push(tag.text ? `@${tag.name} ${tag.text}` : `@${tag.name}`);
 	}
-	await writeJson(SYMBOLS_JSON, symbols);
-	console.log(`Indexed ${files.length} files, found ${symbols.length} symbols.`);
+	if (s.decorators?.length) lines.push(`Decorators: ${s.decorators.map((d) => `@${d}`).join(' ')}`);
+
+	return {
+		id: `${s.filePath}:${s.kind}:${s.name}:${s.start}`,
+		text: lines.join('\n'),
+		metadata: s as unknown as Record<string, unknown>,
+	};
+}
 
+async function createEmbedder(): Promise<{ embedder: Embedder; name: string; dim: number }> {
 	// Try LM Studio embedder first, fall back to random if LM Studio unavailable
-	let embedder: LmStudioEmbedder | RandomEmbedder;
 	try {
 		console.log('Attempting to use LM Studio for embeddings...');
-		embedder = new LmStudioEmbedder();
-		await embedder.embed(['test']); // Test if LM Studio is available
+		const embedder = new LmStudioEmbedder();
+		const [probe] = await embedder.embed(['test']); // Test if LM Studio is available
 		console.log('✅ Using LM Studio embeddings');
+		return { embedder, name: 'lmstudio', dim: probe?.length ?? 0 };
 	} catch (error) {
 		console.log('⚠️ LM Studio not available, using random embeddings:', error);
-		embedder = new RandomEmbedder(256);
+		return { embedder: new RandomEmbedder(256), name: 'random', dim: 256 };
 	}
+}
 
-	const rag = new RagEngine(embedder);
-	const docs: Document[] = symbols.map((s, i) => ({
-		id: `${i}:${s.filePath}:${s.name}`,
-		text: `${s.kind} ${s.name} in ${s.filePath}`,
-		metadata: s as unknown as Record<string, unknown>,
-	}));
-	await rag.indexDocuments(docs);
-	// Save minimal snapshot (not persisting vectors in this MVP)
-	await writeJson(join(DATA_DIR, 'rag_meta.json'), { count: docs.length, dim: 256 });
+export type IndexCommandOptions = {
+	watch?: boolean;
+	debounceMs?: number;
+	/** Worker threads used for parsing */
+	concurrency?: number;
+	/** Resolve calls with the TypeScript type checker */
+	typeCheck?: boolean;
+};
+
+type IndexSession = {
+	root: string;
+	/** Where the index of `root` is written */
+	paths: IndexPaths;
+	workspace: WorkspaceLayout;
+	concurrency?: number;
+	typeCheck?: boolean;
+	embedder?: { embedder: Embedder; name: string; dim: number };
+	/** Kept across watch batches so the graph can be patched instead of rebuilt */
+	graph?: GraphBuilder;
+};
+
+type IndexPassSummary = {
+	files: number;
+	added: number;
+	modified: number;
+	removed: number;
+	unchanged: number;
+	symbolsAdded: number;
+	symbolsRemoved: number;
+	totalSymbols: number;
+	/** Every indexed file that currently has syntax errors */
+	diagnostics: DiagnosticsIndex;
+	durationMs: number;
+};
+
+export async function cmdIndex(
+	root = process.cwd(),
+	options: IndexCommandOptions = {},
+): Promise<void> {
+	const workspace = await discoverWorkspace(root);
+	if (workspace.packages.length > 1) {
+		console.log(`Workspace: ${workspace.packages.map((p) => p.name).join(', ')}`);
+	}
+	const session: IndexSession = {
+		root,
+		paths: indexPaths(root),
+		workspace,
+		concurrency: options.concurrency,
+		typeCheck: options.typeCheck,
+	};
+	const summary = await runIndexPass(session);
+	console.log(
+		`Indexed ${summary.files} files (${summary.added} added, ${summary.modified} modified, ` +
+			`${summary.removed} removed, ${summary.unchanged} unchanged), found ${summary.totalSymbols} symbols.`,
+	);
+	reportParseDiagnostics(summary.diagnostics);
+
+	if (!options.watch) return;
+
+	console.log(`\n👀 Watching ${root} for changes (Ctrl+C to stop)...`);
+	await new Promise<void>((resolve) => {
+		const stop = watchProject(
+			root,
+			async (paths) => {
+				const batch = await runIndexPass(session);
+				const changed = batch.added + batch.modified + batch.removed;
+				if (changed === 0) return;
+				const broken = Object.keys(batch.diagnostics).length;
+				console.log(
+					`🔄 ${changed} file(s) changed (${paths.length} event path(s)): ` +
+						`+${batch.symbolsAdded} / -${batch.symbolsRemoved} symbols, ` +
+						`${batch.totalSymbols} total, ${batch.durationMs.toFixed(0)}ms` +
+						(broken > 0 ? `, ${broken} file(s) with syntax errors` : ''),
+				);
+			},
+			{ debounceMs: options.debounceMs },
+		);
+		process.once('SIGINT', () => {
+			stop();
+			console.log('\nStopped watching.');
+			resolve();
+		});
+	});
+}
+
+/**
+ * Bring symbols.json, graph.json and the vector store up to date with the
+ * files on disk, touching only what the manifest reports as changed.
+ */
+async function runIndexPass(session: IndexSession): Promise<IndexPassSummary> {
+	const startedAt = performance.now();
+	const { paths } = session;
+	await ensureDir(paths.dir);
+	const files = await indexProjectFiles(session.root, { workspace: session.workspace });
+
+	const manifest = new IndexManifest(paths.dir);
+	await manifest.load();
+	// Without a symbols snapshot the manifest cannot be trusted
+	if (!(await exists(paths.symbols))) manifest.clear();
+	// An empty manifest (first run, or one written by another parser version) means a full rebuild
+	const rebuild = manifest.size === 0;
+	const previousSymbols = rebuild ? [] : await readJson<ParsedSymbol[]>(paths.symbols, []);
+	const previousDiagnostics = rebuild
+		? {}
+		: await readJson<DiagnosticsIndex>(paths.diagnostics, {});
+	const changes = await manifest.diff(files);
+
+	const touched = new Set([...changes.modified.map((c) => c.file.path), ...changes.removed]);
+	const staleSymbols = previousSymbols.filter((s) => touched.has(s.filePath));
+	const freshSymbols: ParsedSymbol[] = [];
+	const freshDiagnostics: DiagnosticsIndex = {};
+	const toParse = [...changes.added, ...changes.modified];
+	const outcomes = await parseFilesInParallel(
+		toParse.map((c) => ({ filePath: c.file.path, content: c.content })),
+		{ concurrency: session.concurrency, onProgress: progressReporter('Parsing files') },
+	);
+	outcomes.forEach((outcome, i) => {
+		if (outcome.result) {
+			freshSymbols.push(...outcome.result.symbols);
+			if (outcome.result.diagnostics.length > 0) {
+				freshDiagnostics[outcome.filePath] = outcome.result.diagnostics;
+			}
+			manifest.record(toParse[i] as FileChange);
+		} else {
+			// Leave the file out of the manifest so the next pass retries it
+			console.warn(`Failed to parse file ${outcome.filePath}:`, outcome.error);
+		}
+	});
+	for (const path of changes.removed) manifest.remove(path);
+
+	const symbols = previousSymbols
+		.filter((s) => !touched.has(s.filePath))
+		.concat(freshSymbols)
+		.sort((a, b) => (a.filePath < b.filePath ? -1 : a.filePath > b.filePath ? 1 : 0));
+
+	const diagnostics: DiagnosticsIndex = Object.fromEntries(
+		Object.entries(previousDiagnostics)
+			.filter(([path]) => !touched.has(path))
+			.concat(Object.entries(freshDiagnostics))
+			.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)),
+	);
+
+	const changedCount = changes.added.length + changes.modified.length + changes.removed.length;
+	await writeJson(paths.symbols, symbols);
+	await writeJson(paths.diagnostics, diagnostics);
+	await manifest.save();
+
+	if (changedCount > 0 || !(await exists(paths.graph))) {
+		const graphOptions = {
+			concurrency: session.concurrency,
+			onProgress: progressReporter('Building graph'),
+			typeCheck: session.typeCheck,
+		};
+		session.graph ??= new GraphBuilder(paths.dir);
+		const graph =
+			rebuild || !(await exists(paths.graph))
+				? await session.graph.buildCompleteGraph(session.root, graphOptions)
+				: await session.graph.updateFiles(
+						toParse.map((c) => c.file.path),
+						changes.removed,
+						session.root,
+						graphOptions,
+					);
+		console.log(`Graph: ${graph.nodes.length} nodes, ${graph.edges.length} edges.`);
+	}
+
+	const store = new InMemoryVectorStore(paths.vectors);
+	await store.load();
+	const meta = await readJson<RagMeta | null>(paths.ragMeta, null);
+
+	if (changedCount > 0 || !meta || store.size === 0) {
+		session.embedder ??= await createEmbedder();
+		const { embedder, name, dim } = session.embedder;
+		const rag = new RagEngine(embedder, store);
+
+		if (rebuild || meta?.embedder !== name) {
+			// Vectors from a different embedder are not comparable: re-embed everything
+			store.clear();
+			await rag.indexDocuments(symbols.map(symbolDocument));
+		} else {
+			await rag.removeDocuments(staleSymbols.map((s) => symbolDocument(s).id));
+			await rag.indexDocuments(freshSymbols.map(symbolDocument));
+		}
+
+		await store.save();
+		await writeJson(paths.ragMeta, { count: store.size, dim, embedder: name } satisfies RagMeta);
+	}
+
+	const staleKeys = new Set(staleSymbols.map(symbolKey));
+	const freshKeys = new Set(freshSymbols.map(symbolKey));
+	return {
+		files: files.length,
+		added: changes.added.length,
+		modified: changes.modified.length,
+		removed: changes.removed.length,
+		unchanged: changes.unchanged.length,
+		symbolsAdded: [...freshKeys].filter((k) => !staleKeys.has(k)).length,
+		symbolsRemoved: [...staleKeys].filter((k) => !freshKeys.has(k)).length,
+		totalSymbols: symbols.length,
+		diagnostics,
+		durationMs: performance.now() - startedAt,
+	};
+}
+
+/**
+ * Warn about files with syntax errors: the agent should not trust what it
+ * knows about them until they are fixed
+ */
+function reportParseDiagnostics(diagnostics: DiagnosticsIndex): void {
+	const files = Object.entries(diagnostics);
+	if (files.length === 0) return;
+
+	console.warn(`\n⚠️ ${files.length} file(s) have syntax errors:`);
+	for (const [filePath, list] of files) {
+		const [first, ...rest] = list as [ParseDiagnostic, ...ParseDiagnostic[]];
+		const more = rest.length > 0 ? ` (+${rest.length} more)` : '';
+		const error = new ParsingError(
+			`Line ${first.line}:${first.column}: ${first.message}${more}`,
+			filePath,
+		);
+		console.warn(formatError(error));
+	}
+	console.warn(
+		'💡 Symbols and graph nodes from these files are partial and marked unreliable; fix the errors and re-run index.',
+	);
+}
+
+/**
+ * Progress callback that redraws a single line on interactive terminals
+ */
+function progressReporter(label: string): (done: number, total: number) => void {
+	return (done, total) => {
+		if (!process.stdout.isTTY) return;
+		process.stdout.write(`\r${label}: ${done}/${total}`);
+		if (done === total) process.stdout.write('\n');
+	};
+}
+
+function symbolKey(s: ParsedSymbol): string {
+	return `${s.filePath}:${s.kind}:${s.name}`;
 }
 
-export async function cmdSearch(query: string, k = 10): Promise<void> {
-	const symbols = await readJson<ParsedSymbol[]>(SYMBOLS_JSON, []);
+export type SearchCommandOptions = IndexedProjectOptions & {
+	/** Matches to print (default: 10) */
+	limit?: number;
+};
+
+export async function cmdSearch(query: string, options: SearchCommandOptions = {}): Promise<void> {
+	const symbols = await readJson<ParsedSymbol[]>(indexPaths(projectRoot(options)).symbols, []);
 	if (!symbols.length) {
 		console.error('No symbols indexed. Run: bun run src/cli/index.ts index');
 		return;
 	}
-	// Simple keyword match on name + path
+	// Simple keyword match on name, path and doc summary
 	const lowered = query.toLowerCase();
 	const matches = symbols
 		.filter(
-			(s) => s.name.toLowerCase().includes(lowered) || s.filePath.toLowerCase().includes(lowered),
+			(s) =>
+				s.name.toLowerCase().includes(lowered) ||
+				s.filePath.toLowerCase().includes(lowered) ||
+				(s.doc?.summary.toLowerCase().includes(lowered) ?? false),
 		)
-		.slice(0, k);
+		.slice(0, options.limit ?? 10);
 	for (const m of matches) {
-		console.log(`${m.kind} ${m.name} — ${m.filePath}`);
+		console.log(`${m.kind} ${m.name} — ${formatLocation(m)}`);
+		if (m.signature) console.log(`    ${m.signature}`);
+		if (m.doc?.summary) console.log(`    ${m.doc.summary}`);
 	}
 	if (matches.length === 0) console.log('No matches.');
 }
 
-export async function cmdInspect(taskDescription: string): Promise<void> {
+export type MetricsCommandOptions = MetricsQuery & IndexedProjectOptions & { json?: boolean };
+
+const METRIC_COLUMNS: [string, MetricName][] = [
+	['complexity', 'complexity'],
+	['nesting', 'nesting'],
+	['lines', 'lines'],
+	['params', 'parameters'],
+	['fan-in', 'fanIn'],
+	['fan-out', 'fanOut'],
+];
+
+export async function cmdMetrics(options: MetricsCommandOptions = {}): Promise<void> {
+	const graph = await readJson<CodeGraph | null>(indexPaths(projectRoot(options)).graph, null);
+	if (!graph) {
+		console.error('Project not indexed. Run: bun run src/cli/index.ts index');
+		return;
+	}
+
+	const rows = rankFunctions(functionMetrics(graph), { ...options, limit: options.limit ?? 20 });
+	if (options.json) {
+		console.log(JSON.stringify(rows, null, 2));
+		return;
+	}
+	if (rows.length === 0) {
+		console.log('No functions match.');
+		return;
+	}
+
+	console.log(`${METRIC_COLUMNS.map(([label]) => label).join('  ')}  function`);
+	for (const row of rows) {
+		const values = METRIC_COLUMNS.map(([label, name]) =>
+			String(row.metrics[name]).padStart(label.length),
+		);
+		const warning = row.unreliable ? ' ⚠️ syntax errors' : '';
+		console.log(
+			`${values.join('  ')}  ${row.name} — ${displayPath(row.path)}:${row.line ?? 1}${warning}`,
+		);
+	}
+}
+
+export type GraphCommandOptions = IndexedProjectOptions & {
+	/** Hops to follow; each query has its own default */
+	depth?: number;
+	json?: boolean;
+};
+
+/**
+ * Answer a graph query about one symbol or file (two for `path`) and print
+ * the result as a tree, or as JSON for scripts
+ */
+export async function cmdGraph(
+	query: GraphQueryName,
+	targets: string[],
+	options: GraphCommandOptions = {},
+): Promise<void> {
+	const builder = new GraphBuilder(indexPaths(projectRoot(options)).dir);
+	const graph = await builder.loadGraph();
+	if (!graph) {
+		console.error('Project not indexed. Run: bun run src/cli/index.ts index');
+		process.exitCode = 1;
+		return;
+	}
+
+	const nodes: GraphNode[] = [];
+	for (const target of targets) {
+		const node = pickNode(graph, target);
+		if (!node) {
+			process.exitCode = 1;
+			return;
+		}
+		nodes.push(node);
+	}
+	const [from, to] = nodes as [GraphNode, GraphNode | undefined];
+
+	if (query === 'path') {
+		if (!to) return;
+		// Code is often linked without a directed path (two callers of one function)
+		let directed = true;
+		let found = builder.findPath(from.id, to.id, { maxDepth: options.depth });
+		if (!found) {
+			directed = false;
+			found = builder.findPath(from.id, to.id, { maxDepth: options.depth, direction: 'both' });
+		}
+		if (options.json) {
+			console.log(
+				JSON.stringify({ query, from, to, directed, path: found?.path ?? null }, null, 2),
+			);
+			return;
+		}
+		if (!found) {
+			console.log(`No path from ${formatNode(from)} to ${formatNode(to)}.`);
+			return;
+		}
+		const byId = new Map(graph.nodes.map((node) => [node.id, node]));
+		if (!directed) console.log('(no directed path; following edges in either direction)');
+		console.log(formatNode(from));
+		for (const step of found.path) {
+			const node = byId.get(step.to);
+			const arrow = step.reversed ? `<-[${step.type}]-` : `-[${step.type}]->`;
+			console.log(`  ${arrow} ${node ? formatNode(node) : step.to}`);
+		}
+		return;
+	}
+
+	const traversal = QUERY_TRAVERSALS[query];
+	const fileNode = graph.nodes.find((node) => node.id === `file:${from.path}`);
+	const start = traversal.fileLevel && fileNode ? fileNode : from;
+	const hits = builder.traverse(start.id, {
+		direction: traversal.direction,
+		edgeTypes: traversal.edgeTypes,
+		maxDepth: options.depth ?? traversal.defaultDepth,
+	});
+
+	if (options.json) {
+		const results = hits.map((hit) => ({ ...hit.node, depth: hit.depth, path: hit.path }));
+		console.log(JSON.stringify({ query, target: start, results }, null, 2));
+		return;
+	}
+	if (hits.length === 0) {
+		console.log(`No ${query} found for ${formatNode(start)}.`);
+		if (traversal.edgeTypes.includes('calls')) {
+			console.log('💡 Calls across files are only linked when indexing with --type-check');
+		}
+		return;
+	}
+	const lines = renderTree(start, hits, { edgeTypes: traversal.edgeTypes.length > 1 });
+	for (const line of lines) console.log(line);
+}
+
+export type GraphCyclesOptions = IndexedProjectOptions & {
+	/** Leave out type-only and dynamic imports */
+	runtime?: boolean;
+	/** Exit non-zero when there is any cycle, for CI */
+	fail?: boolean;
+	json?: boolean;
+};
+
+/**
+ * Report import cycles with the import statements that close them
+ */
+export async function cmdGraphCycles(options: GraphCyclesOptions = {}): Promise<void> {
+	const root = projectRoot(options);
+	const graph = await new GraphBuilder(indexPaths(root).dir).loadGraph();
+	if (!graph) {
+		console.error('Project not indexed. Run: bun run src/cli/index.ts index');
+		process.exitCode = 1;
+		return;
+	}
+
+	const cycles = findImportCycles(graph, { runtimeOnly: options.runtime });
+	if (options.fail && cycles.length > 0) process.exitCode = 1;
+
+	const paths = new Map(graph.nodes.map((node) => [node.id, node.path ?? node.id]));
+	const sources = new Map<string, string | null>();
+	const statements = async (edge: GraphEdge) => {
+		const file = paths.get(edge.source) ?? edge.source;
+		if (!sources.has(file))
+			sources.set(file, await readFile(resolve(root, file)).catch(() => null));
+		const source = sources.get(file);
+		return (edge.lines ?? []).map((line) => ({
+			file,
+			line,
+			target: paths.get(edge.target) ?? edge.target,
+			statement: source ? importStatementAt(source, line) : undefined,
+		}));
+	};
+
+	if (options.json) {
+		const results = [];
+		for (const cycle of cycles) {
+			const involved = [];
+			for (const edge of cycle.imports) involved.push(...(await statements(edge)));
+			results.push({ files: cycle.files, loop: cycle.loop, statements: involved });
+		}
+		console.log(
+			JSON.stringify({ runtimeOnly: options.runtime === true, cycles: results }, null, 2),
+		);
+		return;
+	}
+	if (cycles.length === 0) {
+		console.log(`✅ No import cycles${options.runtime ? ' between runtime imports' : ''}`);
+		return;
+	}
+
+	console.log(
+		`Found ${cycles.length} import cycle${cycles.length === 1 ? '' : 's'}${options.runtime ? ' between runtime imports' : ''}\n`,
+	);
+	for (const [i, cycle] of cycles.entries()) {
+		console.log(
+			`Cycle ${i + 1} (${cycle.files.length} file${cycle.files.length === 1 ? '' : 's'})`,
+		);
+		console.log(`  ${cycle.loop.map(displayPath).join(' → ')}`);
+		for (const edge of cycle.imports) {
+			const involved = await statements(edge);
+			if (involved.length === 0) {
+				const from = displayPath(paths.get(edge.source) ?? edge.source);
+				console.log(`    ${from} imports ${displayPath(paths.get(edge.target) ?? edge.target)}`);
+			}
+			for (const { file, line, target, statement } of involved) {
+				console.log(
+					`    ${displayPath(file)}:${line}  ${statement ?? `imports ${displayPath(target)}`}`,
+				);
+			}
+		}
+		console.log('');
+	}
+	if (!options.fail) console.log('💡 Pass --fail to exit with an error when cycles are found');
+}
+
+export type GraphExportOptions = IndexedProjectOptions & {
+	format: ExportFormat;
+	/** Symbol or file to export the neighborhood of; the whole graph by default */
+	focus?: string;
+	/** Hops around the focus (default: 1) */
+	depth?: number;
+	/** `file` draws the module map; defaults to `symbol` with a focus and `file` without */
+	level?: 'file' | 'symbol';
+	/** Group nodes by directory (default: on) */
+	cluster?: boolean;
+	/** File to write to; stdout by default */
+	output?: string;
+};
+
+/** Mermaid's default limit; larger diagrams fail to render */
+const MERMAID_MAX_EDGES = 500;
+
+/**
+ * Write the graph, or the part around one symbol or file, as DOT, Mermaid
+ * or GraphML
+ */
+export async function cmdGraphExport(options: GraphExportOptions): Promise<void> {
+	const root = projectRoot(options);
+	const graph = await new GraphBuilder(indexPaths(root).dir).loadGraph();
+	if (!graph) {
+		console.error('Project not indexed. Run: bun run src/cli/index.ts index');
+		process.exitCode = 1;
+		return;
+	}
+
+	const level = options.level ?? (options.focus ? 'symbol' : 'file');
+	let focus: GraphNode | undefined;
+	if (options.focus) {
+		focus = pickNode(graph, options.focus);
+		if (!focus) {
+			process.exitCode = 1;
+			return;
+		}
+		if (level === 'file' && focus.type !== 'file') {
+			focus = graph.nodes.find((node) => node.id === `file:${focus?.path}`) ?? focus;
+		}
+	}
+	const base = level === 'file' ? fileGraph(graph) : graph;
+	const subgraph = focus ? focusSubgraph(base, [focus.id], options.depth ?? 1) : base;
+	const text = renderGraph(subgraph, options.format, {
+		cluster: options.cluster,
+		highlight: focus ? [focus.id] : [],
+	});
+
+	if (options.format === 'mermaid' && subgraph.edges.length > MERMAID_MAX_EDGES) {
+		console.error(
+			`💡 ${subgraph.edges.length} edges is more than Mermaid renders by default; narrow it with --focus`,
+		);
+	}
+	if (!options.output) {
+		process.stdout.write(text);
+		return;
+	}
+	await Bun.write(options.output, text);
+	console.log(
+		`✅ Wrote ${subgraph.nodes.length} nodes and ${subgraph.edges.length} edges to ${options.output}`,
+	);
+}
+
+export type ImpactCommandOptions = IndexedProjectOptions & {
+	/** Revision or `a..b` range to diff against; uncommitted changes by default */
+	base?: string;
+	/** Hops to follow back from the changed code */
+	depth?: number;
+	json?: boolean;
+};
+
+/** Rows printed per section of the impact report */
+const IMPACT_ROWS = 20;
+
+/**
+ * Show what a git diff affects: the changed declarations, then the symbols,
+ * files and tests that reach them through calls and imports
+ */
+export async function cmdImpact(options: ImpactCommandOptions = {}): Promise<void> {
+	const root = projectRoot(options);
+	const graph = await new GraphBuilder(indexPaths(root).dir).loadGraph();
+	if (!graph) {
+		console.error('Project not indexed. Run: bun run src/cli/index.ts index');
+		process.exitCode = 1;
+		return;
+	}
+
+	let report: ImpactReport;
+	try {
+		report = await diffImpact(
+			graph,
+			{ base: options.base, cwd: root },
+			{ maxDepth: options.depth },
+		);
+	} catch (error) {
+		console.error(formatError(error));
+		process.exitCode = 1;
+		return;
+	}
+
+	if (options.json) {
+		const hits = (list: ImpactedNode[]) =>
+			list.map(({ node, distance, score }) => ({ ...node, distance, score }));
+		console.log(
+			JSON.stringify(
+				{
+					base: options.base ?? 'HEAD',
+					changed: report.changed,
+					symbols: hits(report.symbols),
+					files: hits(report.files),
+					tests: hits(report.tests),
+					testFiles: report.testFiles,
+					unmapped: report.unmapped,
+				},
+				null,
+				2,
+			),
+		);
+		return;
+	}
+
+	const against = options.base ? ` against ${options.base}` : ' in the working tree';
+	if (report.changed.length === 0 && report.unmapped.length === 0) {
+		console.log(`No changes${against}.`);
+		return;
+	}
+	console.log(`🔎 Impact of changes${against}\n`);
+
+	const section = (title: string, rows: string[]) => {
+		if (rows.length === 0) return;
+		console.log(`${title} (${rows.length}):`);
+		for (const row of rows.slice(0, IMPACT_ROWS)) console.log(`  ${row}`);
+		if (rows.length > IMPACT_ROWS) {
+			console.log(`  ...and ${rows.length - IMPACT_ROWS} more (--json lists everything)`);
+		}
+		console.log('');
+	};
+	const hit = ({ node, distance, score }: ImpactedNode) =>
+		`${distance}  ${formatNode(node)}  (score ${score.toFixed(2)})`;
+
+	section('Changed', report.changed.map(formatNode));
+	section('Affected symbols', report.symbols.filter((row) => row.distance > 0).map(hit));
+	section(
+		'Affected files',
+		report.files.map(({ node, distance }) => `${distance}  ${formatNode(node)}`),
+	);
+	section('Tests', report.tests.map(hit));
+	section('Test files', report.testFiles.map(displayPath));
+	section('Not in the graph', report.unmapped.map(displayPath));
+	console.log(
+		'💡 Numbers are hops from the changed code; re-run index if the graph is older than the diff',
+	);
+}
+
+export type UnusedCommandOptions = IndexedProjectOptions & {
+	/** Extra entry points, as .gitignore-style patterns */
+	entries?: string[];
+	/** Only take entry points from `entries` */
+	noDefaultEntries?: boolean;
+	/** Leave out findings less certain than this */
+	minConfidence?: Confidence;
+	json?: boolean;
+};
+
+const DEAD_CODE_TITLES: Record<DeadCodeKind, string> = {
+	'unused-export': 'Unused exports',
+	'uncalled-function': 'Functions never called',
+	'unimported-file': 'Files nothing imports',
+};
+
+/**
+ * Report exports nothing imports, private functions nothing calls and files
+ * nothing imports, grouped by kind with how sure each finding is
+ */
+export async function cmdUnused(options: UnusedCommandOptions = {}): Promise<void> {
+	const root = projectRoot(options);
+	const graph = await new GraphBuilder(indexPaths(root).dir).loadGraph();
+	if (!graph) {
+		console.error('Project not indexed. Run: bun run src/cli/index.ts index');
+		process.exitCode = 1;
+		return;
+	}
+
+	const defaults = !options.noDefaultEntries;
+	const entryPoints = await findEntryPoints(graph, root, {
+		patterns: options.entries,
+		packageJson: defaults,
+		tests: defaults,
+		indexFiles: defaults,
+	});
+	const cutoff = CONFIDENCE_LEVELS.indexOf(options.minConfidence ?? 'low');
+	const findings = findDeadCode(graph, entryPoints).filter(
+		(finding) => CONFIDENCE_LEVELS.indexOf(finding.confidence) <= cutoff,
+	);
+
+	if (options.json) {
+		console.log(
+			JSON.stringify(
+				{
+					entryPoints: [...entryPoints].sort(),
+					findings,
+				},
+				null,
+				2,
+			),
+		);
+		return;
+	}
+
+	if (findings.length === 0) {
+		console.log(`No unused code found (${entryPoints.size} entry point files).`);
+		return;
+	}
+	console.log(`🧹 Possibly unused code (${entryPoints.size} entry point files)\n`);
+	const groups = new Map<DeadCodeKind, DeadCodeFinding[]>();
+	for (const finding of findings) {
+		groups.set(finding.kind, [...(groups.get(finding.kind) ?? []), finding]);
+	}
+	for (const [kind, group] of groups) {
+		console.log(`${DEAD_CODE_TITLES[kind]} (${group.length}):`);
+		for (const { node, confidence, reason } of group) {
+			console.log(`  ${confidence.padEnd(6)}  ${formatNode(node)}`);
+			console.log(`          ${reason}`);
+		}
+		console.log('');
+	}
+	const counts = CONFIDENCE_LEVELS.map(
+		(level) => `${findings.filter((finding) => finding.confidence === level).length} ${level}`,
+	);
+	console.log(`Confidence: ${counts.join(', ')}`);
+	console.log(
+		'💡 Code loaded by name or from outside the project looks unused: add it with --entry <pattern>',
+	);
+}
+
+export type ReportCommandOptions = IndexedProjectOptions & {
+	/** Where to write the page; `.the-gap/report.html` by default */
+	output?: string;
+	/** Page heading; the project directory's name by default */
+	title?: string;
+};
+
+/**
+ * Write the architecture report: one HTML file with the module map, symbols
+ * per file, import cycles and hotspots, readable offline
+ */
+export async function cmdReport(options: ReportCommandOptions = {}): Promise<void> {
+	const root = projectRoot(options);
+	const graph = await new GraphBuilder(indexPaths(root).dir).loadGraph();
+	if (!graph) {
+		console.error('Project not indexed. Run: bun run src/cli/index.ts index');
+		process.exitCode = 1;
+		return;
+	}
+
+	const report = buildArchitectureReport(graph, {
+		title: options.title ?? `${basename(root)} architecture`,
+	});
+	const output = options.output ?? join(indexPaths(root).dir, 'report.html');
+	await Bun.write(output, renderHtmlReport(report));
+	console.log(
+		`✅ Wrote ${displayPath(output)}: ${report.modules.length} files, ` +
+			`${report.cycles.length} import cycles, ${report.hotspots.length} hotspots`,
+	);
+	console.log('💡 Open it in a browser; it needs no server or network');
+}
+
+/**
+ * The node a command-line target refers to. Reports no match, or several
+ * equally good ones, and returns undefined.
+ */
+function pickNode(graph: CodeGraph, target: string): GraphNode | undefined {
+	const matches = matchNodes(graph.nodes, target);
+	const [best] = matches;
+	if (!best) {
+		console.error(`❌ Nothing in the graph matches '${target}'`);
+		return undefined;
+	}
+	const tied = matches.filter((match) => match.score === best.score);
+	if (tied.length === 1) return best.node;
+
+	console.error(`❌ '${target}' matches ${tied.length} nodes:`);
+	for (const match of tied.slice(0, 10)) console.error(`  ${match.node.id}`);
+	if (tied.length > 10) console.error(`  ...and ${tied.length - 10} more`);
+	console.error('💡 Pass a node id, or qualify the name with its file: src/file.ts:name');
+	return undefined;
+}
+
+export async function cmdInspect(
+	taskDescription: string,
+	options: IndexedProjectOptions = {},
+): Promise<void> {
 	console.log('🔍 Inspecting project and creating task plan...');
 
 	// Check if project is indexed
-	const symbols = await readJson<ParsedSymbol[]>(SYMBOLS_JSON, []);
+	const root = projectRoot(options);
+	const paths = indexPaths(root);
+	const symbols = await readJson<ParsedSymbol[]>(paths.symbols, []);
 	if (!symbols.length) {
 		console.error('Project not indexed. Run: bun run src/cli/index.ts index');
 		return;
@@ -97,10 +927,21 @@ export async function cmdInspect(taskDescription: string): Promise<void> {
 	);
 
 	// Create project context summary
-	const projectContext =
+	let projectContext =
 		`Project has ${symbols.length} symbols across multiple files. ` +
 		`Languages: ${[...new Set(symbols.map((s) => s.filePath.split('.').pop()))].join(', ')}`;
 
+	// Complexity hotspots help the planner answer "where should we refactor"
+	const graphBuilder = new GraphBuilder(paths.dir);
+	const graph = await graphBuilder.loadGraph();
+	const hotspots = graph ? describeHotspots(graph) : '';
+	if (hotspots) projectContext += `\n${hotspots}`;
+
+	// What uncommitted changes already touch, so the plan can take them into account
+	const impact = graph ? await diffImpact(graph, { cwd: root }).catch(() => null) : null;
+	const changes = impact ? describeImpact(impact) : '';
+	if (changes) projectContext += `\n${changes}`;
+
 	console.log(`📊 Project context: ${projectContext}`);
 
 	// Create plan
@@ -122,8 +963,16 @@ export async function cmdInspect(taskDescription: string): Promise<void> {
 		}
 	});
 
-	// Execute plan
-	const executor = new CommandExecutor();
+	// Execute plan, re-running only the tests that cover each step's files. The
+	// graph is patched first so tests and imports the step added are selected.
+	const executor = new CommandExecutor({
+		selectTests: graph
+			? async (files) => {
+					await graphBuilder.updateFiles(files, [], root);
+					return graphBuilder.getTestFilesCovering(files);
+				}
+			: undefined,
+	});
 	console.log('\n🚀 Executing plan...\n');
 
 	for (let i = 0; i < plan.steps.length; i++) {
@@ -1,7 +1,31 @@
-import { cmdIndex, cmdInspect, cmdSearch } from './commands.ts';
+import { resolve } from 'node:path';
+import { parseArgs } from 'node:util';
+import { CONFIDENCE_LEVELS } from '../analysis/deadCode.ts';
+import { EXPORT_FORMATS, type ExportFormat } from '../analysis/graphExport.ts';
+import { GRAPH_QUERIES, type GraphQueryName } from '../analysis/graphQuery.ts';
+import { METRIC_NAMES, type MetricName, metricNamed, parseThreshold } from '../analysis/metrics.ts';
+import {
+	cmdGraph,
+	cmdGraphCycles,
+	cmdGraphExport,
+	cmdImpact,
+	cmdIndex,
+	cmdInspect,
+	cmdMetrics,
+	cmdReport,
+	cmdSearch,
+	cmdUnused,
+} from './commands.ts';
 
 const VERSION = '0.1.0';
 
+/** Commands reading the index take the path `index` was given */
+const ROOT_OPTION = { root: { type: 'string' } } as const;
+
+function rootOf(root: string | undefined): string | undefined {
+	return root ? resolve(root) : undefined;
+}
+
 function showHelp(): void {
 	console.log(`
 ╭─────────────────────────────────────────────────────────────╮
@@ -13,25 +37,88 @@ USAGE:
   the-gap <command> [options]
 
 COMMANDS:
-  index                   Index project files and build knowledge graph
+  index [path]            Index project files and build knowledge graph
                           Creates embeddings and analyzes code structure
+    --watch, -w           Keep re-indexing as files change
+    --concurrency, -j <n> Parse with n worker threads (default: cores - 1)
+    --type-check          Resolve calls across files with the type checker (slower)
 
   search <query>          Search indexed symbols by name or path
                           Uses semantic search to find relevant code
 
+  metrics                 List functions by complexity and size
+    --sort <metric>       complexity (default), nesting, lines, parameters, fan-in, fan-out
+    --min <metric=n>      Only functions reaching a threshold (repeatable)
+    --limit <n>           Show at most n functions (default: 20)
+    --json                Print the rows as JSON
+
+  graph <query> <target>  Query the knowledge graph; targets are symbol names,
+                          file paths, file:name or node ids (fuzzy matched)
+    callers <symbol>      Functions calling it (--depth for callers of callers)
+    callees <symbol>      Functions it calls
+    imports <file>        Files it imports
+    importers <file>      Files importing it
+    deps <symbol|file>    Everything it depends on, transitively
+    path <from> <to>      Shortest chain of edges between two nodes
+    cycles                Import cycles, with the import statements involved
+    export                The graph as Graphviz DOT, Mermaid or GraphML
+    --depth, -d <n>       Hops to follow (default: 1; deps and path: unlimited)
+    --json                Print the result as JSON
+    --runtime             cycles: ignore type-only and dynamic imports
+    --fail                cycles: exit with code 1 when any cycle is found
+    --format <f>          export: dot (default), mermaid or graphml
+    --focus <target>      export: only the nodes within --depth hops of the target
+    --level <l>           export: file (module map) or symbol; default: symbol
+                          with --focus, file without
+    --flat                export: do not group nodes by directory
+    --output, -o <file>   export: write to a file instead of stdout
+
+  impact                  Symbols, files and tests affected by a git diff
+    --base <rev>          Diff against a revision (from where the branches split)
+                          or an a..b range (default: uncommitted changes)
+    --depth, -d <n>       Hops to follow back from the changed code
+    --json                Print the report as JSON
+
+  unused                  Unused exports, functions never called and files
+                          nothing imports, with a confidence for each
+    --entry <pattern>     Treat matching files as entry points (repeatable;
+                          package.json targets, tests and index files already are)
+    --no-default-entries  Only use the --entry patterns as entry points
+    --min-confidence <c>  high, medium or low (default: low, show everything)
+    --json                Print the findings as JSON
+
+  report                  Write an HTML architecture overview that opens offline:
+                          module map, symbols per file, import cycles, hotspots
+    --output, -o <file>   Where to write it (default: .the-gap/report.html)
+    --title <text>        Page heading (default: project directory name)
+
   inspect <task>          Analyze project and execute task plan
                           Uses AI to plan and execute development tasks
 
   tui [project]           Launch interactive terminal UI
                           Full-featured interface for project exploration
 
+  --root <path>           search, metrics, graph, impact, unused, report and inspect:
+                          read the index of the project at path, as built by
+                          index [path] (default: current directory)
+
   help, --help, -h        Show this help message
 
   version, --version, -v  Show version information
 
 EXAMPLES:
   $ the-gap index
+  $ the-gap index --watch
   $ the-gap search "authentication"
+  $ the-gap metrics --min complexity=10 --min nesting=4
+  $ the-gap graph callers parseSourceFile --depth 2
+  $ the-gap graph path src/cli/index.ts GraphIndex
+  $ the-gap graph cycles --runtime --fail
+  $ the-gap graph export --format mermaid --focus cmdInspect --depth 2
+  $ the-gap impact --base main
+  $ the-gap unused --entry 'scripts/*.ts' --min-confidence medium
+  $ the-gap graph cycles --root ../api
+  $ the-gap report --output docs/architecture.html
   $ the-gap inspect "refactor user service"
   $ the-gap tui
 
@@ -59,12 +146,38 @@ export async function main(): Promise<void> {
 
 	try {
 		switch (cmd) {
-			case 'index':
-				await cmdIndex();
+			case 'index': {
+				const { values, positionals } = parseArgs({
+					args: rest,
+					options: {
+						watch: { type: 'boolean', short: 'w' },
+						concurrency: { type: 'string', short: 'j' },
+						'type-check': { type: 'boolean' },
+					},
+					allowPositionals: true,
+				});
+				const root = positionals[0] ? resolve(positionals[0]) : process.cwd();
+				const concurrency = values.concurrency ? Number(values.concurrency) : undefined;
+				if (concurrency !== undefined && (!Number.isInteger(concurrency) || concurrency < 1)) {
+					console.error('❌ Error: --concurrency must be a positive integer\n');
+					process.exitCode = 1;
+					return;
+				}
+				await cmdIndex(root, {
+					watch: values.watch,
+					concurrency,
+					typeCheck: values['type-check'],
+				});
 				break;
+			}
 
 			case 'search': {
-				const q = rest[0];
+				const { values, positionals } = parseArgs({
+					args: rest,
+					options: ROOT_OPTION,
+					allowPositionals: true,
+				});
+				const q = positionals[0];
 				if (!q) {
 					console.error('❌ Error: Missing search query\n');
 					console.log('Usage: the-gap search <query>\n');
@@ -72,12 +185,224 @@ export async function main(): Promise<void> {
 					process.exitCode = 1;
 					return;
 				}
-				await cmdSearch(q);
+				await cmdSearch(q, { root: rootOf(values.root) });
+				break;
+			}
+
+			case 'metrics': {
+				const { values } = parseArgs({
+					args: rest,
+					options: {
+						sort: { type: 'string' },
+						min: { type: 'string', multiple: true },
+						limit: { type: 'string' },
+						json: { type: 'boolean' },
+						...ROOT_OPTION,
+					},
+				});
+				const sortBy = values.sort === undefined ? undefined : metricNamed(values.sort);
+				if (values.sort !== undefined && !sortBy) {
+					console.error(`❌ Error: Unknown metric '${values.sort}'\n`);
+					console.log(`Metrics: ${Object.keys(METRIC_NAMES).join(', ')}\n`);
+					process.exitCode = 1;
+					return;
+				}
+				const thresholds: Partial<Record<MetricName, number>> = {};
+				for (const text of values.min ?? []) {
+					const threshold = parseThreshold(text);
+					if (!threshold) {
+						console.error(`❌ Error: Invalid threshold '${text}'\n`);
+						console.log('Usage: the-gap metrics --min complexity=10\n');
+						process.exitCode = 1;
+						return;
+					}
+					thresholds[threshold[0]] = threshold[1];
+				}
+				const limit = values.limit ? Number(values.limit) : undefined;
+				if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+					console.error('❌ Error: --limit must be a positive integer\n');
+					process.exitCode = 1;
+					return;
+				}
+				await cmdMetrics({
+					sortBy,
+					thresholds,
+					limit,
+					json: values.json,
+					root: rootOf(values.root),
+				});
+				break;
+			}
+
+			case 'graph': {
+				const { values, positionals } = parseArgs({
+					args: rest,
+					options: {
+						depth: { type: 'string', short: 'd' },
+						json: { type: 'boolean' },
+						runtime: { type: 'boolean' },
+						fail: { type: 'boolean' },
+						format: { type: 'string' },
+						focus: { type: 'string' },
+						level: { type: 'string' },
+						flat: { type: 'boolean' },
+						output: { type: 'string', short: 'o' },
+						...ROOT_OPTION,
+					},
+					allowPositionals: true,
+				});
+				const root = rootOf(values.root);
+				const [query, ...targets] = positionals;
+				if (query === 'cycles') {
+					if (targets.length > 0) {
+						console.error("❌ Error: 'graph cycles' takes no targets\n");
+						console.log('Usage: the-gap graph cycles [--runtime] [--fail]\n');
+						process.exitCode = 1;
+						return;
+					}
+					await cmdGraphCycles({
+						runtime: values.runtime,
+						fail: values.fail,
+						json: values.json,
+						root,
+					});
+					break;
+				}
+				if (query === 'export') {
+					const format = values.format ?? 'dot';
+					if (!(EXPORT_FORMATS as readonly string[]).includes(format)) {
+						console.error(`❌ Error: Unknown export format '${format}'\n`);
+						console.log(`Formats: ${EXPORT_FORMATS.join(', ')}\n`);
+						process.exitCode = 1;
+						return;
+					}
+					if (values.level !== undefined && values.level !== 'file' && values.level !== 'symbol') {
+						console.error(`❌ Error: Unknown level '${values.level}'\n`);
+						console.log('Levels: file, symbol\n');
+						process.exitCode = 1;
+						return;
+					}
+					const depth = values.depth ? Number(values.depth) : undefined;
+					if (depth !== undefined && (!Number.isInteger(depth) || depth < 1)) {
+						console.error('❌ Error: --depth must be a positive integer\n');
+						process.exitCode = 1;
+						return;
+					}
+					await cmdGraphExport({
+						format: format as ExportFormat,
+						focus: values.focus ?? targets[0],
+						depth,
+						level: values.level,
+						cluster: !values.flat,
+						output: values.output,
+						root,
+					});
+					break;
+				}
+				if (!query || !(GRAPH_QUERIES as readonly string[]).includes(query)) {
+					console.error(
+						query
+							? `❌ Error: Unknown graph query '${query}'\n`
+							: '❌ Error: Missing graph query\n',
+					);
+					console.log(`Queries: ${[...GRAPH_QUERIES, 'cycles', 'export'].join(', ')}\n`);
+					console.log('Example: the-gap graph callers parseSourceFile\n');
+					process.exitCode = 1;
+					return;
+				}
+				const expected = query === 'path' ? 2 : 1;
+				if (targets.length !== expected) {
+					console.error(
+						`❌ Error: 'graph ${query}' takes ${expected === 2 ? 'two targets' : 'one target'}\n`,
+					);
+					console.log(
+						`Usage: the-gap graph ${query} ${expected === 2 ? '<from> <to>' : '<symbol-or-file>'}\n`,
+					);
+					process.exitCode = 1;
+					return;
+				}
+				const depth = values.depth ? Number(values.depth) : undefined;
+				if (depth !== undefined && (!Number.isInteger(depth) || depth < 1)) {
+					console.error('❌ Error: --depth must be a positive integer\n');
+					process.exitCode = 1;
+					return;
+				}
+				await cmdGraph(query as GraphQueryName, targets, { depth, json: values.json, root });
+				break;
+			}
+
+			case 'impact': {
+				const { values } = parseArgs({
+					args: rest,
+					options: {
+						base: { type: 'string' },
+						depth: { type: 'string', short: 'd' },
+						json: { type: 'boolean' },
+						...ROOT_OPTION,
+					},
+				});
+				const depth = values.depth ? Number(values.depth) : undefined;
+				if (depth !== undefined && (!Number.isInteger(depth) || depth < 1)) {
+					console.error('❌ Error: --depth must be a positive integer\n');
+					process.exitCode = 1;
+					return;
+				}
+				await cmdImpact({ base: values.base, depth, json: values.json, root: rootOf(values.root) });
+				break;
+			}
+
+			case 'unused': {
+				const { values } = parseArgs({
+					args: rest,
+					options: {
+						entry: { type: 'string', multiple: true },
+						'no-default-entries': { type: 'boolean' },
+						'min-confidence': { type: 'string' },
+						json: { type: 'boolean' },
+						...ROOT_OPTION,
+					},
+				});
+				const minConfidence = CONFIDENCE_LEVELS.find((level) => level === values['min-confidence']);
+				if (values['min-confidence'] !== undefined && !minConfidence) {
+					console.error(`❌ Error: Unknown confidence '${values['min-confidence']}'\n`);
+					console.log(`Confidence levels: ${CONFIDENCE_LEVELS.join(', ')}\n`);
+					process.exitCode = 1;
+					return;
+				}
+				await cmdUnused({
+					entries: values.entry,
+					noDefaultEntries: values['no-default-entries'],
+					minConfidence,
+					json: values.json,
+					root: rootOf(values.root),
+				});
+				break;
+			}
+
+			case 'report': {
+				const { values } = parseArgs({
+					args: rest,
+					options: {
+						output: { type: 'string', short: 'o' },
+						title: { type: 'string' },
+						...ROOT_OPTION,
+					},
+				});
+				await cmdReport({
+					output: values.output,
+					title: values.title,
+					root: rootOf(values.root),
+				});
 				break;
 			}
 
 			case 'inspect': {
-				const task = rest.join(' ');
+				const { values, positionals } = parseArgs({
+					args: rest,
+					options: ROOT_OPTION,
+					allowPositionals: true,
+				});
+				const task = positionals.join(' ');
 				if (!task) {
 					console.error('❌ Error: Missing task description\n');
 					console.log('Usage: the-gap inspect <task description>\n');
@@ -85,7 +410,7 @@ export async function main(): Promise<void> {
 					process.exitCode = 1;
 					return;
 				}
-				await cmdInspect(task);
+				await cmdInspect(task, { root: rootOf(values.root) });
 				break;
 			}
 
@@ -40,7 +40,7 @@ export function TUI({ projectPath }: TUIProps) {
 				logs.push(args.join(' '));
 			};
 
-			await cmdInspect(command);
+			await cmdInspect(command, { root: projectPath });
 
 			console.log = originalLog;
 
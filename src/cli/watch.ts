@@ -0,0 +1,88 @@
+import { type FSWatcher, watch } from 'node:fs';
+import { join, sep } from 'node:path';
+import { supportedExtensions } from '../parser/languages.ts';
+
+export type WatchOptions = {
+	debounceMs?: number;
+	extensions?: string[];
+};
+
+const IGNORED_SEGMENTS = new Set([
+	'node_modules',
+	'.git',
+	'.the-gap',
+	'dist',
+	'__pycache__',
+	'.venv',
+	'venv',
+]);
+const IGNORE_FILE_NAMES = new Set(['.gitignore', '.the-gapignore']);
+
+/**
+ * Watch a project directory and invoke `onBatch` with the set of changed paths
+ * once the filesystem has been quiet for `debounceMs`. Batches never overlap:
+ * changes arriving while a batch is running are queued for the next one.
+ *
+ * Returns a function that stops watching.
+ */
+export function watchProject(
+	rootDir: string,
+	onBatch: (paths: string[]) => Promise<void>,
+	options: WatchOptions = {},
+): () => void {
+	const debounceMs = options.debounceMs ?? 250;
+	const extensions = options.extensions ?? supportedExtensions();
+	const pending = new Set<string>();
+	let timer: ReturnType<typeof setTimeout> | null = null;
+	let running = false;
+	let stopped = false;
+
+	const isRelevant = (relPath: string): boolean => {
+		const segments = relPath.split(/[\\/]/);
+		if (segments.some((s) => IGNORED_SEGMENTS.has(s))) return false;
+		const name = segments[segments.length - 1] ?? '';
+		return IGNORE_FILE_NAMES.has(name) || extensions.some((ext) => name.endsWith(ext));
+	};
+
+	const flush = async (): Promise<void> => {
+		timer = null;
+		if (running || stopped || pending.size === 0) return;
+
+		const batch = [...pending].sort();
+		pending.clear();
+		running = true;
+		try {
+			await onBatch(batch);
+		} catch (error) {
+			console.warn('Watch batch failed:', error);
+		} finally {
+			running = false;
+		}
+
+		// Pick up anything that arrived while the batch was running
+		if (pending.size > 0 && !timer) schedule();
+	};
+
+	const schedule = (): void => {
+		if (timer) clearTimeout(timer);
+		timer = setTimeout(flush, debounceMs);
+	};
+
+	const watcher: FSWatcher = watch(rootDir, { recursive: true }, (_event, fileName) => {
+		if (!fileName) return;
+		const relPath = fileName.toString();
+		if (!isRelevant(relPath)) return;
+		pending.add(join(rootDir, relPath.split('/').join(sep)));
+		schedule();
+	});
+
+	watcher.on('error', (error) => {
+		console.warn('File watcher error:', error);
+	});
+
+	return () => {
+		stopped = true;
+		if (timer) clearTimeout(timer);
+		watcher.close();
+	};
+}
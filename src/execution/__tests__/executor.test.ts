@@ -253,4 +253,68 @@ describe('CommandExecutor', () => {
 			expect(result.output).toContain('FAILED');
 		});
 	});
+
+	describe('covering tests', () => {
+		const step: TaskStep = {
+			name: 'Edit',
+			description: 'Change the store',
+			files_affected: ['src/store.ts'],
+			commands: ['echo edited'],
+		};
+
+		it('should run only the selected test files after a step', async () => {
+			const selected: string[][] = [];
+			const testExecutor = new CommandExecutor({
+				selectTests: (files) => {
+					selected.push(files);
+					return ['src/__tests__/store.test.ts'];
+				},
+				testCommand: 'echo running',
+			});
+
+			const result = await testExecutor.executeStep(step, false);
+
+			expect(selected).toEqual([['src/store.ts']]);
+			expect(result.success).toBe(true);
+			expect(result.output).toContain('edited');
+			expect(result.output).toContain('running src/__tests__/store.test.ts');
+		});
+
+		it('should pass each test path as a single argument', async () => {
+			const testExecutor = new CommandExecutor({
+				selectTests: () => ['src/my tests/store.test.ts', 'src/a.test.ts'],
+				testCommand: 'printf %s|',
+			});
+
+			const result = await testExecutor.executeStep(step, false);
+
+			expect(result.output).toContain('src/my tests/store.test.ts|src/a.test.ts|');
+		});
+
+		it('should fail the step when the covering tests fail', async () => {
+			const testExecutor = new CommandExecutor({
+				selectTests: () => ['src/__tests__/store.test.ts'],
+				testCommand: 'false',
+			});
+
+			const result = await testExecutor.executeStep(step, false);
+
+			expect(result.success).toBe(false);
+			expect(result.output).toContain('FAILED');
+		});
+
+		it('should skip the test run when no tests cover the change', async () => {
+			const testExecutor = new CommandExecutor({ selectTests: () => [], testCommand: 'false' });
+
+			const result = await testExecutor.executeStep(step, false);
+
+			expect(result.success).toBe(true);
+			expect(result.output).toContain('none cover');
+		});
+
+		it('should not run tests without a selector', async () => {
+			const result = await executor.executeStep(step, false);
+			expect(result.output).not.toContain('Tests');
+		});
+	});
 });
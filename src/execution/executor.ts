@@ -7,8 +7,58 @@ export interface ExecutionResult {
 	error?: string;
 }
 
+export interface ExecutorOptions {
+	/**
+	 * Test files covering the given changed files, asked once the step's
+	 * commands ran. When set, steps that touch files run only these tests
+	 * afterwards; an empty selection runs nothing.
+	 */
+	selectTests?: (files: string[]) => string[] | Promise<string[]>;
+	/** Command the selected test files are appended to */
+	testCommand?: string;
+}
+
 export class CommandExecutor {
+	constructor(private readonly options: ExecutorOptions = {}) {}
+
 	async executeStep(step: TaskStep, approveFirst = true): Promise<ExecutionResult> {
+		const result = await this.runStepCommands(step, approveFirst);
+		if (!result.success || !this.options.selectTests || step.files_affected.length === 0) {
+			return result;
+		}
+
+		const tests = await this.runTestsFor(step.files_affected);
+		return {
+			success: tests.success,
+			output: `${result.output}\n\n${tests.output}`,
+			error: tests.error,
+		};
+	}
+
+	/**
+	 * Run only the tests that cover the changed files
+	 */
+	async runTestsFor(files: string[]): Promise<ExecutionResult> {
+		const testFiles = (await this.options.selectTests?.(files)) ?? [];
+		if (testFiles.length === 0) {
+			console.log('🧪 No tests cover the changed files');
+			return { success: true, output: 'Tests: none cover the changed files' };
+		}
+
+		const command = this.options.testCommand ?? 'bunx vitest run';
+		console.log(
+			`\n🧪 Running ${testFiles.length} covering test file(s): ${command} ${testFiles.join(' ')}`,
+		);
+		// Paths go in as whole arguments, so spaces in them survive
+		const result = await this.executeCommand(command, testFiles);
+		console.log(result.success ? '✅ Tests passed' : `❌ Tests failed: ${result.error}`);
+		return {
+			...result,
+			output: `Tests (${testFiles.length} file(s)): ${result.success ? 'PASSED' : 'FAILED'}\n${result.output}`,
+		};
+	}
+
+	private async runStepCommands(step: TaskStep, approveFirst: boolean): Promise<ExecutionResult> {
 		// Validate step input
 		if (!step || typeof step !== 'object') {
 			throw new ExecutionError(
@@ -107,7 +157,7 @@ export class CommandExecutor {
 		};
 	}
 
-	private async executeCommand(cmd: string): Promise<ExecutionResult> {
+	private async executeCommand(cmd: string, args: string[] = []): Promise<ExecutionResult> {
 		// Validate command input
 		if (!cmd || cmd.trim().length === 0) {
 			return {
@@ -135,7 +185,7 @@ export class CommandExecutor {
 		}
 
 		try {
-			const process = Bun.spawn(cmd.split(' '), {
+			const process = Bun.spawn([...cmd.split(' '), ...args], {
 				stdout: 'pipe',
 				stderr: 'pipe',
 			});
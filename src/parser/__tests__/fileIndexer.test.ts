@@ -0,0 +1,110 @@
+import { mkdir, rm, symlink } from 'node:fs/promises';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { indexProjectFiles } from '../fileIndexer.ts';
+import { compileIgnorePatterns, isIgnored } from '../ignoreRules.ts';
+
+describe('ignoreRules', () => {
+	it('should match unanchored patterns at any depth', () => {
+		const rules = compileIgnorePatterns('*.log\nbuild/');
+		expect(isIgnored(rules, 'debug.log', false)).toBe(true);
+		expect(isIgnored(rules, 'a/b/debug.log', false)).toBe(true);
+		expect(isIgnored(rules, 'packages/app/build', true)).toBe(true);
+		expect(isIgnored(rules, 'build', false)).toBe(false);
+	});
+
+	it('should anchor patterns containing a slash', () => {
+		const rules = compileIgnorePatterns('/generated\nsrc/tmp');
+		expect(isIgnored(rules, 'generated', true)).toBe(true);
+		expect(isIgnored(rules, 'src/generated', true)).toBe(false);
+		expect(isIgnored(rules, 'src/tmp', true)).toBe(true);
+		expect(isIgnored(rules, 'lib/src/tmp', true)).toBe(false);
+	});
+
+	it('should support double-star and negation', () => {
+		const rules = compileIgnorePatterns('**/fixtures/**\n*.ts\n!keep.ts');
+		expect(isIgnored(rules, 'a/fixtures/x.json', false)).toBe(true);
+		expect(isIgnored(rules, 'src/main.ts', false)).toBe(true);
+		expect(isIgnored(rules, 'src/keep.ts', false)).toBe(false);
+	});
+
+	it('should scope rules to the declaring directory', () => {
+		const rules = compileIgnorePatterns('*.gen.ts', 'packages/api');
+		expect(isIgnored(rules, 'packages/api/src/a.gen.ts', false)).toBe(true);
+		expect(isIgnored(rules, 'packages/web/a.gen.ts', false)).toBe(false);
+	});
+
+	it('should skip comments and blank lines', () => {
+		const rules = compileIgnorePatterns('# comment\n\n\\#literal');
+		expect(rules).toHaveLength(1);
+		expect(isIgnored(rules, '#literal', false)).toBe(true);
+	});
+});
+
+describe('indexProjectFiles', () => {
+	const testDir = join(process.cwd(), '.test-file-indexer');
+
+	beforeEach(async () => {
+		await mkdir(join(testDir, 'src', 'nested'), { recursive: true });
+		await Bun.write(join(testDir, 'src', 'a.ts'), 'export const a = 1;');
+		await Bun.write(join(testDir, 'src', 'nested', 'b.tsx'), 'export const b = 2;');
+		await Bun.write(join(testDir, 'src', 'types.d.ts'), 'declare const x: number;');
+		await Bun.write(join(testDir, 'README.md'), '# readme');
+		await Bun.write(join(testDir, 'node_modules', 'dep', 'index.js'), 'module.exports = 1;');
+		await Bun.write(join(testDir, 'dist', 'out.js'), 'console.log(1);');
+		await Bun.write(join(testDir, '.the-gap', 'cache.ts'), '');
+	});
+
+	afterEach(async () => {
+		try {
+			await rm(testDir, { recursive: true, force: true });
+		} catch {
+			// Ignore cleanup errors
+		}
+	});
+
+	it('should discover source files recursively with default excludes', async () => {
+		const files = await indexProjectFiles(testDir);
+		const paths = files.map((f) => f.relativePath);
+		expect(paths).toEqual(['src/a.ts', 'src/nested/b.tsx']);
+		expect(files[0]?.size).toBeGreaterThan(0);
+		expect(files[0]?.mtime).toBeGreaterThan(0);
+		expect(files[0]?.path).toBe(join(testDir, 'src', 'a.ts'));
+	});
+
+	it('should honor root and nested ignore files', async () => {
+		await Bun.write(join(testDir, '.gitignore'), 'nested/\n');
+		await Bun.write(join(testDir, 'src', 'c.ts'), '');
+		await Bun.write(join(testDir, 'src', '.the-gapignore'), 'c.ts\n');
+
+		const files = await indexProjectFiles(testDir);
+		expect(files.map((f) => f.relativePath)).toEqual(['src/a.ts']);
+	});
+
+	it('should allow .gitignore to be disabled', async () => {
+		await Bun.write(join(testDir, '.gitignore'), 'src/a.ts\n');
+
+		const files = await indexProjectFiles(testDir, { respectGitignore: false });
+		expect(files.map((f) => f.relativePath)).toContain('src/a.ts');
+	});
+
+	it('should apply extra exclude patterns', async () => {
+		const files = await indexProjectFiles(testDir, { exclude: ['*.tsx'] });
+		expect(files.map((f) => f.relativePath)).toEqual(['src/a.ts']);
+	});
+
+	it('should skip symlinks unless asked to follow them', async () => {
+		await mkdir(join(testDir, 'linked'), { recursive: true });
+		await symlink(join(testDir, 'src', 'nested'), join(testDir, 'linked', 'nested'));
+		// A cycle back to the root must not loop forever
+		await symlink(testDir, join(testDir, 'src', 'loop'));
+
+		const skipped = await indexProjectFiles(testDir);
+		expect(skipped.map((f) => f.relativePath)).not.toContain('linked/nested/b.tsx');
+
+		const followed = await indexProjectFiles(testDir, { followSymlinks: true });
+		const paths = followed.map((f) => f.relativePath);
+		expect(paths).toContain('src/nested/b.tsx');
+		expect(paths).toContain('linked/nested/b.tsx');
+	});
+});
@@ -2,7 +2,7 @@ import { rm } from 'node:fs/promises';
 import { join } from 'node:path';
 import { afterEach, beforeEach, describe, expect, it } from 'vitest';
 import { ensureDir, writeJson } from '../../utils/fs.ts';
-import { GraphBuilder } from '../graphBuilder.ts';
+import { type CodeGraph, GraphBuilder } from '../graphBuilder.ts';
 
 describe('GraphBuilder', () => {
 	let builder: GraphBuilder;
@@ -134,6 +134,16 @@ export function main() {
 			// Restore directory
 			process.chdir(currentDir);
 		});
+
+		it('should keep the graph in the index directory it was given', async () => {
+			const indexDir = join(testDir, 'elsewhere');
+			await writeJson(join(indexDir, 'symbols.json'), [{ filePath: 'src/test1.ts' }]);
+
+			const graph = await new GraphBuilder(indexDir).buildCompleteGraph(process.cwd());
+
+			expect(await new GraphBuilder(indexDir).loadGraph()).toEqual(graph);
+			expect(await new GraphBuilder().loadGraph()).toBeNull();
+		});
 	});
 
 	describe('graph queries', () => {
@@ -181,6 +191,651 @@ export function main() {
 				expect(Array.isArray(importers)).toBe(true);
 			}
 		});
+
+		it('should traverse the built graph and answer from the cache until it changes', async () => {
+			await builder.buildCompleteGraph(process.cwd());
+
+			const chain = builder.getImportChain('file:src/test2.ts', { direction: 'backward' });
+			expect(chain.map((hit) => hit.node.id)).toEqual(['file:src/test1.ts']);
+			expect(builder.getImportChain('file:src/test2.ts', { direction: 'backward' })).toBe(chain);
+
+			const path = builder.findPath('file:src/test1.ts', 'function:src/test2.ts:helper');
+			expect(path?.path.map((step) => step.type)).toEqual(['imports', 'contains']);
+			expect(builder.getReachable(['file:src/test2.ts'], { edgeTypes: ['contains'] })).toEqual(
+				new Set(['file:src/test2.ts', 'function:src/test2.ts:helper']),
+			);
+
+			await builder.loadGraph();
+			expect(builder.getImportChain('file:src/test2.ts', { direction: 'backward' })).not.toBe(
+				chain,
+			);
+		});
+	});
+
+	describe('function metrics', () => {
+		it('should store metrics with distinct fan-in and fan-out on function nodes', async () => {
+			await Bun.write(
+				join('src', 'fan.ts'),
+				`export function a() {
+	b();
+	b();
+	c();
+}
+export function b() {
+	c();
+}
+export function c(x = 1) {
+	return x > 0 ? x : -x;
+}
+export interface Shape { area(): number }`,
+			);
+			await writeJson(join('.the-gap', 'symbols.json'), [{ filePath: 'src/fan.ts' }]);
+
+			const graph = await builder.buildCompleteGraph(process.cwd());
+			const metrics = (id: string) => graph.nodes.find((n) => n.id === id)?.metrics;
+			expect(metrics('function:src/fan.ts:a')).toMatchObject({ fanIn: 0, fanOut: 2 });
+			expect(metrics('function:src/fan.ts:b')).toMatchObject({ fanIn: 1, fanOut: 1 });
+			expect(metrics('function:src/fan.ts:c')).toEqual({
+				complexity: 2,
+				nesting: 0,
+				lines: 3,
+				parameters: 1,
+				fanIn: 2,
+				fanOut: 0,
+			});
+			expect(metrics('interface:src/fan.ts:Shape')).toBeUndefined();
+			expect(metrics('file:src/fan.ts')).toBeUndefined();
+		});
+	});
+
+	describe('test linkage', () => {
+		beforeEach(async () => {
+			await ensureDir(join('src', '__tests__'));
+			await Bun.write(
+				join('src', 'store.ts'),
+				`function check(value: string) {
+	return value.length > 0;
+}
+
+export class Store {
+	save(value: string) {
+		this.validate(value);
+	}
+	validate(value: string) {
+		check(value);
+	}
+}
+
+export function openStore(): Store {
+	return new Store();
+}`,
+			);
+			await Bun.write(
+				join('src', '__tests__', 'store.test.ts'),
+				`import { openStore, Store } from '../store';
+
+describe('Store', () => {
+	it('opens', () => {
+		expect(openStore()).toBeDefined();
+	});
+
+	it('saves', () => {
+		const store = new Store();
+		store.save('x');
+	});
+});`,
+			);
+			await writeJson(join('.the-gap', 'symbols.json'), [
+				{ filePath: 'src/__tests__/store.test.ts' },
+				{ filePath: 'src/store.ts' },
+				{ filePath: 'src/test1.ts' },
+				{ filePath: 'src/test2.ts' },
+			]);
+		});
+
+		it('should add tests edges from test cases to what they call and construct', async () => {
+			const graph = await builder.buildCompleteGraph(process.cwd());
+			const edges = graph.edges
+				.filter((e) => e.type === 'tests')
+				.map((e) => `${e.source} -> ${e.target}`);
+
+			expect(edges).toEqual([
+				'test:src/__tests__/store.test.ts:Store.opens -> function:src/store.ts:openStore',
+				'test:src/__tests__/store.test.ts:Store.saves -> function:src/store.ts:Store.save',
+				'test:src/__tests__/store.test.ts:Store.saves -> class:src/store.ts:Store',
+			]);
+			expect(graph.nodes.find((n) => n.id === 'file:src/__tests__/store.test.ts')?.test).toBe(true);
+		});
+
+		it('should keep dotted and repeated test titles apart', async () => {
+			await Bun.write(
+				join('src', '__tests__', 'paths.test.ts'),
+				`import { openStore, Store } from '../store';
+
+describe('paths', () => {
+	it('handles a', () => {
+		function openStore() {}
+		openStore();
+	});
+
+	it('handles a.b', () => {
+		openStore();
+	});
+
+	it('handles a.b', () => {
+		new Store();
+	});
+});`,
+			);
+			await writeJson(join('.the-gap', 'symbols.json'), [
+				{ filePath: 'src/__tests__/paths.test.ts' },
+				{ filePath: 'src/store.ts' },
+			]);
+
+			const graph = await builder.buildCompleteGraph(process.cwd());
+			const edges = graph.edges
+				.filter((e) => e.type === 'tests')
+				.map((e) => `${e.source} -> ${e.target}`);
+
+			expect(edges).toEqual([
+				'test:src/__tests__/paths.test.ts:paths.handles a.b -> function:src/store.ts:openStore',
+				'test:src/__tests__/paths.test.ts:paths.handles a.b #2 -> class:src/store.ts:Store',
+			]);
+		});
+
+		it('should find the tests covering a symbol through its callers and class', async () => {
+			await builder.buildCompleteGraph(process.cwd());
+			const covering = (id: string) => builder.getTestsCovering(id).map((n) => n.label);
+
+			expect(covering('function:src/store.ts:Store.validate')).toEqual(['Store.saves']);
+			expect(covering('function:src/store.ts:openStore')).toEqual(['Store.opens']);
+			expect(covering('function:src/store.ts:check')).toEqual(['Store.saves']);
+			expect(covering('function:src/test1.ts:main')).toEqual([]);
+		});
+
+		it('should select the test files to run for changed files', async () => {
+			await builder.buildCompleteGraph(process.cwd());
+
+			expect(builder.getTestFilesCovering(['src/store.ts'])).toEqual([
+				'src/__tests__/store.test.ts',
+			]);
+			expect(builder.getTestFilesCovering(['src/__tests__/store.test.ts'])).toEqual([
+				'src/__tests__/store.test.ts',
+			]);
+			expect(builder.getTestFilesCovering(['src/test1.ts'])).toEqual([]);
+		});
+	});
+
+	describe('incremental updates', () => {
+		/** Order-independent view of a graph */
+		const snapshot = (graph: CodeGraph) => ({
+			nodes: graph.nodes.map((n) => JSON.stringify(n)).sort(),
+			edges: graph.edges.map((e) => JSON.stringify(e)).sort(),
+		});
+
+		/** The graph a from-scratch build gives for the files on disk */
+		const fullBuild = async (files: string[]) => {
+			await writeJson(
+				join('.the-gap', 'symbols.json'),
+				files.map((filePath) => ({ filePath })),
+			);
+			return new GraphBuilder().buildCompleteGraph(process.cwd());
+		};
+
+		beforeEach(async () => {
+			await Bun.write(
+				join('src', 'base.ts'),
+				`export class Base {
+	run() {}
+}`,
+			);
+			await Bun.write(
+				join('src', 'index.ts'),
+				`export * from './base';\nexport * from './checks';`,
+			);
+			await Bun.write(
+				join('src', 'child.ts'),
+				`import { Base, check } from './index';
+
+export class Child extends Base {
+	run() {
+		check();
+	}
+}`,
+			);
+			await writeJson(join('.the-gap', 'symbols.json'), [
+				{ filePath: 'src/base.ts' },
+				{ filePath: 'src/child.ts' },
+				{ filePath: 'src/index.ts' },
+				{ filePath: 'src/test1.ts' },
+				{ filePath: 'src/test2.ts' },
+			]);
+		});
+
+		it('should re-resolve edges into a modified file, including through barrels', async () => {
+			await builder.buildCompleteGraph(process.cwd());
+			await Bun.write(
+				join('src', 'base.ts'),
+				`export class Base {
+	start() {}
+}
+
+export function check() {}`,
+			);
+
+			const graph = await builder.updateFiles(['src/base.ts'], []);
+			const edges = graph.edges.map((e) => `${e.type} ${e.source} -> ${e.target}`);
+
+			expect(edges).toContain('imports file:src/child.ts -> file:src/base.ts');
+			expect(edges).not.toContain(
+				'overrides function:src/child.ts:Child.run -> function:src/base.ts:Base.run',
+			);
+			expect(graph.nodes.some((n) => n.id === 'function:src/base.ts:Base.run')).toBe(false);
+			expect(snapshot(graph)).toEqual(
+				snapshot(
+					await fullBuild([
+						'src/base.ts',
+						'src/child.ts',
+						'src/index.ts',
+						'src/test1.ts',
+						'src/test2.ts',
+					]),
+				),
+			);
+		});
+
+		it('should add new files and drop removed ones', async () => {
+			await builder.buildCompleteGraph(process.cwd());
+			await Bun.write(
+				join('src', 'test1.ts'),
+				`import { other } from './test3';\n\nexport function main() {\n\tother();\n}`,
+			);
+			await Bun.write(join('src', 'test3.ts'), `export function other() {}`);
+			await Bun.write(join('src', 'checks.ts'), `export function check() {}`);
+			await rm(join('src', 'test2.ts'));
+
+			const graph = await builder.updateFiles(
+				['src/test1.ts', 'src/test3.ts', 'src/checks.ts'],
+				['src/test2.ts'],
+			);
+
+			expect(graph.nodes.some((n) => n.path === 'src/test2.ts')).toBe(false);
+			expect(graph.edges).toContainEqual({
+				source: 'file:src/test1.ts',
+				target: 'file:src/test3.ts',
+				type: 'imports',
+				lines: [1],
+				names: ['other'],
+			});
+			// child.ts only reaches the new file through the barrel
+			expect(graph.edges).toContainEqual({
+				source: 'file:src/child.ts',
+				target: 'file:src/checks.ts',
+				type: 'imports',
+				via: 'file:src/index.ts',
+				names: ['check'],
+			});
+			expect(snapshot(graph)).toEqual(
+				snapshot(
+					await fullBuild([
+						'src/base.ts',
+						'src/checks.ts',
+						'src/child.ts',
+						'src/index.ts',
+						'src/test1.ts',
+						'src/test3.ts',
+					]),
+				),
+			);
+		});
+
+		it('should persist the patched graph', async () => {
+			await builder.buildCompleteGraph(process.cwd());
+			await Bun.write(
+				join('src', 'test2.ts'),
+				`export function helper() {}\nexport function extra() {}`,
+			);
+			const graph = await builder.updateFiles([join(process.cwd(), 'src', 'test2.ts')], []);
+
+			expect(graph.nodes.some((n) => n.id === 'function:src/test2.ts:extra')).toBe(true);
+			expect(await new GraphBuilder().loadGraph()).toEqual(graph);
+		});
+
+		it('should keep queries current across updates', async () => {
+			await builder.buildCompleteGraph(process.cwd());
+			expect(builder.getCallersOf('function:src/test2.ts:helper')).toEqual([]);
+
+			await Bun.write(
+				join('src', 'test2.ts'),
+				`export function helper() {}\n\nexport function run() {\n\thelper();\n}`,
+			);
+			await builder.updateFiles(['src/test2.ts'], []);
+
+			expect(builder.getCallersOf('function:src/test2.ts:helper').map((n) => n.id)).toEqual([
+				'function:src/test2.ts:run',
+			]);
+			expect(builder.getImportersOf('file:src/test2.ts').map((n) => n.id)).toEqual([
+				'file:src/test1.ts',
+			]);
+		});
+
+		it('should patch a loaded graph, re-parsing only the changed file', async () => {
+			await builder.buildCompleteGraph(process.cwd());
+			await Bun.write(
+				join('src', 'test2.ts'),
+				`export function helper() {}\nexport function extra() {}`,
+			);
+
+			const loaded = new GraphBuilder();
+			await loaded.loadGraph();
+			const parsed: number[] = [];
+			const graph = await loaded.updateFiles(['src/test2.ts'], [], process.cwd(), {
+				onProgress: (_done, total) => parsed.push(total),
+			});
+
+			expect(new Set(parsed)).toEqual(new Set([1]));
+			expect(graph.nodes.some((n) => n.id === 'function:src/test2.ts:extra')).toBe(true);
+			expect(snapshot(graph)).toEqual(
+				snapshot(
+					await fullBuild([
+						'src/base.ts',
+						'src/child.ts',
+						'src/index.ts',
+						'src/test1.ts',
+						'src/test2.ts',
+					]),
+				),
+			);
+		});
+
+		it('should build from scratch when no graph was built or saved', async () => {
+			await Bun.write(join('src', 'test3.ts'), `export function other() {}`);
+
+			const graph = await new GraphBuilder().updateFiles(['src/test3.ts', 'README.md'], []);
+
+			expect(graph.nodes.some((n) => n.id === 'function:src/test3.ts:other')).toBe(true);
+			expect(graph.nodes.some((n) => n.id === 'function:src/test1.ts:main')).toBe(true);
+		});
+	});
+
+	describe('nested declarations', () => {
+		beforeEach(async () => {
+			await Bun.write(
+				join('src', 'store.ts'),
+				`export class Store {
+	constructor() {
+		this.reset();
+	}
+
+	reset() {}
+}
+
+export function outer() {
+	function inner() {}
+	inner();
+}`,
+			);
+			await writeJson(join('.the-gap', 'symbols.json'), [{ filePath: 'src/store.ts' }]);
+		});
+
+		it('should hang members off their parent symbol', async () => {
+			const graph = await builder.buildCompleteGraph(process.cwd());
+			const contains = graph.edges.filter((e) => e.type === 'contains');
+
+			expect(contains).toContainEqual({
+				source: 'class:src/store.ts:Store',
+				target: 'constructor:src/store.ts:Store.constructor',
+				type: 'contains',
+			});
+			expect(contains).toContainEqual({
+				source: 'function:src/store.ts:outer',
+				target: 'function:src/store.ts:outer.inner',
+				type: 'contains',
+			});
+			expect(contains.filter((e) => e.source === 'file:src/store.ts').map((e) => e.target)).toEqual(
+				['class:src/store.ts:Store', 'function:src/store.ts:outer'],
+			);
+		});
+
+		it('should resolve this-calls and calls to nested functions', async () => {
+			const graph = await builder.buildCompleteGraph(process.cwd());
+			const calls = graph.edges.filter((e) => e.type === 'calls');
+
+			expect(calls).toContainEqual({
+				source: 'constructor:src/store.ts:Store.constructor',
+				target: 'function:src/store.ts:Store.reset',
+				type: 'calls',
+			});
+			expect(calls).toContainEqual({
+				source: 'function:src/store.ts:outer',
+				target: 'function:src/store.ts:outer.inner',
+				type: 'calls',
+			});
+		});
+	});
+
+	describe('barrel files', () => {
+		beforeEach(async () => {
+			await Bun.write(join('src', 'lib', 'dates.ts'), 'export function parseDate() {}');
+			await Bun.write(join('src', 'lib', 'types.ts'), 'export interface Options {}');
+			await Bun.write(
+				join('src', 'lib', 'index.ts'),
+				`export * from './dates';\nexport type { Options as DateOptions } from './types';`,
+			);
+			await Bun.write(
+				join('src', 'app.ts'),
+				`import { parseDate } from './lib';
+import type { DateOptions } from './lib';
+const lazy = () => import('./test2');
+
+export function run() {
+	parseDate();
+}`,
+			);
+			await writeJson(join('.the-gap', 'symbols.json'), [
+				{ filePath: 'src/app.ts' },
+				{ filePath: 'src/lib/index.ts' },
+				{ filePath: 'src/lib/dates.ts' },
+				{ filePath: 'src/lib/types.ts' },
+				{ filePath: 'src/test2.ts' },
+			]);
+		});
+
+		it('should follow re-exports to the defining files', async () => {
+			const graph = await builder.buildCompleteGraph(process.cwd());
+			const imports = graph.edges.filter(
+				(e) => e.type === 'imports' && e.source === 'file:src/app.ts',
+			);
+
+			expect(imports).toEqual([
+				{
+					source: 'file:src/app.ts',
+					target: 'file:src/lib/index.ts',
+					type: 'imports',
+					lines: [1, 2],
+					names: ['DateOptions', 'parseDate'],
+				},
+				{
+					source: 'file:src/app.ts',
+					target: 'file:src/lib/dates.ts',
+					type: 'imports',
+					via: 'file:src/lib/index.ts',
+					names: ['parseDate'],
+				},
+				{
+					source: 'file:src/app.ts',
+					target: 'file:src/lib/types.ts',
+					type: 'imports',
+					typeOnly: true,
+					via: 'file:src/lib/index.ts',
+					names: ['Options'],
+				},
+				{
+					source: 'file:src/app.ts',
+					target: 'file:src/test2.ts',
+					type: 'imports',
+					dynamic: true,
+					lines: [3],
+					names: ['*'],
+				},
+			]);
+		});
+
+		it('should mark barrel edges as re-exports', async () => {
+			const graph = await builder.buildCompleteGraph(process.cwd());
+			const barrel = graph.edges.filter((e) => e.source === 'file:src/lib/index.ts');
+
+			expect(barrel).toContainEqual({
+				source: 'file:src/lib/index.ts',
+				target: 'file:src/lib/dates.ts',
+				type: 'imports',
+				reExport: true,
+				lines: [1],
+				names: ['*'],
+			});
+		});
+	});
+
+	describe('type relationships', () => {
+		beforeEach(async () => {
+			await Bun.write(
+				join('src', 'embedder.ts'),
+				`export interface Embedder {
+	embed(texts: string[]): Promise<number[][]>;
+}
+
+export abstract class BaseEmbedder implements Embedder {
+	abstract embed(texts: string[]): Promise<number[][]>;
+	describe() {}
+}`,
+			);
+			await Bun.write(
+				join('src', 'random.ts'),
+				`import { BaseEmbedder, type Embedder } from './embedder';
+
+export class RandomEmbedder extends BaseEmbedder {
+	async embed(texts: string[]) {
+		return [];
+	}
+}
+
+export function create(): Embedder {
+	return new RandomEmbedder();
+}`,
+			);
+			await writeJson(join('.the-gap', 'symbols.json'), [
+				{ filePath: 'src/embedder.ts' },
+				{ filePath: 'src/random.ts' },
+			]);
+		});
+
+		it('should create inheritance, instantiation and type-usage edges', async () => {
+			const graph = await builder.buildCompleteGraph(process.cwd());
+			const typeEdges = graph.edges
+				.filter((e) => !['imports', 'calls', 'contains'].includes(e.type))
+				.map((e) => `${e.source} -${e.type}-> ${e.target}`);
+
+			expect(typeEdges).toEqual(
+				expect.arrayContaining([
+					'class:src/embedder.ts:BaseEmbedder -implements-> interface:src/embedder.ts:Embedder',
+					'class:src/random.ts:RandomEmbedder -extends-> class:src/embedder.ts:BaseEmbedder',
+					'function:src/random.ts:create -references-type-> interface:src/embedder.ts:Embedder',
+					'function:src/random.ts:create -instantiates-> class:src/random.ts:RandomEmbedder',
+					'function:src/random.ts:RandomEmbedder.embed -overrides-> function:src/embedder.ts:BaseEmbedder.embed',
+				]),
+			);
+		});
+
+		it('should answer subtype and type-user queries', async () => {
+			await builder.buildCompleteGraph(process.cwd());
+
+			const subtypes = builder.getSubtypesOf('interface:src/embedder.ts:Embedder');
+			expect(subtypes.map((n) => n.id)).toEqual(['class:src/embedder.ts:BaseEmbedder']);
+
+			const users = builder.getTypeUsersOf('class:src/random.ts:RandomEmbedder');
+			expect(users.map((n) => n.id)).toEqual(['function:src/random.ts:create']);
+		});
+	});
+
+	describe('type-checked calls', () => {
+		beforeEach(async () => {
+			await Bun.write(
+				join('src', 'store.ts'),
+				`export class Store {
+	save(value: string) {}
+}
+
+export function openStore(): Store {
+	return new Store();
+}`,
+			);
+			await Bun.write(join('src', 'index.ts'), `export { openStore as open } from './store';`);
+			await Bun.write(
+				join('src', 'app.ts'),
+				`import { open } from './index';
+
+export function run() {
+	const store = open();
+	store.save('x');
+}`,
+			);
+			await writeJson(join('.the-gap', 'symbols.json'), [
+				{ filePath: 'src/app.ts' },
+				{ filePath: 'src/index.ts' },
+				{ filePath: 'src/store.ts' },
+			]);
+		});
+
+		const runCalls = (graph: { edges: { source: string; target: string; type: string }[] }) =>
+			graph.edges
+				.filter((e) => e.type === 'calls' && e.source === 'function:src/app.ts:run')
+				.map((e) => e.target)
+				.sort();
+
+		it('should only resolve same-file calls by name', async () => {
+			const graph = await builder.buildCompleteGraph(process.cwd());
+			expect(runCalls(graph)).toEqual([]);
+		});
+
+		it('should resolve aliased imports and typed receivers with the type checker', async () => {
+			const graph = await builder.buildCompleteGraph(process.cwd(), { typeCheck: true });
+			expect(runCalls(graph)).toEqual([
+				'function:src/store.ts:Store.save',
+				'function:src/store.ts:openStore',
+			]);
+		});
+
+		it('should not link calls to callback parameters or closures to the enclosing function', async () => {
+			await Bun.write(
+				join('src', 'retry.ts'),
+				`export function retry<T>(fn: () => T): T {
+	return fn();
+}
+
+export function makeCb() {
+	return () => {};
+}
+
+const cb = makeCb();
+
+export function fire() {
+	cb();
+	retry(() => 1);
+}`,
+			);
+			await writeJson(join('.the-gap', 'symbols.json'), [{ filePath: 'src/retry.ts' }]);
+
+			const graph = await builder.buildCompleteGraph(process.cwd(), { typeCheck: true });
+			const calls = graph.edges
+				.filter((e) => e.type === 'calls')
+				.map((e) => `${e.source} -> ${e.target}`)
+				.sort();
+
+			expect(calls).toEqual([
+				'file:src/retry.ts -> function:src/retry.ts:makeCb',
+				'function:src/retry.ts:fire -> function:src/retry.ts:retry',
+			]);
+		});
 	});
 
 	describe('edge cases', () => {
@@ -205,5 +860,79 @@ export function main() {
 			// Should not crash, just skip the invalid file
 			expect(graph.nodes).toBeDefined();
 		});
+
+		it('should mark nodes from files with syntax errors as unreliable', async () => {
+			await Bun.write(
+				join('src', 'broken.ts'),
+				'export function ok() {}\nexport function bad( {\n',
+			);
+			await writeJson(join('.the-gap', 'symbols.json'), [
+				{ filePath: 'src/broken.ts' },
+				{ filePath: 'src/test2.ts' },
+			]);
+
+			const graph = await builder.buildCompleteGraph(process.cwd());
+			const node = (id: string) => graph.nodes.find((n) => n.id === id);
+			expect(node('file:src/broken.ts')?.unreliable).toBe(true);
+			expect(node('function:src/broken.ts:ok')?.unreliable).toBe(true);
+			expect(node('file:src/test2.ts')?.unreliable).toBeUndefined();
+			expect(node('function:src/test2.ts:helper')?.unreliable).toBeUndefined();
+		});
+	});
+
+	describe('python modules', () => {
+		beforeEach(async () => {
+			await ensureDir(join('src', 'shop'));
+			await Bun.write(join('src', 'shop', '__init__.py'), '');
+			await Bun.write(
+				join('src', 'shop', 'models.py'),
+				`class Base:
+    pass
+
+class User(Base):
+    def save(self):
+        pass
+
+def find(user_id):
+    return User()
+
+def load_user(user_id):
+    return find(user_id)
+`,
+			);
+			await Bun.write(
+				join('src', 'shop', 'views.py'),
+				`from .models import load_user
+from . import models
+
+def show(user_id):
+    user = load_user(user_id)
+    user.save()
+`,
+			);
+			await writeJson(join('.the-gap', 'symbols.json'), [
+				{ filePath: 'src/shop/__init__.py' },
+				{ filePath: 'src/shop/models.py' },
+				{ filePath: 'src/shop/views.py' },
+			]);
+		});
+
+		it('should build contains, imports, calls and extends edges for Python files', async () => {
+			const graph = await builder.buildCompleteGraph(process.cwd());
+			const edges = graph.edges.map((e) => `${e.type} ${e.source} -> ${e.target}`);
+
+			expect(edges).toContain(
+				'contains class:src/shop/models.py:User -> function:src/shop/models.py:User.save',
+			);
+			expect(edges.filter((e) => e.startsWith('imports'))).toEqual([
+				'imports file:src/shop/views.py -> file:src/shop/models.py',
+			]);
+			expect(edges).toContain(
+				'calls function:src/shop/models.py:load_user -> function:src/shop/models.py:find',
+			);
+			expect(edges).toContain(
+				'extends class:src/shop/models.py:User -> class:src/shop/models.py:Base',
+			);
+		});
 	});
 });
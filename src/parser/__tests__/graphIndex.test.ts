@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import type { GraphEdge } from '../graphBuilder.ts';
+import { GraphIndex } from '../graphIndex.ts';
+
+describe('GraphIndex', () => {
+	const edges: GraphEdge[] = [
+		{ source: 'file:a.ts', target: 'file:b.ts', type: 'imports' },
+		{ source: 'function:a.ts:run', target: 'function:b.ts:save', type: 'calls' },
+		{ source: 'function:a.ts:run', target: 'function:b.ts:load', type: 'calls' },
+		{ source: 'function:a.ts:run', target: 'class:b.ts:Store', type: 'instantiates' },
+		{ source: 'function:c.ts:main', target: 'function:b.ts:save', type: 'calls' },
+	];
+
+	it('should look up edges in both directions by type', () => {
+		const index = new GraphIndex(edges);
+
+		expect(index.outgoing('function:a.ts:run', ['calls']).map((e) => e.target)).toEqual([
+			'function:b.ts:save',
+			'function:b.ts:load',
+		]);
+		expect(index.incoming('function:b.ts:save', ['calls']).map((e) => e.source)).toEqual([
+			'function:a.ts:run',
+			'function:c.ts:main',
+		]);
+		expect(index.outgoing('function:a.ts:run')).toHaveLength(3);
+		expect(index.incoming('file:b.ts', ['calls'])).toEqual([]);
+		expect(index.outgoing('missing')).toEqual([]);
+		expect(index.ofType('calls').map((e) => e.target)).toEqual([
+			'function:b.ts:save',
+			'function:b.ts:load',
+			'function:b.ts:save',
+		]);
+		expect(index.ofType('extends')).toEqual([]);
+	});
+
+	it('should forget removed edges', () => {
+		const index = new GraphIndex(edges);
+		index.remove(edges[1] as GraphEdge);
+		// An equal copy is a different edge
+		index.remove({ ...(edges[4] as GraphEdge) });
+
+		expect(index.incoming('function:b.ts:save', ['calls']).map((e) => e.source)).toEqual([
+			'function:c.ts:main',
+		]);
+		expect(index.outgoing('function:a.ts:run', ['calls'])).toHaveLength(1);
+	});
+});
@@ -0,0 +1,190 @@
+import { describe, expect, it } from 'vitest';
+import type { CodeGraph, GraphEdgeType, GraphNode } from '../graphBuilder.ts';
+import {
+	describePath,
+	findShortestPath,
+	graphView,
+	importChain,
+	reachableFrom,
+	stronglyConnectedComponents,
+	type TraversalHit,
+	traverse,
+} from '../graphTraversal.ts';
+
+const fileNode = (name: string): GraphNode => ({
+	id: `file:${name}`,
+	label: name,
+	type: 'file',
+	path: name,
+});
+const fn = (file: string, name: string): GraphNode => ({
+	id: `function:${file}:${name}`,
+	label: name,
+	type: 'function',
+	path: file,
+});
+const edge = (source: string, target: string, type: GraphEdgeType) => ({ source, target, type });
+
+// app -> service -> repo -> db, app -> db; handle -> process -> save -> query
+const graph: CodeGraph = {
+	nodes: [
+		fileNode('app.ts'),
+		fileNode('service.ts'),
+		fileNode('repo.ts'),
+		fileNode('db.ts'),
+		fn('app.ts', 'handle'),
+		fn('service.ts', 'process'),
+		fn('repo.ts', 'save'),
+		fn('db.ts', 'query'),
+	],
+	edges: [
+		edge('file:app.ts', 'file:service.ts', 'imports'),
+		edge('file:app.ts', 'file:db.ts', 'imports'),
+		edge('file:service.ts', 'file:repo.ts', 'imports'),
+		edge('file:repo.ts', 'file:db.ts', 'imports'),
+		edge('file:app.ts', 'function:app.ts:handle', 'contains'),
+		edge('function:app.ts:handle', 'function:service.ts:process', 'calls'),
+		edge('function:service.ts:process', 'function:repo.ts:save', 'calls'),
+		edge('function:repo.ts:save', 'function:db.ts:query', 'calls'),
+	],
+};
+const view = graphView(graph);
+const ids = (hits: TraversalHit[]) => hits.map((hit) => `${hit.depth} ${hit.node.label}`);
+
+describe('graph traversal', () => {
+	it('should walk breadth-first with depth and edge type limits', () => {
+		expect(ids(traverse(view, 'file:app.ts', { edgeTypes: ['imports'] }))).toEqual([
+			'1 service.ts',
+			'1 db.ts',
+			'2 repo.ts',
+		]);
+		expect(ids(traverse(view, 'file:app.ts', { maxDepth: 1 }))).toEqual([
+			'1 service.ts',
+			'1 db.ts',
+			'1 handle',
+		]);
+		expect(traverse(view, 'missing')).toEqual([]);
+	});
+
+	it('should walk backward and in both directions', () => {
+		expect(ids(traverse(view, 'function:db.ts:query', { direction: 'backward' }))).toEqual([
+			'1 save',
+			'2 process',
+			'3 handle',
+			'4 app.ts',
+		]);
+		expect(
+			ids(traverse(view, 'file:repo.ts', { direction: 'both', edgeTypes: ['imports'] })),
+		).toEqual(['1 db.ts', '1 service.ts', '2 app.ts']);
+	});
+
+	it('should walk depth-first without letting a long branch hide shallow nodes', () => {
+		const hits = traverse(view, 'file:app.ts', { strategy: 'dfs', edgeTypes: ['imports'] });
+		expect(ids(hits)).toEqual(['1 service.ts', '2 repo.ts', '3 db.ts']);
+
+		// db.ts is first seen at depth 3, but is also a direct import
+		const limited = traverse(view, 'file:app.ts', {
+			strategy: 'dfs',
+			edgeTypes: ['imports'],
+			maxDepth: 2,
+		});
+		expect(ids(limited)).toEqual(['1 service.ts', '2 repo.ts', '1 db.ts']);
+	});
+
+	it('should annotate every hit with the path that reached it', () => {
+		const [hit] = traverse(view, 'function:repo.ts:save', { direction: 'backward', maxDepth: 1 });
+		expect(hit?.path).toEqual([
+			{
+				from: 'function:repo.ts:save',
+				to: 'function:service.ts:process',
+				type: 'calls',
+				reversed: true,
+			},
+		]);
+	});
+
+	it('should find shortest paths', () => {
+		const path = findShortestPath(view, 'file:app.ts', 'function:db.ts:query');
+		expect(path?.depth).toBe(4);
+		expect(describePath(view, 'file:app.ts', path?.path ?? [])).toBe(
+			'app.ts -[contains]-> handle -[calls]-> process -[calls]-> save -[calls]-> query',
+		);
+		expect(findShortestPath(view, 'file:app.ts', 'file:db.ts')?.depth).toBe(1);
+		expect(findShortestPath(view, 'file:db.ts', 'file:app.ts')).toBeNull();
+		expect(findShortestPath(view, 'file:app.ts', 'file:repo.ts', { maxDepth: 1 })).toBeNull();
+		expect(findShortestPath(view, 'file:db.ts', 'file:db.ts')?.path).toEqual([]);
+
+		const back = findShortestPath(view, 'file:db.ts', 'file:app.ts', { direction: 'backward' });
+		expect(describePath(view, 'file:db.ts', back?.path ?? [])).toBe('db.ts <-[imports]- app.ts');
+	});
+
+	it('should list import chains in both directions', () => {
+		expect(ids(importChain(view, 'file:service.ts'))).toEqual(['1 repo.ts', '2 db.ts']);
+		expect(ids(importChain(view, 'file:db.ts', { direction: 'backward' }))).toEqual([
+			'1 app.ts',
+			'1 repo.ts',
+			'2 service.ts',
+		]);
+	});
+
+	it('should compute reachability from several nodes', () => {
+		const reached = reachableFrom(view, ['function:repo.ts:save', 'file:service.ts'], {
+			edgeTypes: ['calls', 'imports'],
+		});
+		expect([...reached].sort()).toEqual([
+			'file:db.ts',
+			'file:repo.ts',
+			'file:service.ts',
+			'function:db.ts:query',
+			'function:repo.ts:save',
+		]);
+		expect(reachableFrom(view, ['file:app.ts'], { maxDepth: 0 })).toEqual(new Set(['file:app.ts']));
+	});
+
+	describe('cycles', () => {
+		// a -> b -> c -> a, c -> d, d -> d
+		const cyclic = graphView({
+			nodes: ['a.ts', 'b.ts', 'c.ts', 'd.ts'].map(fileNode),
+			edges: [
+				edge('file:a.ts', 'file:b.ts', 'imports'),
+				edge('file:b.ts', 'file:c.ts', 'imports'),
+				edge('file:c.ts', 'file:a.ts', 'imports'),
+				edge('file:c.ts', 'file:d.ts', 'imports'),
+				edge('file:d.ts', 'file:d.ts', 'imports'),
+			],
+		});
+
+		it('should visit each node once however the walk goes around', () => {
+			for (const strategy of ['bfs', 'dfs'] as const) {
+				for (const direction of ['forward', 'backward', 'both'] as const) {
+					const hits = traverse(cyclic, 'file:a.ts', { strategy, direction });
+					expect(new Set(hits.map((hit) => hit.node.id)).size).toBe(hits.length);
+					expect(hits.some((hit) => hit.node.id === 'file:a.ts')).toBe(false);
+				}
+			}
+			expect(ids(importChain(cyclic, 'file:b.ts'))).toEqual(['1 c.ts', '2 a.ts', '2 d.ts']);
+			expect(reachableFrom(cyclic, ['file:d.ts'])).toEqual(new Set(['file:d.ts']));
+			expect(findShortestPath(cyclic, 'file:d.ts', 'file:a.ts')).toBeNull();
+			expect(findShortestPath(cyclic, 'file:c.ts', 'file:b.ts')?.depth).toBe(2);
+		});
+
+		it('should group nodes into strongly connected components', () => {
+			const successors = (id: string) => cyclic.index.outgoing(id).map((e) => e.target);
+			const components = stronglyConnectedComponents(cyclic.nodes.keys(), successors);
+
+			// Dependencies come out before the nodes depending on them
+			expect(components.map((component) => [...component].sort())).toEqual([
+				['file:d.ts'],
+				['file:a.ts', 'file:b.ts', 'file:c.ts'],
+			]);
+		});
+
+		it('should handle chains too deep to walk recursively', () => {
+			const length = 20000;
+			const successors = (id: string) => [String((Number(id) + 1) % length)];
+			const components = stronglyConnectedComponents(['0'], successors);
+			expect(components).toHaveLength(1);
+			expect(components[0]).toHaveLength(length);
+		});
+	});
+});
@@ -0,0 +1,105 @@
+import { rm, stat } from 'node:fs/promises';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { ensureDir, readJson, writeJson } from '../../utils/fs.ts';
+import type { IndexedFile } from '../fileIndexer.ts';
+import { hashContent, IndexManifest } from '../indexManifest.ts';
+
+describe('IndexManifest', () => {
+	const testDir = join(process.cwd(), '.test-index-manifest');
+	const dataDir = join(testDir, '.the-gap');
+
+	async function describeFile(name: string): Promise<IndexedFile> {
+		const path = join(testDir, name);
+		const info = await stat(path);
+		return { path, relativePath: name, size: info.size, mtime: info.mtimeMs };
+	}
+
+	async function recordAll(manifest: IndexManifest, files: IndexedFile[]): Promise<void> {
+		const diff = await manifest.diff(files);
+		for (const change of [...diff.added, ...diff.modified]) manifest.record(change);
+		for (const path of diff.removed) manifest.remove(path);
+	}
+
+	beforeEach(async () => {
+		await ensureDir(dataDir);
+		await Bun.write(join(testDir, 'a.ts'), 'export const a = 1;');
+		await Bun.write(join(testDir, 'b.ts'), 'export const b = 2;');
+	});
+
+	afterEach(async () => {
+		try {
+			await rm(testDir, { recursive: true, force: true });
+		} catch {
+			// Ignore cleanup errors
+		}
+	});
+
+	it('should report every file as added on first run', async () => {
+		const manifest = new IndexManifest(dataDir);
+		const diff = await manifest.diff([await describeFile('a.ts'), await describeFile('b.ts')]);
+
+		expect(diff.added).toHaveLength(2);
+		expect(diff.added[0]?.content).toBe('export const a = 1;');
+		expect(diff.added[0]?.hash).toBe(hashContent('export const a = 1;'));
+		expect(diff.modified).toHaveLength(0);
+		expect(diff.removed).toHaveLength(0);
+	});
+
+	it('should detect modified, removed and unchanged files after reload', async () => {
+		const manifest = new IndexManifest(dataDir);
+		await recordAll(manifest, [await describeFile('a.ts'), await describeFile('b.ts')]);
+		await manifest.save();
+
+		await Bun.write(join(testDir, 'a.ts'), 'export const a = 42;');
+
+		const reloaded = new IndexManifest(dataDir);
+		await reloaded.load();
+		expect(reloaded.size).toBe(2);
+
+		const diff = await reloaded.diff([await describeFile('a.ts')]);
+		expect(diff.modified.map((c) => c.file.relativePath)).toEqual(['a.ts']);
+		expect(diff.removed).toEqual([join(testDir, 'b.ts')]);
+		expect(diff.added).toHaveLength(0);
+	});
+
+	it('should treat a touched file with identical content as unchanged', async () => {
+		const manifest = new IndexManifest(dataDir);
+		const file = await describeFile('a.ts');
+		await recordAll(manifest, [file]);
+
+		const touched = { ...file, mtime: file.mtime + 1000 };
+		const diff = await manifest.diff([touched]);
+		expect(diff.unchanged).toHaveLength(1);
+		expect(diff.modified).toHaveLength(0);
+		expect(manifest.get(file.path)?.mtime).toBe(touched.mtime);
+	});
+
+	it('should discard entries written by another parser version', async () => {
+		const manifest = new IndexManifest(dataDir);
+		await recordAll(manifest, [await describeFile('a.ts')]);
+		await manifest.save();
+
+		const manifestPath = join(dataDir, 'manifest.json');
+		const data = await readJson<Record<string, unknown>>(manifestPath, {});
+		await writeJson(manifestPath, { ...data, parserVersion: 0 });
+
+		const reloaded = new IndexManifest(dataDir);
+		await reloaded.load();
+		expect(reloaded.size).toBe(0);
+	});
+
+	it('should discard entries written before the parser version was recorded', async () => {
+		const manifest = new IndexManifest(dataDir);
+		await recordAll(manifest, [await describeFile('a.ts')]);
+		await manifest.save();
+
+		const manifestPath = join(dataDir, 'manifest.json');
+		const { parserVersion: _, ...data } = await readJson<Record<string, unknown>>(manifestPath, {});
+		await writeJson(manifestPath, data);
+
+		const reloaded = new IndexManifest(dataDir);
+		await reloaded.load();
+		expect(reloaded.size).toBe(0);
+	});
+});
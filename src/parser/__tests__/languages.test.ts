@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { ParsingError } from '../../utils/errors.ts';
+import {
+	getLanguageParser,
+	parseSourceFile,
+	registerLanguageParser,
+	supportedExtensions,
+} from '../languages.ts';
+
+describe('language parsers', () => {
+	it('should pick a parser by file extension', () => {
+		expect(getLanguageParser('src/app.tsx')?.id).toBe('typescript');
+		expect(getLanguageParser('lib/app.mjs')?.id).toBe('typescript');
+		expect(getLanguageParser('pkg/models.py')?.id).toBe('python');
+		expect(getLanguageParser('README.md')).toBeUndefined();
+		expect(supportedExtensions()).toEqual(expect.arrayContaining(['.ts', '.js', '.py', '.pyi']));
+	});
+
+	it('should produce the same result shape for every language', () => {
+		const ts = parseSourceFile('a.ts', 'export function run() {}');
+		const py = parseSourceFile('a.py', 'def run():\n    pass\n');
+		expect(Object.keys(py).sort()).toEqual(Object.keys(ts).sort());
+		expect(py.symbols[0]).toMatchObject({ name: 'run', kind: 'function', exported: true });
+	});
+
+	it('should throw a ParsingError for unsupported files', () => {
+		expect(() => parseSourceFile('notes.txt', 'hello')).toThrow(ParsingError);
+	});
+
+	it('should accept additional parsers', () => {
+		registerLanguageParser({
+			id: 'text',
+			extensions: ['.txt'],
+			parse: () => ({ symbols: [], imports: [], calls: [], references: [], diagnostics: [] }),
+		});
+		expect(parseSourceFile('notes.txt', 'hello').symbols).toEqual([]);
+		expect(supportedExtensions()).toContain('.txt');
+	});
+});
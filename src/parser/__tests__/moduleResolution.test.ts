@@ -0,0 +1,137 @@
+import { rm } from 'node:fs/promises';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { writeJson } from '../../utils/fs.ts';
+import { GraphBuilder } from '../graphBuilder.ts';
+import {
+	pathMappingCandidates,
+	readPathMapping,
+	subpathMapCandidates,
+} from '../moduleResolution.ts';
+
+describe('moduleResolution', () => {
+	describe('pathMappingCandidates', () => {
+		const mapping = {
+			pathsBase: '/repo',
+			baseUrl: '/repo/src',
+			paths: {
+				'@/*': ['src/*'],
+				'@/utils/*': ['src/shared/utils/*', 'src/utils/*'],
+				config: ['src/config/index.ts'],
+			},
+		};
+
+		it('should prefer the longest matching wildcard prefix', () => {
+			expect(pathMappingCandidates(mapping, '@/utils/fs')).toEqual([
+				'/repo/src/shared/utils/fs',
+				'/repo/src/utils/fs',
+				'/repo/src/@/utils/fs',
+			]);
+		});
+
+		it('should match exact patterns and fall back to baseUrl', () => {
+			expect(pathMappingCandidates(mapping, 'config')[0]).toBe('/repo/src/config/index.ts');
+			expect(pathMappingCandidates(mapping, 'lib/date')).toEqual(['/repo/src/lib/date']);
+		});
+	});
+
+	describe('subpathMapCandidates', () => {
+		it('should resolve string and conditional exports for the package root', () => {
+			expect(subpathMapCandidates('/pkg', './index.js', '.')).toEqual(['/pkg/index.js']);
+			expect(
+				subpathMapCandidates('/pkg', { import: './esm.js', types: './index.d.ts' }, '.'),
+			).toEqual(['/pkg/esm.js']);
+		});
+
+		it('should resolve subpath patterns with source conditions first', () => {
+			const exportsMap = {
+				'.': './dist/index.js',
+				'./features/*': { default: './dist/features/*.js', source: './src/features/*.ts' },
+			};
+			expect(subpathMapCandidates('/pkg', exportsMap, './features/auth')).toEqual([
+				'/pkg/src/features/auth.ts',
+				'/pkg/dist/features/auth.js',
+			]);
+			expect(subpathMapCandidates('/pkg', exportsMap, './missing')).toEqual([]);
+		});
+
+		it('should resolve #internal imports', () => {
+			const importsMap = { '#internal/*': './src/internal/*.ts', '#db': './src/db.ts' };
+			expect(subpathMapCandidates('/pkg', importsMap, '#db')).toEqual(['/pkg/src/db.ts']);
+			expect(subpathMapCandidates('/pkg', importsMap, '#internal/cache')).toEqual([
+				'/pkg/src/internal/cache.ts',
+			]);
+		});
+	});
+
+	describe('with a project on disk', () => {
+		const originalCwd = process.cwd();
+		const testDir = join(originalCwd, '.test-module-resolution');
+
+		beforeEach(async () => {
+			process.chdir(originalCwd);
+			await Bun.write(
+				join(testDir, 'tsconfig.base.json'),
+				`{
+					// comments are allowed in tsconfig files
+					"compilerOptions": { "paths": { "@/*": ["./src/*"] } }
+				}`,
+			);
+			await writeJson(join(testDir, 'tsconfig.json'), { extends: './tsconfig.base.json' });
+			await writeJson(join(testDir, 'package.json'), {
+				name: 'app',
+				imports: { '#internal/*': './src/internal/*.ts' },
+			});
+			await Bun.write(join(testDir, 'src', 'utils', 'fs.ts'), 'export function readAll() {}');
+			await Bun.write(join(testDir, 'src', 'internal', 'cache.ts'), 'export const cache = 1;');
+			await Bun.write(join(testDir, 'src', 'lib', 'date.ts'), 'export function parse() {}');
+			await Bun.write(
+				join(testDir, 'src', 'main.ts'),
+				`import { readAll } from '@/utils/fs';
+import { cache } from '#internal/cache';
+import { parse } from './lib/date.js';
+
+export function main() {
+	readAll();
+	parse();
+}`,
+			);
+		});
+
+		afterEach(async () => {
+			process.chdir(originalCwd);
+			try {
+				await rm(testDir, { recursive: true, force: true });
+			} catch {
+				// Ignore cleanup errors
+			}
+		});
+
+		it('should read paths through extends chains', () => {
+			const mapping = readPathMapping(join(testDir, 'tsconfig.json'), testDir);
+			expect(mapping?.paths).toEqual({ '@/*': ['./src/*'] });
+			expect(mapping?.pathsBase).toBe(testDir);
+		});
+
+		it('should create import edges for aliases, subpath imports and .js specifiers', async () => {
+			process.chdir(testDir);
+			await writeJson(join('.the-gap', 'symbols.json'), [
+				{ filePath: 'src/main.ts' },
+				{ filePath: 'src/utils/fs.ts' },
+				{ filePath: 'src/internal/cache.ts' },
+				{ filePath: 'src/lib/date.ts' },
+			]);
+
+			const graph = await new GraphBuilder().buildCompleteGraph(process.cwd());
+			const targets = graph.edges
+				.filter((e) => e.type === 'imports' && e.source === 'file:src/main.ts')
+				.map((e) => e.target)
+				.sort();
+			expect(targets).toEqual([
+				'file:src/internal/cache.ts',
+				'file:src/lib/date.ts',
+				'file:src/utils/fs.ts',
+			]);
+		});
+	});
+});
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { type ParseTask, parseFilesInParallel } from '../parsePool.ts';
+
+function makeTasks(count: number): ParseTask[] {
+	return Array.from({ length: count }, (_, i) => ({
+		filePath: `src/file${i}.ts`,
+		content: `export function fn${i}() { helper${i}(); }\nexport class C${i} {}`,
+	}));
+}
+
+describe('parseFilesInParallel', () => {
+	it('should parse inline below the threshold', async () => {
+		const outcomes = await parseFilesInParallel(makeTasks(3));
+		expect(outcomes).toHaveLength(3);
+		expect(outcomes[1]?.filePath).toBe('src/file1.ts');
+		expect(outcomes[1]?.result?.symbols.map((s) => s.name)).toEqual(['fn1', 'C1']);
+	});
+
+	it('should return worker results in task order', async () => {
+		const tasks = makeTasks(20);
+		const outcomes = await parseFilesInParallel(tasks, { concurrency: 3, inlineThreshold: 0 });
+
+		expect(outcomes.map((o) => o.filePath)).toEqual(tasks.map((t) => t.filePath));
+		for (const [i, outcome] of outcomes.entries()) {
+			expect(outcome.error).toBeUndefined();
+			expect(outcome.result?.symbols[0]?.name).toBe(`fn${i}`);
+			expect(outcome.result?.calls[0]?.calleeName).toBe(`helper${i}`);
+		}
+	});
+
+	it('should report progress for every file', async () => {
+		const progress: number[] = [];
+		await parseFilesInParallel(makeTasks(5), {
+			concurrency: 2,
+			inlineThreshold: 0,
+			onProgress: (done, total) => {
+				expect(total).toBe(5);
+				progress.push(done);
+			},
+		});
+		expect(progress).toEqual([1, 2, 3, 4, 5]);
+	});
+});
@@ -0,0 +1,252 @@
+import { describe, expect, it } from 'vitest';
+import { parsePythonFile, pythonParser } from '../pyParser.ts';
+
+describe('Python Parser', () => {
+	const source = `"""Users module."""
+import os.path
+import numpy as np
+from . import views
+from .models import User, Base as B
+from ..util import (
+    helper,
+    other,
+)
+
+TEMPLATE = """
+def not_a_function():
+"""
+
+class Service(B, metaclass=Meta):
+    """Handles users.
+
+    More detail.
+    """
+    retries = 3
+
+    def __init__(self, repo, *args, **kwargs):
+        self.repo = repo
+        helper(repo)
+
+    @property
+    def name(self) -> str:
+        return "svc"  # call(ignored)
+
+    @name.setter
+    def name(self, value):
+        self._name = value
+
+    async def load(self, user_id: int = 0) -> User:
+        if (user_id):
+            return self.fetch(user_id)
+        def inner(x): return x
+        return inner(1)
+
+def run(): return Service()
+
+def _private():
+    pass
+`;
+
+	const result = parsePythonFile('src/app/service.py', source);
+	const symbol = (name: string, kind?: string) =>
+		result.symbols.find((s) => s.name === name && (!kind || s.kind === kind));
+
+	it('should extract classes, methods and nested functions with qualified names', () => {
+		expect(result.symbols.map((s) => `${s.kind} ${s.name}`)).toEqual([
+			'variable TEMPLATE',
+			'class Service',
+			'property Service.retries',
+			'constructor Service.__init__',
+			'getter Service.name',
+			'setter Service.name',
+			'function Service.load',
+			'function Service.load.inner',
+			'function run',
+			'function _private',
+		]);
+		expect(symbol('Service.load')?.parent).toBe('Service');
+		expect(symbol('Service.load.inner')?.parent).toBe('Service.load');
+	});
+
+	it('should mark top-level public names as exported', () => {
+		expect(symbol('Service')?.exported).toBe(true);
+		expect(symbol('run')?.exported).toBe(true);
+		expect(symbol('_private')?.exported).toBe(false);
+		expect(symbol('Service.load')?.exported).toBe(false);
+	});
+
+	it('should honor __all__', () => {
+		const { symbols } = parsePythonFile(
+			'm.py',
+			`__all__ = ["run"]\n\ndef run(): pass\n\ndef other(): pass\n`,
+		);
+		expect(symbols.map((s) => [s.name, s.exported])).toEqual([
+			['run', true],
+			['other', false],
+		]);
+	});
+
+	it('should record signatures, parameters, decorators and docstrings', () => {
+		const load = symbol('Service.load');
+		expect(load?.signature).toBe('async def load(self, user_id: int = 0) -> User');
+		expect(load?.parameters).toEqual([{ name: 'user_id', type: 'int', optional: true }]);
+		expect(load?.returnType).toBe('User');
+		expect(load?.modifiers).toEqual(['async']);
+		expect(symbol('Service.__init__')?.parameters).toEqual([
+			{ name: 'repo' },
+			{ name: 'args', rest: true },
+			{ name: 'kwargs', rest: true },
+		]);
+		expect(symbol('Service.name', 'getter')?.decorators).toEqual(['property']);
+		expect(symbol('Service')?.doc?.summary).toBe('Handles users.');
+	});
+
+	it('should compute ranges from indentation, including decorators', () => {
+		const service = symbol('Service');
+		expect(service?.line).toBe(15);
+		expect(service?.endLine).toBe(38);
+		expect(service?.body?.line).toBe(16);
+		const getter = symbol('Service.name', 'getter');
+		expect(getter?.line).toBe(26);
+		expect(getter?.endLine).toBe(28);
+		expect(source.slice(getter?.start, getter?.end)).toMatch(/^@property\n/);
+		expect(symbol('run')?.line).toBe(40);
+		expect(symbol('run')?.endLine).toBe(40);
+	});
+
+	it('should extract plain, aliased, relative and parenthesized imports', () => {
+		expect(result.imports).toEqual([
+			{
+				importedName: 'os',
+				modulePath: 'os.path',
+				filePath: 'src/app/service.py',
+				isNamespace: true,
+				line: 2,
+			},
+			{
+				importedName: 'np',
+				modulePath: 'numpy',
+				filePath: 'src/app/service.py',
+				isNamespace: true,
+				line: 3,
+			},
+			{
+				importedName: 'views',
+				modulePath: '.views',
+				filePath: 'src/app/service.py',
+				isNamespace: true,
+				line: 4,
+			},
+			{ importedName: 'User', modulePath: '.models', filePath: 'src/app/service.py', line: 5 },
+			{
+				importedName: 'Base',
+				modulePath: '.models',
+				filePath: 'src/app/service.py',
+				alias: 'B',
+				line: 5,
+			},
+			{ importedName: 'helper', modulePath: '..util', filePath: 'src/app/service.py', line: 6 },
+			{ importedName: 'other', modulePath: '..util', filePath: 'src/app/service.py', line: 6 },
+		]);
+	});
+
+	it('should extract calls, mapping self calls to the class', () => {
+		expect(result.calls.map((c) => [c.callerFunction, c.calleeName])).toEqual([
+			['Service.__init__', 'helper'],
+			['Service.load', 'Service.fetch'],
+			['Service.load', 'inner'],
+			['run', 'Service'],
+		]);
+	});
+
+	it('should record class bases as extends references', () => {
+		expect(result.references).toEqual([
+			{
+				kind: 'extends',
+				fromSymbol: 'Service',
+				targetName: 'B',
+				filePath: 'src/app/service.py',
+				line: 15,
+			},
+		]);
+	});
+
+	it('should resolve relative and absolute module candidates', () => {
+		const root = '/repo';
+		expect(pythonParser.moduleCandidates?.('.models', '/repo/pkg/app.py', root)).toEqual([
+			'/repo/pkg/models',
+		]);
+		expect(pythonParser.moduleCandidates?.('..util.text', '/repo/pkg/sub/a.py', root)).toEqual([
+			'/repo/pkg/util/text',
+		]);
+		expect(pythonParser.moduleCandidates?.('pkg.models', '/repo/pkg/app.py', root)).toEqual([
+			'/repo/pkg/models',
+			'/repo/src/pkg/models',
+			'/repo/pkg/pkg/models',
+		]);
+	});
+
+	it('should report unbalanced brackets as diagnostics', () => {
+		expect(result.diagnostics).toEqual([]);
+		const broken = parsePythonFile('b.py', 'def run():\n    pass\n\nx = [1, 2\n');
+		expect(broken.diagnostics).toEqual([{ message: "'[' was never closed", line: 4, column: 5 }]);
+		const mismatched = parsePythonFile('c.py', 'x = (1, 2]\n');
+		expect(mismatched.diagnostics).toEqual([{ message: "Unmatched ']'", line: 1, column: 10 }]);
+	});
+
+	it('should measure function complexity and nesting from indentation', () => {
+		const { symbols } = parsePythonFile(
+			'metrics.py',
+			`def run(items, strict=False):
+    if items and strict:
+        for item in items:
+            if item:
+                return [x for x in item if x]
+    elif strict:
+        pass
+    else:
+        try:
+            pass
+        except ValueError:
+            return None
+    return 0
+`,
+		);
+		expect(symbols[0]?.metrics).toEqual({ complexity: 9, nesting: 3, lines: 13, parameters: 2 });
+		expect(symbol('Service')?.metrics).toBeUndefined();
+		expect(symbol('Service.name', 'getter')?.metrics).toEqual({
+			complexity: 1,
+			nesting: 0,
+			lines: 3,
+			parameters: 0,
+		});
+	});
+
+	it('should record test functions and test classes in test files', () => {
+		const source = `from app.store import Store
+
+def helper():
+    return Store()
+
+def test_save():
+    helper().save()
+
+class TestStore:
+    def test_load(self):
+        Store().load()
+
+    def setup_method(self):
+        pass
+`;
+		const kinds = (filePath: string) =>
+			parsePythonFile(filePath, source).symbols.map((s) => `${s.kind} ${s.name}`);
+		expect(kinds('tests/test_store.py')).toEqual([
+			'function helper',
+			'test test_save',
+			'suite TestStore',
+			'test TestStore.test_load',
+			'function TestStore.setup_method',
+		]);
+		expect(kinds('app/store.py')).toContain('function test_save');
+	});
+});
@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { isTestFile } from '../testFiles.ts';
+
+describe('isTestFile', () => {
+	it('should recognize test file conventions', () => {
+		expect(isTestFile('src/parser/__tests__/graphBuilder.test.ts')).toBe(true);
+		expect(isTestFile('src/parser/__tests__/helpers.ts')).toBe(true);
+		expect(isTestFile('src/store.spec.tsx')).toBe(true);
+		expect(isTestFile('lib/store.test.mjs')).toBe(true);
+		expect(isTestFile('tests/test_store.py')).toBe(true);
+		expect(isTestFile('app/store_test.py')).toBe(true);
+		expect(isTestFile('C:\\repo\\src\\__tests__\\a.ts')).toBe(true);
+	});
+
+	it('should leave source files alone', () => {
+		expect(isTestFile('src/parser/testFiles.ts')).toBe(false);
+		expect(isTestFile('src/contest.ts')).toBe(false);
+		expect(isTestFile('app/testing.py')).toBe(false);
+	});
+});
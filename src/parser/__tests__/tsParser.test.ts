@@ -1,5 +1,10 @@
 import { describe, expect, it } from 'vitest';
-import { parseFileComplete, parseFileSymbols } from '../tsParser.ts';
+import {
+	extractSymbolSource,
+	formatLocation,
+	parseFileComplete,
+	parseFileSymbols,
+} from '../tsParser.ts';
 
 describe('TypeScript Parser', () => {
 	describe('parseFileSymbols', () => {
@@ -127,4 +132,522 @@ describe('TypeScript Parser', () => {
 			expect(methods[1].name).toBe('MyClass.method2');
 		});
 	});
+
+	describe('symbol metadata', () => {
+		it('should capture signature, parameters, return type and JSDoc', () => {
+			const source = `
+				/**
+				 * Parse an ISO date string.
+				 *
+				 * Longer explanation that is not part of the summary.
+				 * @param input - the raw string
+				 * @returns the parsed date
+				 */
+				export async function parseDate(input: string, strict?: boolean): Promise<Date> {
+					return new Date(input);
+				}
+			`;
+
+			const [symbol] = parseFileSymbols('test.ts', source);
+			expect(symbol?.signature).toBe(
+				'export async function parseDate(input: string, strict?: boolean): Promise<Date>',
+			);
+			expect(symbol?.parameters).toEqual([
+				{ name: 'input', type: 'string' },
+				{ name: 'strict', type: 'boolean', optional: true },
+			]);
+			expect(symbol?.returnType).toBe('Promise<Date>');
+			expect(symbol?.modifiers).toEqual(['async']);
+			expect(symbol?.doc?.summary).toBe('Parse an ISO date string.');
+			expect(symbol?.doc?.tags).toEqual([
+				{ name: 'param', text: 'input the raw string' },
+				{ name: 'returns', text: 'the parsed date' },
+			]);
+		});
+
+		it('should capture arrow function signatures and modifiers', () => {
+			const source = `
+				/** Format a date for display */
+				export const formatDate = async (date: Date, ...parts: string[]): Promise<string> => {
+					return '';
+				};
+			`;
+
+			const [symbol] = parseFileSymbols('test.ts', source);
+			expect(symbol?.signature).toBe(
+				'const formatDate = async (date: Date, ...parts: string[]): Promise<string> =>',
+			);
+			expect(symbol?.parameters?.[1]).toEqual({ name: 'parts', type: 'string[]', rest: true });
+			expect(symbol?.modifiers).toEqual(['async']);
+			expect(symbol?.doc?.summary).toBe('Format a date for display');
+		});
+
+		it('should capture class headers, decorators and method modifiers', () => {
+			const source = `
+				@Injectable({ scope: 'singleton' })
+				export abstract class DateService extends BaseService implements Parser {
+					static create(): DateService {
+						return null as never;
+					}
+				}
+			`;
+
+			const symbols = parseFileSymbols('test.ts', source);
+			const cls = symbols.find((s) => s.kind === 'class');
+			expect(cls?.signature).toBe(
+				'export abstract class DateService extends BaseService implements Parser',
+			);
+			expect(cls?.decorators).toEqual(["Injectable({ scope: 'singleton' })"]);
+			expect(cls?.modifiers).toEqual(['abstract']);
+
+			const method = symbols.find((s) => s.name === 'DateService.create');
+			expect(method?.signature).toBe('static create(): DateService');
+			expect(method?.modifiers).toEqual(['static']);
+			expect(method?.returnType).toBe('DateService');
+		});
+	});
+
+	describe('symbol locations', () => {
+		const source = `// Date helpers
+
+/** Shift a date */
+export function addDays(date: Date, days: number): Date {
+	return new Date(date.getTime() + days * 86400000);
+}
+
+export const double = (n: number) => n * 2;
+
+export class Calendar {
+	today(): Date {
+		return new Date();
+	}
+}
+`;
+
+		it('should exclude leading comments and trivia from the range', () => {
+			const symbol = parseFileSymbols('dates.ts', source).find((s) => s.name === 'addDays');
+			expect(symbol).toMatchObject({ line: 4, column: 1, endLine: 6, endColumn: 2 });
+			expect(symbol && formatLocation(symbol)).toBe('dates.ts:4:1');
+			expect(symbol && extractSymbolSource(source, symbol)).toBe(
+				'export function addDays(date: Date, days: number): Date {\n\treturn new Date(date.getTime() + days * 86400000);\n}',
+			);
+		});
+
+		it('should record body ranges for functions, arrows and classes', () => {
+			const symbols = parseFileSymbols('dates.ts', source);
+			const fn = symbols.find((s) => s.name === 'addDays');
+			expect(fn && extractSymbolSource(source, fn, 'body')).toMatch(/^\{\n\treturn .*\n\}$/);
+			expect(fn?.body).toMatchObject({ line: 4, endLine: 6 });
+
+			const arrow = symbols.find((s) => s.name === 'double');
+			expect(arrow?.line).toBe(8);
+			expect(arrow && extractSymbolSource(source, arrow, 'body')).toBe('n * 2');
+
+			const cls = symbols.find((s) => s.name === 'Calendar');
+			expect(cls?.body).toMatchObject({ line: 10, endLine: 14 });
+			const method = symbols.find((s) => s.name === 'Calendar.today');
+			expect(method).toMatchObject({ line: 11, column: 2, endLine: 13 });
+		});
+	});
+
+	describe('declaration coverage', () => {
+		it('should capture class members with their class as parent', () => {
+			const source = `
+				export class Store {
+					private items: string[] = [];
+					onChange = (item: string) => this.items.push(item);
+
+					constructor(private readonly name: string) {}
+
+					get size(): number {
+						return this.items.length;
+					}
+
+					set size(value: number) {}
+
+					#reset() {}
+				}
+			`;
+
+			const members = parseFileSymbols('store.ts', source).filter((s) => s.parent === 'Store');
+			expect(members.map((s) => [s.kind, s.name])).toEqual([
+				['property', 'Store.items'],
+				['function', 'Store.onChange'],
+				['constructor', 'Store.constructor'],
+				['getter', 'Store.size'],
+				['setter', 'Store.size'],
+				['function', 'Store.#reset'],
+			]);
+		});
+
+		it('should capture enums, namespaces and their members', () => {
+			const source = `
+				export enum Color { Red, Green }
+
+				export namespace Geometry.Shapes {
+					export function area() {}
+					const unit = 1;
+				}
+
+				declare module 'virtual:config' {
+					export const value: string;
+				}
+			`;
+
+			const symbols = parseFileSymbols('geo.ts', source);
+			expect(symbols.map((s) => [s.kind, s.name, s.parent])).toEqual([
+				['enum', 'Color', undefined],
+				['namespace', 'Geometry', undefined],
+				['namespace', 'Geometry.Shapes', 'Geometry'],
+				['function', 'Geometry.Shapes.area', 'Geometry.Shapes'],
+				['variable', 'Geometry.Shapes.unit', 'Geometry.Shapes'],
+				['namespace', 'virtual:config', undefined],
+				['variable', 'virtual:config.value', 'virtual:config'],
+			]);
+			expect(symbols[0]?.exported).toBe(true);
+		});
+
+		it('should capture object-literal methods, function expressions and nested functions', () => {
+			const source = `
+				export const api = {
+					load() {
+						helper();
+					},
+					save: async (data: string) => {},
+					version: 2,
+				};
+
+				const legacy = function (a: number) {
+					return a;
+				};
+
+				function outer() {
+					const count = 0;
+					function inner() {}
+					const step = () => inner();
+				}
+			`;
+
+			const result = parseFileComplete('api.ts', source);
+			expect(result.symbols.map((s) => [s.kind, s.name])).toEqual([
+				['variable', 'api'],
+				['function', 'api.load'],
+				['function', 'api.save'],
+				['function', 'legacy'],
+				['function', 'outer'],
+				['function', 'outer.inner'],
+				['function', 'outer.step'],
+			]);
+			expect(result.symbols[3]?.signature).toBe('const legacy = function (a: number)');
+			expect(result.calls.map((c) => [c.callerFunction, c.calleeName])).toEqual([
+				['api.load', 'helper'],
+				['outer.step', 'inner'],
+			]);
+		});
+
+		it('should capture anonymous default exports', () => {
+			expect(parseFileSymbols('a.ts', 'export default function () {}')[0]).toMatchObject({
+				kind: 'function',
+				name: 'default',
+				exported: true,
+			});
+			expect(parseFileSymbols('b.ts', 'export default class {}')[0]).toMatchObject({
+				kind: 'class',
+				name: 'default',
+			});
+			expect(parseFileSymbols('c.ts', 'export default (x: number) => x;')[0]).toMatchObject({
+				kind: 'function',
+				name: 'default',
+				signature: 'export default (x: number) =>',
+			});
+		});
+	});
+
+	describe('import forms', () => {
+		it('should flag type-only and aliased imports', () => {
+			const source = `
+				import type { Config } from './config';
+				import { type Options, load as loadConfig } from './loader';
+			`;
+
+			const { imports } = parseFileComplete('a.ts', source);
+			expect(imports).toEqual([
+				expect.objectContaining({ importedName: 'Config', typeOnly: true }),
+				expect.objectContaining({ importedName: 'Options', typeOnly: true }),
+				expect.objectContaining({ importedName: 'load', alias: 'loadConfig' }),
+			]);
+			expect(imports[2]?.typeOnly).toBeUndefined();
+		});
+
+		it('should capture re-exports', () => {
+			const source = `
+				export * from './a';
+				export * as helpers from './helpers';
+				export { parse, format as formatDate } from './dates';
+				export type { Options } from './options';
+				export { local };
+			`;
+
+			const { imports } = parseFileComplete('index.ts', source);
+			expect(imports.map((i) => [i.importedName, i.modulePath, i.alias, i.typeOnly])).toEqual([
+				['*', './a', undefined, undefined],
+				['*', './helpers', 'helpers', undefined],
+				['parse', './dates', undefined, undefined],
+				['format', './dates', 'formatDate', undefined],
+				['Options', './options', undefined, true],
+			]);
+			expect(imports.every((i) => i.reExport)).toBe(true);
+		});
+
+		it('should capture dynamic imports and require calls', () => {
+			const source = `
+				import fs = require('node:fs');
+				const path = require('node:path');
+
+				export async function start() {
+					const { runTUI } = await import('./tui.tsx');
+					await import(\`./plugins/\${name}\`);
+				}
+			`;
+
+			const { imports } = parseFileComplete('cli.ts', source);
+			expect(imports).toEqual([
+				expect.objectContaining({ importedName: 'fs', modulePath: 'node:fs', commonJs: true }),
+				expect.objectContaining({ importedName: '*', modulePath: 'node:path', commonJs: true }),
+				expect.objectContaining({ importedName: '*', modulePath: './tui.tsx', dynamic: true }),
+			]);
+		});
+
+		it('should capture files loaded through URLs relative to the module', () => {
+			const source = `
+				const worker = new Worker(new URL('./parseWorker.ts', import.meta.url));
+				const logo = new URL('https://example.com/logo.png');
+				const other = new URL('./data.json', base);
+			`;
+
+			const { imports } = parseFileComplete('pool.ts', source);
+			expect(imports).toEqual([
+				{
+					importedName: '*',
+					modulePath: './parseWorker.ts',
+					filePath: 'pool.ts',
+					dynamic: true,
+					line: 2,
+				},
+			]);
+		});
+
+		it('should capture side-effect imports', () => {
+			const { imports } = parseFileComplete('setup.ts', `import './polyfills';\nimport 'reflect';`);
+			expect(imports).toEqual([
+				{
+					importedName: '*',
+					modulePath: './polyfills',
+					filePath: 'setup.ts',
+					sideEffect: true,
+					line: 1,
+				},
+				{
+					importedName: '*',
+					modulePath: 'reflect',
+					filePath: 'setup.ts',
+					sideEffect: true,
+					line: 2,
+				},
+			]);
+		});
+	});
+
+	describe('type references', () => {
+		it('should capture heritage clauses, type annotations and instantiations', () => {
+			const source = `
+				import type { Embedder } from './embedder';
+
+				export class CachedEmbedder extends BaseEmbedder<Vector> implements Embedder {
+					private store = new Map<string, Vector>();
+
+					embed(texts: string[]): Promise<Vector[]> {
+						return new ts.Thing();
+					}
+				}
+
+				interface Options extends Partial<Config> {}
+			`;
+
+			const { references } = parseFileComplete('cache.ts', source);
+			expect(references.map((r) => [r.kind, r.fromSymbol, r.targetName])).toEqual([
+				['extends', 'CachedEmbedder', 'BaseEmbedder'],
+				['references-type', 'CachedEmbedder', 'Vector'],
+				['implements', 'CachedEmbedder', 'Embedder'],
+				['instantiates', 'CachedEmbedder.store', 'Map'],
+				['references-type', 'CachedEmbedder.store', 'Vector'],
+				['references-type', 'CachedEmbedder.embed', 'Promise'],
+				['references-type', 'CachedEmbedder.embed', 'Vector'],
+				['instantiates', 'CachedEmbedder.embed', 'ts.Thing'],
+				['extends', 'Options', 'Partial'],
+				['references-type', 'Options', 'Config'],
+			]);
+			expect(references[2]?.line).toBe(4);
+		});
+	});
+
+	describe('value references', () => {
+		it('should capture reads of functions and constants declared in the file', () => {
+			const source = `
+				import { external } from './lib';
+
+				const LIMITS = [1, 2];
+
+				function byName(a: string, b: string) {
+					return a.localeCompare(b);
+				}
+
+				export function sorted(names: string[], limit = LIMITS[0]) {
+					byName('a', 'b');
+					return names.sort(byName).map(external).slice(0, limit);
+				}
+			`;
+
+			const { references } = parseFileComplete('sort.ts', source);
+			expect(references.map((r) => [r.kind, r.fromSymbol, r.targetName])).toEqual([
+				['references', 'sorted', 'LIMITS'],
+				['references', 'sorted', 'byName'],
+			]);
+		});
+	});
+
+	describe('syntax diagnostics', () => {
+		it('should report no diagnostics for valid code', () => {
+			expect(parseFileComplete('ok.ts', 'export const x = 1;').diagnostics).toEqual([]);
+		});
+
+		it('should report syntax errors with their location and keep recovered symbols', () => {
+			const result = parseFileComplete(
+				'broken.ts',
+				'export function ok() {}\n\nexport function bad(a: string {\n\treturn a;\n}\n',
+			);
+			expect(result.diagnostics[0]).toEqual({
+				message: "',' expected.",
+				line: 3,
+				column: 31,
+				code: 1005,
+			});
+			expect(result.symbols.map((s) => s.name)).toContain('ok');
+		});
+	});
+
+	describe('function metrics', () => {
+		it('should measure complexity, nesting, lines and parameters', () => {
+			const { symbols } = parseFileComplete(
+				'metrics.ts',
+				`export function run(a: number, b?: string) {
+	if (a > 1 && b) {
+		for (const x of [a]) {
+			if (x) return x ?? 0;
+		}
+	} else if (a) {
+		return a ? 1 : 2;
+	}
+	const inner = () => {
+		if (a) {
+			if (b) return 1;
+		}
+	};
+	return inner();
+}`,
+			);
+			expect(symbols.find((s) => s.name === 'run')?.metrics).toEqual({
+				complexity: 8,
+				nesting: 3,
+				lines: 15,
+				parameters: 2,
+			});
+			// Nested functions are measured on their own
+			expect(symbols.find((s) => s.name === 'run.inner')?.metrics).toEqual({
+				complexity: 3,
+				nesting: 2,
+				lines: 5,
+				parameters: 0,
+			});
+		});
+
+		it('should only measure declarations with a body', () => {
+			const { symbols } = parseFileComplete(
+				'metrics.ts',
+				`interface Api { load(): void }
+declare function external(a: string): void;
+class Store {
+	private items: string[] = [];
+	size = () => this.items.length;
+}`,
+			);
+			expect(symbols.filter((s) => s.metrics).map((s) => s.name)).toEqual(['Store.size']);
+		});
+	});
+
+	describe('test blocks', () => {
+		const source = `import { Store } from '../store';
+
+describe('Store', () => {
+	let store: Store;
+	beforeEach(() => {
+		store = createStore();
+	});
+
+	it('saves', async () => {
+		await store.save('x');
+	});
+
+	describe.skip('loading', () => {
+		it.each([1, 2])('loads %i', (n) => {
+			load(n);
+		});
+	});
+});
+
+test('standalone', () => {});
+`;
+
+		it('should record suites and cases in test files and attribute calls to them', () => {
+			const result = parseFileComplete('src/__tests__/store.test.ts', source);
+			expect(result.symbols.map((s) => `${s.kind} ${s.name}`)).toEqual([
+				'suite Store',
+				'test Store.saves',
+				'suite Store.loading',
+				'test Store.loading.loads %i',
+				'test standalone',
+			]);
+			expect(result.symbols[1]?.signature).toBe("it('saves', async () =>");
+			expect(result.calls.map((c) => [c.callerFunction, c.calleeName])).toEqual([
+				['Store', 'beforeEach'],
+				['Store', 'createStore'],
+				['Store.saves', 'store.save'],
+				['Store.loading.loads %i', 'it.each'],
+				['Store.loading.loads %i', 'load'],
+			]);
+		});
+
+		it('should number repeated titles and keep dots in titles', () => {
+			const result = parseFileComplete(
+				'src/__tests__/paths.test.ts',
+				`describe('paths', () => {
+	it('handles a.b', () => {});
+	it('handles a.b', () => {});
+	it('handles a.b', () => {});
+});`,
+			);
+			expect(result.symbols.map((s) => [s.name, s.parent])).toEqual([
+				['paths', undefined],
+				['paths.handles a.b', 'paths'],
+				['paths.handles a.b #2', 'paths'],
+				['paths.handles a.b #3', 'paths'],
+			]);
+		});
+
+		it('should treat describe and it as ordinary calls outside test files', () => {
+			const result = parseFileComplete('src/store.ts', source);
+			expect(result.symbols).toEqual([]);
+			expect(result.calls.map((c) => c.calleeName)).toContain('describe');
+		});
+	});
 });
@@ -0,0 +1,117 @@
+import { rm } from 'node:fs/promises';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { writeJson } from '../../utils/fs.ts';
+import { GraphBuilder } from '../graphBuilder.ts';
+import { discoverWorkspace, findPackageForFile, workspaceImportCandidates } from '../workspace.ts';
+
+describe('workspace', () => {
+	const originalCwd = process.cwd();
+	const testDir = join(originalCwd, '.test-workspace');
+
+	beforeEach(async () => {
+		process.chdir(originalCwd);
+		await writeJson(join(testDir, 'package.json'), {
+			name: 'acme-monorepo',
+			private: true,
+			workspaces: ['packages/*', '!packages/ignored'],
+		});
+		await writeJson(join(testDir, 'packages', 'core', 'package.json'), {
+			name: '@acme/core',
+			main: './dist/index.js',
+		});
+		await writeJson(join(testDir, 'packages', 'app', 'package.json'), { name: '@acme/app' });
+		await writeJson(join(testDir, 'packages', 'ignored', 'package.json'), { name: 'ignored' });
+		await Bun.write(
+			join(testDir, 'tsconfig.json'),
+			`{
+				// project references may point at directories without package.json
+				"references": [{ "path": "./tools/scripts" }]
+			}`,
+		);
+		await Bun.write(join(testDir, 'tools', 'scripts', 'tsconfig.json'), '{}');
+		await Bun.write(
+			join(testDir, 'packages', 'core', 'src', 'index.ts'),
+			'export function formatDate() {}',
+		);
+		await Bun.write(
+			join(testDir, 'packages', 'core', 'src', 'date.ts'),
+			'export function parseDate() {}',
+		);
+		await Bun.write(
+			join(testDir, 'packages', 'app', 'src', 'main.ts'),
+			`import { formatDate } from '@acme/core';
+import { parseDate } from '@acme/core/date';
+import { readFile } from 'node:fs/promises';
+
+export function main() {
+	formatDate();
+	parseDate();
+}`,
+		);
+	});
+
+	afterEach(async () => {
+		process.chdir(originalCwd);
+		try {
+			await rm(testDir, { recursive: true, force: true });
+		} catch {
+			// Ignore cleanup errors
+		}
+	});
+
+	describe('discoverWorkspace', () => {
+		it('should find workspace packages, project references and the root package', async () => {
+			const layout = await discoverWorkspace(testDir);
+			const names = layout.packages.map((p) => p.name).sort();
+			expect(names).toEqual(['@acme/app', '@acme/core', 'acme-monorepo', 'scripts']);
+		});
+
+		it('should map files to their innermost package', async () => {
+			const layout = await discoverWorkspace(testDir);
+			const file = join(testDir, 'packages', 'core', 'src', 'index.ts');
+			expect(findPackageForFile(layout, file)?.name).toBe('@acme/core');
+			expect(findPackageForFile(layout, join(testDir, 'README.md'))?.name).toBe('acme-monorepo');
+		});
+	});
+
+	describe('workspaceImportCandidates', () => {
+		it('should map package entry points back to source', async () => {
+			const layout = await discoverWorkspace(testDir);
+			const candidates = workspaceImportCandidates(layout, '@acme/core');
+			expect(candidates).toContain(join(testDir, 'packages', 'core', 'src', 'index.js'));
+			expect(candidates).toContain(join(testDir, 'packages', 'core', 'src', 'index'));
+		});
+
+		it('should ignore packages outside the workspace', async () => {
+			const layout = await discoverWorkspace(testDir);
+			expect(workspaceImportCandidates(layout, 'react')).toEqual([]);
+		});
+	});
+
+	describe('GraphBuilder integration', () => {
+		it('should create import edges across workspace packages', async () => {
+			process.chdir(testDir);
+			await writeJson(join('.the-gap', 'symbols.json'), [
+				{ filePath: 'packages/app/src/main.ts' },
+				{ filePath: 'packages/core/src/index.ts' },
+				{ filePath: 'packages/core/src/date.ts' },
+			]);
+
+			const graph = await new GraphBuilder().buildCompleteGraph(process.cwd());
+			const imports = graph.edges
+				.filter((e) => e.type === 'imports')
+				.map((e) => `${e.source} -> ${e.target}`)
+				.sort();
+			expect(imports).toEqual([
+				'file:packages/app/src/main.ts -> file:packages/core/src/date.ts',
+				'file:packages/app/src/main.ts -> file:packages/core/src/index.ts',
+			]);
+
+			const mainFile = graph.nodes.find((n) => n.id === 'file:packages/app/src/main.ts');
+			expect(mainFile?.package).toBe('@acme/app');
+			const formatDate = graph.nodes.find((n) => n.label === 'formatDate');
+			expect(formatDate?.package).toBe('@acme/core');
+		});
+	});
+});
@@ -0,0 +1,119 @@
+import { dirname, resolve } from 'node:path';
+import ts from 'typescript';
+
+export type ResolvedCall = {
+	/** Absolute path of the calling file */
+	filePath: string;
+	/** Offset of the call expression */
+	position: number;
+	/** Absolute path of the file declaring the callee */
+	targetFile: string;
+	/** Offset of the callee's declaration, where the parser starts its symbol */
+	targetPosition: number;
+};
+
+/**
+ * Create a `ts.Program` over the given files, using the compiler options of
+ * the project's tsconfig when there is one
+ */
+export function createProjectProgram(projectRoot: string, files: string[]): ts.Program {
+	let options: ts.CompilerOptions = {};
+	const configPath = ts.findConfigFile(projectRoot, ts.sys.fileExists, 'tsconfig.json');
+	if (configPath) {
+		const { config } = ts.readConfigFile(configPath, ts.sys.readFile);
+		options = ts.parseJsonConfigFileContent(config ?? {}, ts.sys, dirname(configPath)).options;
+	}
+	return ts.createProgram({
+		rootNames: files,
+		options: { ...options, allowJs: true, noEmit: true },
+	});
+}
+
+/**
+ * Resolve every call expression in `files` to the declaration of the function
+ * or method it invokes. Unlike name matching, this follows aliased imports,
+ * re-exports, `this.method()` and method calls on typed receivers.
+ */
+export function resolveCallsWithTypeChecker(program: ts.Program, files: string[]): ResolvedCall[] {
+	const checker = program.getTypeChecker();
+	const calls: ResolvedCall[] = [];
+
+	for (const filePath of files) {
+		const sourceFile = program.getSourceFile(filePath);
+		if (!sourceFile) continue;
+
+		const visit = (node: ts.Node): void => {
+			if (ts.isCallExpression(node)) {
+				const declaration = calleeDeclaration(checker, node);
+				const target = declaration && symbolNode(declaration);
+				if (target) {
+					calls.push({
+						filePath,
+						position: node.getStart(sourceFile),
+						targetFile: resolve(target.getSourceFile().fileName),
+						targetPosition: target.getStart(),
+					});
+				}
+			}
+			ts.forEachChild(node, visit);
+		};
+		visit(sourceFile);
+	}
+
+	return calls;
+}
+
+function calleeDeclaration(
+	checker: ts.TypeChecker,
+	call: ts.CallExpression,
+): ts.Declaration | undefined {
+	const signature = checker.getResolvedSignature(call);
+	if (signature?.declaration && !ts.isJSDocSignature(signature.declaration)) {
+		return signature.declaration;
+	}
+
+	// Untyped callees have no signature: fall back to the symbol the name refers to
+	const callee = ts.isPropertyAccessExpression(call.expression)
+		? call.expression.name
+		: call.expression;
+	let symbol = checker.getSymbolAtLocation(callee);
+	if (symbol && symbol.flags & ts.SymbolFlags.Alias) {
+		symbol = checker.getAliasedSymbol(symbol);
+	}
+	return symbol?.valueDeclaration ?? symbol?.declarations?.[0];
+}
+
+/**
+ * The node the parser records a symbol for when `declaration` is a named
+ * function: the declaration itself, or what a function value is bound to.
+ * Parameters, signatures, type literals and anonymous closures have none.
+ */
+function symbolNode(declaration: ts.Declaration): ts.Node | undefined {
+	if (
+		ts.isFunctionDeclaration(declaration) ||
+		ts.isMethodDeclaration(declaration) ||
+		ts.isConstructorDeclaration(declaration) ||
+		ts.isGetAccessorDeclaration(declaration) ||
+		ts.isSetAccessorDeclaration(declaration)
+	) {
+		return declaration;
+	}
+	// The untyped fallback lands on the variable rather than its value
+	const value =
+		ts.isVariableDeclaration(declaration) && declaration.initializer
+			? declaration.initializer
+			: declaration;
+	if (!ts.isArrowFunction(value) && !ts.isFunctionExpression(value)) return undefined;
+	const owner = value.parent;
+	if (ts.isVariableDeclaration(owner) && ts.isVariableStatement(owner.parent.parent)) {
+		return owner.parent.parent;
+	}
+	if (
+		ts.isPropertyAssignment(owner) ||
+		ts.isPropertyDeclaration(owner) ||
+		ts.isExportAssignment(owner)
+	) {
+		return owner;
+	}
+	return undefined;
+}
@@ -1,41 +1,160 @@
-import { join } from 'node:path';
+import type { Dirent } from 'node:fs';
+import { readdir, realpath, stat } from 'node:fs/promises';
+import { join, relative, sep } from 'node:path';
+import { compileIgnorePatterns, type IgnoreRule, isIgnored } from './ignoreRules.ts';
+import { supportedExtensions } from './languages.ts';
+import { findPackageForFile, type WorkspaceLayout } from './workspace.ts';
 
 export type IndexedFile = {
 	path: string;
+	relativePath: string;
 	size: number;
+	mtime: number;
+	/** Workspace package the file belongs to, when a workspace layout was given */
+	package?: string;
 };
 
-export async function indexProjectFiles(rootDir: string): Promise<IndexedFile[]> {
+export type IndexOptions = {
+	/** File extensions to collect (including the leading dot); defaults to every registered language */
+	extensions?: string[];
+	/** Follow symbolic links to files and directories (cycles are skipped) */
+	followSymlinks?: boolean;
+	/** Honor .gitignore files in addition to .the-gapignore */
+	respectGitignore?: boolean;
+	/** Extra exclude patterns in .gitignore syntax, relative to the root */
+	exclude?: string[];
+	/** Monorepo layout: package roots outside rootDir are walked too, files are tagged */
+	workspace?: WorkspaceLayout;
+};
+
+export const DEFAULT_EXCLUDES = [
+	'node_modules/',
+	'dist/',
+	'.the-gap/',
+	'.git/',
+	'__pycache__/',
+	'.venv/',
+	'venv/',
+];
+
+const IGNORE_FILES = ['.gitignore', '.the-gapignore'];
+
+export async function indexProjectFiles(
+	rootDir: string,
+	options: IndexOptions = {},
+): Promise<IndexedFile[]> {
 	console.log(`Indexing project files in: ${rootDir}`);
+	const extensions = new Set(options.extensions ?? supportedExtensions());
+	const followSymlinks = options.followSymlinks ?? false;
+	const ignoreFiles = options.respectGitignore === false ? ['.the-gapignore'] : IGNORE_FILES;
 	const results: IndexedFile[] = [];
 
-	// For now, hardcode the known source files to get started
-	// TODO: Implement proper recursive directory traversal
-	const knownFiles = [
-		'src/cli/index.ts',
-		'src/cli/commands.ts',
-		'src/llm/lmstudioClient.ts',
-		'src/parser/fileIndexer.ts',
-		'src/parser/tsParser.ts',
-		'src/rag/embeddings.ts',
-		'src/rag/ragEngine.ts',
-		'src/rag/vectorStore.ts',
-		'src/utils/fs.ts',
-	];
-
-	for (const filePath of knownFiles) {
-		const fullPath = join(rootDir, filePath);
+	const baseRules = compileIgnorePatterns(
+		[...DEFAULT_EXCLUDES, ...(options.exclude ?? [])].join('\n'),
+	);
+
+	async function walk(dir: string, rules: IgnoreRule[], ancestors: Set<string>): Promise<void> {
+		// Guard against symlink cycles: never descend into a directory we are already inside
+		let real: string;
 		try {
-			const file = Bun.file(fullPath);
-			const exists = await file.exists();
-			if (exists) {
-				results.push({ path: fullPath, size: file.size });
-			}
+			real = await realpath(dir);
+		} catch {
+			return;
+		}
+		if (ancestors.has(real)) return;
+		const chain = new Set(ancestors).add(real);
+
+		let entries: Dirent[];
+		try {
+			entries = await readdir(dir, { withFileTypes: true });
 		} catch (error) {
-			console.warn(`Failed to check file ${fullPath}:`, error);
+			console.warn(`Failed to read directory ${dir}:`, error);
+			return;
+		}
+
+		const dirRel = toPosix(relative(rootDir, dir));
+		const scopedRules = [...rules];
+		for (const name of ignoreFiles) {
+			if (!entries.some((e) => e.name === name && e.isFile())) continue;
+			try {
+				const text = await Bun.file(join(dir, name)).text();
+				scopedRules.push(...compileIgnorePatterns(text, dirRel));
+			} catch (error) {
+				console.warn(`Failed to read ignore file ${join(dir, name)}:`, error);
+			}
+		}
+
+		entries.sort((a, b) => a.name.localeCompare(b.name));
+
+		for (const entry of entries) {
+			const fullPath = join(dir, entry.name);
+			const relPath = dirRel ? `${dirRel}/${entry.name}` : entry.name;
+
+			let isDirectory = entry.isDirectory();
+			let isFile = entry.isFile();
+
+			if (entry.isSymbolicLink()) {
+				if (!followSymlinks) continue;
+				try {
+					const target = await stat(fullPath);
+					isDirectory = target.isDirectory();
+					isFile = target.isFile();
+				} catch {
+					// Dangling symlink
+					continue;
+				}
+			}
+
+			if (isIgnored(scopedRules, relPath, isDirectory)) continue;
+
+			if (isDirectory) {
+				await walk(fullPath, scopedRules, chain);
+				continue;
+			}
+
+			if (!isFile || !extensions.has(extensionOf(entry.name))) continue;
+
+			try {
+				const info = await stat(fullPath);
+				results.push({
+					path: fullPath,
+					relativePath: relPath,
+					size: info.size,
+					mtime: info.mtimeMs,
+				});
+			} catch (error) {
+				console.warn(`Failed to check file ${fullPath}:`, error);
+			}
+		}
+	}
+
+	await walk(rootDir, baseRules, new Set());
+
+	if (options.workspace) {
+		const walkedRoots = [rootDir];
+		const roots = options.workspace.packages.map((p) => p.root).sort();
+		for (const pkgRoot of roots) {
+			// Project references may point at package roots outside the indexed tree
+			if (walkedRoots.some((r) => pkgRoot === r || pkgRoot.startsWith(r + sep))) continue;
+			walkedRoots.push(pkgRoot);
+			await walk(pkgRoot, baseRules, new Set());
+		}
+		for (const file of results) {
+			file.package = findPackageForFile(options.workspace, file.path)?.name;
 		}
 	}
 
 	console.log(`Total files found: ${results.length}`);
 	return results;
 }
+
+function extensionOf(fileName: string): string {
+	// Declaration files are not worth indexing as source
+	if (fileName.endsWith('.d.ts')) return '.d.ts';
+	const dot = fileName.lastIndexOf('.');
+	return dot <= 0 ? '' : fileName.slice(dot);
+}
+
+function toPosix(path: string): string {
+	return sep === '/' ? path : path.split(sep).join('/');
+}
@@ -1,8 +1,52 @@
-import { dirname, join, relative, resolve } from 'node:path';
+import { isAbsolute, join, relative, resolve } from 'node:path';
+import { GraphQueryCache } from '../utils/cache.ts';
 import { ensureDir, exists, readFile, readJson, writeJson } from '../utils/fs.ts';
-import { type ParseResult, parseFileComplete } from './tsParser.ts';
+import {
+	createProjectProgram,
+	type ResolvedCall,
+	resolveCallsWithTypeChecker,
+} from './callResolver.ts';
+import { GraphIndex } from './graphIndex.ts';
+import {
+	findShortestPath,
+	type GraphView,
+	importChain,
+	reachableFrom,
+	type TraversalHit,
+	type TraversalOptions,
+	traverse,
+} from './graphTraversal.ts';
+import { getLanguageParser, typescriptParser } from './languages.ts';
+import { ModuleResolver } from './moduleResolution.ts';
+import { type ParsePoolOptions, type ParseTask, parseFilesInParallel } from './parsePool.ts';
+import { isTestFile } from './testFiles.ts';
+import {
+	PARSER_VERSION,
+	type ParsedSymbol,
+	type ParseResult,
+	type SymbolKind,
+	type SymbolMetrics,
+	type SymbolReference,
+	type SymbolReferenceKind,
+} from './tsParser.ts';
+import { discoverWorkspace, findPackageForFile, type WorkspaceLayout } from './workspace.ts';
 
-export type GraphNodeType = 'function' | 'class' | 'file' | 'module' | 'interface' | 'type';
+export type GraphNodeType =
+	| 'function'
+	| 'class'
+	| 'file'
+	| 'module'
+	| 'interface'
+	| 'type'
+	| 'variable'
+	| 'enum'
+	| 'namespace'
+	| 'property'
+	| 'constructor'
+	| 'getter'
+	| 'setter'
+	| 'suite'
+	| 'test';
 
 export interface GraphNode {
 	id: string;
@@ -10,12 +54,61 @@ export interface GraphNode {
 	type: GraphNodeType;
 	path?: string;
 	exported?: boolean;
+	/** The module's default export */
+	defaultExport?: boolean;
+	/** Workspace package the node belongs to (monorepos) */
+	package?: string;
+	/** 1-based line span of the declaration */
+	line?: number;
+	endLine?: number;
+	/** The file had syntax errors: the node and its edges come from error recovery */
+	unreliable?: boolean;
+	/** Functions with a body */
+	metrics?: FunctionMetrics;
+	/** File nodes: the file holds tests */
+	test?: boolean;
 }
 
+/**
+ * Parser metrics plus the number of distinct functions calling this one
+ * (fan-in) and called by it (fan-out), from the graph's call edges
+ */
+export type FunctionMetrics = SymbolMetrics & {
+	fanIn: number;
+	fanOut: number;
+};
+
+export type GraphEdgeType =
+	| 'imports'
+	| 'calls'
+	| 'contains'
+	| 'extends'
+	| 'implements'
+	| 'references-type'
+	| 'instantiates'
+	| 'overrides'
+	/** From a symbol to a function or constant of its own file it reads as a value */
+	| 'references'
+	/** From a test case or suite to a symbol it calls, constructs or references */
+	| 'tests';
+
 export interface GraphEdge {
 	source: string;
 	target: string;
-	type: 'imports' | 'calls' | 'contains';
+	type: GraphEdgeType;
+	/** Import edges: set when every import behind the edge is type-only, dynamic or a re-export */
+	typeOnly?: boolean;
+	dynamic?: boolean;
+	reExport?: boolean;
+	/** Import edges that skip over a barrel file: the barrel the name was imported through */
+	via?: string;
+	/** Import edges: lines of the source file's import statements behind the edge */
+	lines?: number[];
+	/**
+	 * Import edges: names used from the target as it exports them, `default`
+	 * for its default export and `*` for the whole module
+	 */
+	names?: string[];
 }
 
 export interface CodeGraph {
@@ -23,50 +116,279 @@ export interface CodeGraph {
 	edges: GraphEdge[];
 }
 
+export type GraphBuildOptions = Pick<ParsePoolOptions, 'concurrency' | 'onProgress'> & {
+	/**
+	 * Also resolve calls with the TypeScript type checker: slower, but follows
+	 * calls across files, through aliases and on typed receivers
+	 */
+	typeCheck?: boolean;
+};
+
+/** parse-results.json: what each file parsed to when graph.json was written */
+type SavedParseResults = {
+	parserVersion: number;
+	files: Record<string, ParseResult>;
+};
+
 export class GraphBuilder {
+	/** @param indexDir Where graph.json lives; `.the-gap` in the working directory by default */
+	constructor(private readonly indexDir?: string) {}
+
 	private get dataDir(): string {
-		return join(process.cwd(), '.the-gap');
+		return this.indexDir ?? join(process.cwd(), '.the-gap');
 	}
 
 	private get graphJsonPath(): string {
 		return join(this.dataDir, 'graph.json');
 	}
+
+	private get parseResultsPath(): string {
+		return join(this.dataDir, 'parse-results.json');
+	}
 	private nodes: Map<string, GraphNode> = new Map();
-	private edges: GraphEdge[] = [];
+	private edges: Set<GraphEdge> = new Set();
+	private index: GraphIndex = new GraphIndex();
+	/** Traversal results; cleared whenever the graph changes */
+	private queryCache = new GraphQueryCache({ maxSize: 1000 });
 	private fileParseResults: Map<string, ParseResult> = new Map();
+	private workspace: WorkspaceLayout | null = null;
+	private resolver: ModuleResolver | null = null;
+	private resolvedImports: Map<string, Promise<string | null>> = new Map();
 
 	/**
 	 * Build a complete code graph from TypeScript files
 	 */
-	async buildCompleteGraph(projectRoot: string): Promise<CodeGraph> {
-		this.nodes.clear();
-		this.edges = [];
-		this.fileParseResults.clear();
+	async buildCompleteGraph(
+		projectRoot: string,
+		options: GraphBuildOptions = {},
+	): Promise<CodeGraph> {
+		return this.buildFromFiles(await this.indexedFiles(), projectRoot, options);
+	}
+
+	/**
+	 * Patch the graph after files changed or were removed: drop their nodes and
+	 * edges, re-parse them, and re-resolve the edges of files that pointed into
+	 * them or import them. Paths may be spelled relative or absolute. Patches
+	 * the graph built earlier by this builder, or the one saved on disk; without
+	 * either the graph is built from scratch.
+	 */
+	async updateFiles(
+		changed: string[],
+		removed: string[],
+		projectRoot: string = process.cwd(),
+		options: GraphBuildOptions = {},
+	): Promise<CodeGraph> {
+		const sources = changed.filter((filePath) => getLanguageParser(filePath) !== undefined);
+		if (this.fileParseResults.size === 0 && !(await this.loadParseResults(projectRoot))) {
+			const known = await this.indexedFiles();
+			const gone = new Set(removed.map((filePath) => resolve(filePath)));
+			const files = new Set([...known, ...sources.map((filePath) => spellLike(filePath, known))]);
+			return this.buildFromFiles(
+				[...files].filter((filePath) => !gone.has(resolve(filePath))),
+				projectRoot,
+				options,
+			);
+		}
+
+		const known = [...this.fileParseResults.keys()];
+		const removedFiles = new Set(removed.map((filePath) => spellLike(filePath, known)));
+		const tasks: ParseTask[] = [];
+		for (const filePath of sources.map((path) => spellLike(path, known))) {
+			if (removedFiles.has(filePath) || tasks.some((t) => t.filePath === filePath)) continue;
+			// A file that vanished or was emptied leaves the graph, as in a full build
+			const content = await this.readSourceFile(filePath);
+			if (content === null) removedFiles.add(filePath);
+			else tasks.push({ filePath, content });
+		}
+		const parsed: Map<string, ParseResult> = new Map();
+		for (const outcome of await parseFilesInParallel(tasks, options)) {
+			if (outcome.result) {
+				parsed.set(outcome.filePath, outcome.result);
+			} else {
+				console.warn(`Failed to parse file ${outcome.filePath}:`, outcome.error);
+				removedFiles.add(outcome.filePath);
+			}
+		}
+
+		const touched = new Set([...removedFiles, ...parsed.keys()]);
+		const staleIds = new Set([...touched].flatMap((filePath) => this.nodeIdsOf(filePath)));
+		// Files with edges into the touched files must re-resolve them
+		const dependents: Set<string> = new Set();
+		for (const id of staleIds) {
+			for (const edge of this.index.incoming(id)) {
+				const path = this.nodes.get(edge.source)?.path;
+				if (path && !touched.has(path)) dependents.add(path);
+			}
+		}
+
+		const added = new Set([...parsed.keys()].filter((path) => !this.fileParseResults.has(path)));
+		const fileSetChanged = added.size > 0 || [...touched].some((path) => !parsed.has(path));
+		for (const id of staleIds) this.nodes.delete(id);
+		for (const filePath of touched) this.fileParseResults.delete(filePath);
+		for (const [filePath, result] of parsed) this.fileParseResults.set(filePath, result);
+		// Adding or removing a file changes what import paths resolve to
+		if (fileSetChanged) this.resolvedImports.clear();
+
+		// ...and so must files that can now reach them through an import
+		for (const filePath of await this.importersOf(touched, added, projectRoot)) {
+			if (!touched.has(filePath)) dependents.add(filePath);
+		}
+
+		// Overrides follow inheritance chains across files: recompute them all
+		this.queryCache.invalidateAll();
+		const staleEdges = new Set(this.index.ofType('overrides'));
+		for (const id of staleIds) {
+			for (const edge of this.index.outgoing(id)) staleEdges.add(edge);
+			for (const edge of this.index.incoming(id)) staleEdges.add(edge);
+		}
+		for (const id of [...dependents].flatMap((filePath) => this.nodeIdsOf(filePath))) {
+			for (const edge of this.index.outgoing(id)) {
+				if (edge.type !== 'contains') staleEdges.add(edge);
+			}
+		}
+		for (const edge of staleEdges) {
+			this.edges.delete(edge);
+			this.index.remove(edge);
+		}
+		for (const [filePath, result] of parsed) this.indexParseResult(filePath, result);
+
+		const rebuilt = [...parsed.keys(), ...dependents];
+		await this.buildEdges(projectRoot, rebuilt);
+		if (options.typeCheck) {
+			this.buildTypeCheckedCallEdges(projectRoot, rebuilt);
+		}
+		await this.buildTestEdges(projectRoot, rebuilt);
+		this.countCallFan();
+
+		return this.saveGraph();
+	}
 
-		// Read all indexed files from symbols.json
+	/**
+	 * Files importing one of `files`, directly or through barrels re-exporting
+	 * them, read from the reverse `imports` index. Files `added` since the last
+	 * build have no importers there yet: imports are resolved again to find them.
+	 */
+	private async importersOf(
+		files: Set<string>,
+		added: Set<string>,
+		projectRoot: string,
+	): Promise<Set<string>> {
+		const reachable = new Set(files);
+		const importers: Set<string> = new Set();
+		const reach = (filePath: string, reExport?: boolean) => {
+			importers.add(filePath);
+			if (reExport) reachable.add(filePath);
+		};
+
+		if (added.size > 0) {
+			for (const [filePath, parseResult] of this.fileParseResults) {
+				for (const imp of parseResult.imports) {
+					const target = await this.resolveImport(imp.modulePath, filePath, projectRoot);
+					if (target && added.has(target)) reach(filePath, imp.reExport);
+				}
+			}
+		}
+		for (const filePath of reachable) {
+			for (const edge of this.index.incoming(`file:${filePath}`, ['imports'])) {
+				reach(edge.source.slice('file:'.length), edge.reExport);
+			}
+		}
+		return importers;
+	}
+
+	/** The node of a file and of every symbol it contains, members included */
+	private nodeIdsOf(filePath: string): string[] {
+		const ids = [`file:${filePath}`];
+		for (const id of ids) {
+			for (const edge of this.index.outgoing(id, ['contains'])) ids.push(edge.target);
+		}
+		return ids;
+	}
+
+	/** Every file listed in symbols.json */
+	private async indexedFiles(): Promise<string[]> {
 		type MinimalSymbol = { filePath: string };
 		const symbolsPath = join(this.dataDir, 'symbols.json');
 		const symbols = await readJson<MinimalSymbol[]>(symbolsPath, []);
-		const files = Array.from(new Set(symbols.map((s) => s.filePath)));
+		return Array.from(new Set(symbols.map((s) => s.filePath)));
+	}
 
-		// Phase 1: Parse all files and extract symbols, imports, and calls
+	private async buildFromFiles(
+		files: string[],
+		projectRoot: string,
+		options: GraphBuildOptions,
+	): Promise<CodeGraph> {
+		this.nodes.clear();
+		this.edges = new Set();
+		this.index = new GraphIndex();
+		this.queryCache.invalidateAll();
+		this.fileParseResults.clear();
+		this.resolvedImports.clear();
+		this.workspace = await discoverWorkspace(projectRoot);
+		this.resolver = new ModuleResolver(projectRoot, this.workspace);
+
+		// Phase 1: Parse all files (across worker threads) and extract symbols, imports, and calls
+		const tasks: ParseTask[] = [];
 		for (const filePath of files) {
-			await this.parseAndIndexFile(filePath);
+			const content = await this.readSourceFile(filePath);
+			if (content !== null) tasks.push({ filePath, content });
+		}
+		const outcomes = await parseFilesInParallel(tasks, options);
+		for (const outcome of outcomes) {
+			if (outcome.result) {
+				this.indexParseResult(outcome.filePath, outcome.result);
+			} else {
+				console.warn(`Failed to parse file ${outcome.filePath}:`, outcome.error);
+			}
 		}
 
 		// Phase 2: Build edges based on imports and calls
 		await this.buildEdges(projectRoot);
+		if (options.typeCheck) {
+			this.buildTypeCheckedCallEdges(projectRoot);
+		}
+		await this.buildTestEdges(projectRoot);
+		this.countCallFan();
+
+		return this.saveGraph();
+	}
+
+	private addEdge(edge: GraphEdge): void {
+		this.edges.add(edge);
+		this.index.add(edge);
+	}
 
+	private async saveGraph(): Promise<CodeGraph> {
 		const graph: CodeGraph = {
 			nodes: Array.from(this.nodes.values()),
-			edges: this.edges,
+			edges: [...this.edges],
 		};
 
 		await ensureDir(this.dataDir);
 		await writeJson(this.graphJsonPath, graph);
+		await writeJson(this.parseResultsPath, {
+			parserVersion: PARSER_VERSION,
+			files: Object.fromEntries(this.fileParseResults),
+		} satisfies SavedParseResults);
 		return graph;
 	}
 
+	/**
+	 * Restore the saved graph together with the parse results behind it, so
+	 * updateFiles can patch it. False when either is missing or was written by
+	 * another parser version.
+	 */
+	private async loadParseResults(projectRoot: string): Promise<boolean> {
+		const saved = await readJson<SavedParseResults | null>(this.parseResultsPath, null);
+		if (!saved || saved.parserVersion !== PARSER_VERSION) return false;
+		if (!(await this.loadGraph())) return false;
+		this.fileParseResults = new Map(Object.entries(saved.files));
+		this.resolvedImports.clear();
+		this.workspace = await discoverWorkspace(projectRoot);
+		this.resolver = new ModuleResolver(projectRoot, this.workspace);
+		return true;
+	}
+
 	/**
 	 * Legacy method for backwards compatibility
 	 */
@@ -74,12 +396,15 @@ export class GraphBuilder {
 		return this.buildCompleteGraph(process.cwd());
 	}
 
-	private async parseAndIndexFile(filePath: string): Promise<void> {
+	/**
+	 * Read a source file for parsing, or null if it should be skipped
+	 */
+	private async readSourceFile(filePath: string): Promise<string | null> {
 		try {
 			// Validate file path
 			if (!filePath || filePath.trim().length === 0) {
 				console.warn('Empty file path provided, skipping');
-				return;
+				return null;
 			}
 
 			const fullPath = resolve(filePath);
@@ -87,7 +412,7 @@ export class GraphBuilder {
 			// Check if file exists before reading
 			if (!(await exists(fullPath))) {
 				console.warn(`File not found: ${fullPath}`);
-				return;
+				return null;
 			}
 
 			const content = await readFile(fullPath);
@@ -95,106 +420,428 @@ export class GraphBuilder {
 			// Skip empty files
 			if (content.trim().length === 0) {
 				console.log(`Skipping empty file: ${filePath}`);
-				return;
+				return null;
 			}
 
-			const parseResult = parseFileComplete(filePath, content);
-			this.fileParseResults.set(filePath, parseResult);
+			return content;
+		} catch (error) {
+			console.warn(`Failed to read file ${filePath}:`, error);
+			return null;
+		}
+	}
+
+	private indexParseResult(filePath: string, parseResult: ParseResult): void {
+		this.fileParseResults.set(filePath, parseResult);
+
+		// Add file node
+		const fileId = `file:${filePath}`;
+		const packageName = this.workspace
+			? findPackageForFile(this.workspace, resolve(filePath))?.name
+			: undefined;
+		const unreliable = parseResult.diagnostics.length > 0 || undefined;
+		this.nodes.set(fileId, {
+			id: fileId,
+			label: filePath.split('/').pop() ?? filePath,
+			type: 'file',
+			path: filePath,
+			package: packageName,
+			unreliable,
+			test: isTestFile(filePath) || undefined,
+		});
 
-			// Add file node
-			const fileId = `file:${filePath}`;
-			this.nodes.set(fileId, {
-				id: fileId,
-				label: filePath.split('/').pop() ?? filePath,
-				type: 'file',
+		// Add symbol nodes; members hang off their parent rather than the file
+		const symbolIds = symbolIdsByName(filePath, parseResult);
+		for (const symbol of parseResult.symbols) {
+			const symbolId = symbolNodeId(filePath, symbol);
+			this.nodes.set(symbolId, {
+				id: symbolId,
+				label: symbol.name,
+				type: symbol.kind as GraphNodeType,
 				path: filePath,
+				exported: symbol.exported,
+				defaultExport: (!symbol.parent && isDefaultExport(symbol)) || undefined,
+				package: packageName,
+				line: symbol.line,
+				endLine: symbol.endLine,
+				unreliable,
+				metrics: symbol.metrics && { ...symbol.metrics, fanIn: 0, fanOut: 0 },
 			});
 
-			// Add symbol nodes (functions, classes, interfaces, types)
-			for (const symbol of parseResult.symbols) {
-				const symbolId = `${symbol.kind}:${filePath}:${symbol.name}`;
-				this.nodes.set(symbolId, {
-					id: symbolId,
-					label: symbol.name,
-					type: symbol.kind as GraphNodeType,
-					path: filePath,
-					exported: symbol.exported,
-				});
-
-				// Add "contains" edge from file to symbol
-				this.edges.push({
-					source: fileId,
-					target: symbolId,
-					type: 'contains',
-				});
-			}
-		} catch (error) {
-			console.warn(`Failed to parse file ${filePath}:`, error);
+			this.addEdge({
+				source: (symbol.parent && symbolIds.get(symbol.parent)) || fileId,
+				target: symbolId,
+				type: 'contains',
+			});
 		}
 	}
 
-	private async buildEdges(projectRoot: string): Promise<void> {
-		for (const [filePath, parseResult] of this.fileParseResults.entries()) {
-			// Build import edges
+	/**
+	 * Import, call and reference edges out of `files` (every file by default),
+	 * then overrides across the whole graph
+	 */
+	private async buildEdges(projectRoot: string, files?: string[]): Promise<void> {
+		for (const [filePath, parseResult] of this.parsedEntries(files)) {
+			// Build import edges, one per target file
+			const sourceFileId = `file:${filePath}`;
+			const importEdges: Map<string, GraphEdge> = new Map();
 			for (const imp of parseResult.imports) {
-				const resolvedPath = this.resolveImportPath(imp.modulePath, filePath, projectRoot);
-				if (resolvedPath) {
-					const sourceFileId = `file:${filePath}`;
-					const targetFileId = `file:${resolvedPath}`;
-
-					// Only add edge if target file exists in our graph
-					if (this.nodes.has(targetFileId)) {
-						this.edges.push({
-							source: sourceFileId,
-							target: targetFileId,
-							type: 'imports',
-						});
-					}
+				const resolvedPath = await this.resolveImport(imp.modulePath, filePath, projectRoot);
+				// Only add edge if target file exists in our graph
+				if (!resolvedPath || !this.nodes.has(`file:${resolvedPath}`)) continue;
+
+				const flags = {
+					typeOnly: imp.typeOnly === true,
+					dynamic: imp.dynamic === true,
+					reExport: imp.reExport === true,
+				};
+				const wholeModule = imp.importedName === '*' || imp.isNamespace;
+				const exportedName = wholeModule ? '*' : imp.isDefault ? 'default' : imp.importedName;
+				mergeImportEdge(importEdges, {
+					source: sourceFileId,
+					target: `file:${resolvedPath}`,
+					type: 'imports',
+					...flags,
+					lines: imp.line ? [imp.line] : undefined,
+					names: imp.sideEffect ? undefined : [exportedName],
+				});
+
+				// Follow barrel re-exports to the file that declares the name
+				if (wholeModule) continue;
+				const declaration = await this.findDeclaration(resolvedPath, exportedName, projectRoot);
+				if (
+					declaration &&
+					declaration.filePath !== resolvedPath &&
+					declaration.filePath !== filePath
+				) {
+					mergeImportEdge(importEdges, {
+						source: sourceFileId,
+						target: `file:${declaration.filePath}`,
+						type: 'imports',
+						...flags,
+						via: `file:${resolvedPath}`,
+						names: [declaration.name],
+					});
 				}
 			}
+			for (const edge of importEdges.values()) this.addEdge(edge);
 
 			// Build call edges
+			const symbolIds = symbolIdsByName(filePath, parseResult);
 			for (const call of parseResult.calls) {
-				const sourceId = call.callerFunction
-					? `function:${filePath}:${call.callerFunction}`
-					: `file:${filePath}`;
+				const sourceId =
+					(call.callerFunction && symbolIds.get(call.callerFunction)) || `file:${filePath}`;
 
 				// Try to find the callee in the same file first
-				const targetId = this.findCallTarget(call.calleeName, filePath, parseResult);
+				const targetId = this.findCallTarget(call.calleeName, filePath, call.callerFunction);
 				if (targetId && this.nodes.has(targetId)) {
-					this.edges.push({
+					this.addEdge({
 						source: sourceId,
 						target: targetId,
 						type: 'calls',
 					});
 				}
 			}
+
+			// Build inheritance and type-usage edges
+			for (const reference of parseResult.references) {
+				const targetId = await this.resolveReference(reference, parseResult, projectRoot);
+				const sourceId =
+					(reference.fromSymbol && symbolIds.get(reference.fromSymbol)) || sourceFileId;
+				if (targetId && targetId !== sourceId) {
+					this.addEdge({ source: sourceId, target: targetId, type: reference.kind });
+				}
+			}
+		}
+
+		this.buildOverrideEdges();
+	}
+
+	/**
+	 * Map a referenced type or class name to its declaration: in the same file
+	 * (innermost scope first), or through the import that brought the name in
+	 */
+	private async resolveReference(
+		reference: SymbolReference,
+		parseResult: ParseResult,
+		projectRoot: string,
+	): Promise<string | null> {
+		const { filePath, targetName } = reference;
+		const kinds = REFERENCE_TARGET_KINDS[reference.kind];
+
+		for (const scope of [...enclosingScopes(parseResult.symbols, reference.fromSymbol), null]) {
+			const name = scope ? `${scope}.${targetName}` : targetName;
+			const local = parseResult.symbols.find((s) => s.name === name && kinds.includes(s.kind));
+			if (local) return symbolNodeId(filePath, local);
+		}
+		// Value reads are only linked within their file
+		if (reference.kind === 'references') return null;
+		return this.resolveImportedName(filePath, targetName, kinds, parseResult, projectRoot);
+	}
+
+	/**
+	 * Map `name` or `ns.name` to the declaration, of one of `kinds`, behind the
+	 * import that brought it into the file
+	 */
+	private async resolveImportedName(
+		filePath: string,
+		targetName: string,
+		kinds: SymbolKind[],
+		parseResult: ParseResult,
+		projectRoot: string,
+	): Promise<string | null> {
+		const [head, ...rest] = targetName.split('.');
+		const imp = parseResult.imports.find(
+			(i) => !i.reExport && i.importedName !== '*' && (i.alias ?? i.importedName) === head,
+		);
+		if (!imp) return null;
+		const modulePath = await this.resolveImport(imp.modulePath, filePath, projectRoot);
+		if (!modulePath) return null;
+
+		// `ns.Foo` through `import * as ns`
+		const exportedName = imp.isNamespace
+			? rest.shift()
+			: imp.isDefault
+				? 'default'
+				: imp.importedName;
+		if (!exportedName) return null;
+		const declaration = await this.findDeclaration(modulePath, exportedName, projectRoot);
+		if (!declaration) return null;
+
+		const target = this.fileParseResults
+			.get(declaration.filePath)
+			?.symbols.find(
+				(s) =>
+					kinds.includes(s.kind) &&
+					(declaration.name === 'default' && rest.length === 0
+						? isDefaultExport(s)
+						: s.name === [declaration.name, ...rest].join('.')),
+			);
+		return target ? symbolNodeId(declaration.filePath, target) : null;
+	}
+
+	/**
+	 * Link test cases and suites to what they exercise: functions they call and
+	 * types they construct or mention, declared in the same file or imported.
+	 * Method calls on instances (`store.save()`) match members of the classes
+	 * the test file imports.
+	 */
+	private async buildTestEdges(projectRoot: string, files?: string[]): Promise<void> {
+		for (const [filePath, parseResult] of this.parsedEntries(files)) {
+			const testIds = new Map<string, string>();
+			for (const symbol of parseResult.symbols) {
+				if (TEST_KINDS.includes(symbol.kind)) {
+					testIds.set(symbol.name, symbolNodeId(filePath, symbol));
+				}
+			}
+			if (testIds.size === 0) continue;
+
+			const uses = [
+				...parseResult.calls.map((c) => ({ from: c.callerFunction, name: c.calleeName })),
+				...parseResult.references.map((r) => ({ from: r.fromSymbol, name: r.targetName })),
+			];
+			let importedClasses: GraphNode[] | null = null;
+			const seen = new Set<string>();
+
+			for (const use of uses) {
+				const sourceId = use.from && testIds.get(use.from);
+				if (!sourceId) continue;
+
+				let targetId =
+					this.findCallTarget(use.name, filePath, use.from) ??
+					(await this.resolveImportedName(
+						filePath,
+						use.name,
+						TESTED_KINDS,
+						parseResult,
+						projectRoot,
+					));
+				if (!targetId) {
+					importedClasses ??= await this.importedClasses(filePath, parseResult, projectRoot);
+					const method = use.name.split('.').pop();
+					targetId =
+						importedClasses
+							.map((cls) => this.callableIdOf(cls, method))
+							.find((id) => id !== undefined) ?? null;
+				}
+
+				// Test helpers and other tests are not the code under test
+				const target = targetId ? this.nodes.get(targetId) : undefined;
+				if (!target || isTestFile(target.path ?? '')) continue;
+				const key = `${sourceId}\0${target.id}`;
+				if (seen.has(key)) continue;
+				seen.add(key);
+				this.addEdge({ source: sourceId, target: target.id, type: 'tests' });
+			}
 		}
 	}
 
-	private resolveImportPath(
+	/** Parse results of `files`, or of every parsed file */
+	private parsedEntries(files?: string[]): [string, ParseResult][] {
+		if (!files) return [...this.fileParseResults];
+		return files.flatMap((filePath) => {
+			const parseResult = this.fileParseResults.get(filePath);
+			return parseResult ? [[filePath, parseResult] as [string, ParseResult]] : [];
+		});
+	}
+
+	/** Class nodes the file imports (directly or through barrels) */
+	private async importedClasses(
+		filePath: string,
+		parseResult: ParseResult,
+		projectRoot: string,
+	): Promise<GraphNode[]> {
+		const classes: GraphNode[] = [];
+		for (const imp of parseResult.imports) {
+			if (imp.reExport || imp.importedName === '*' || imp.isNamespace) continue;
+			const localName = imp.alias ?? imp.importedName;
+			const id = await this.resolveImportedName(
+				filePath,
+				localName,
+				['class'],
+				parseResult,
+				projectRoot,
+			);
+			const node = id ? this.nodes.get(id) : undefined;
+			if (node) classes.push(node);
+		}
+		return classes;
+	}
+
+	/** Id of a callable member `cls.name`, when the class has one */
+	private callableIdOf(cls: GraphNode, name: string | undefined): string | undefined {
+		if (!name) return undefined;
+		return CALLABLE_KINDS.map((kind) => `${kind}:${cls.path}:${cls.label}.${name}`).find((id) =>
+			this.nodes.has(id),
+		);
+	}
+
+	/**
+	 * A member overrides the closest member of the same name and kind up its
+	 * `extends` chain
+	 */
+	private buildOverrideEdges(): void {
+		const baseOf: Map<string, string> = new Map();
+		const membersOf: Map<string, GraphNode[]> = new Map();
+		for (const edge of this.edges) {
+			if (edge.type === 'extends' && edge.source.startsWith('class:')) {
+				baseOf.set(edge.source, edge.target);
+			} else if (edge.type === 'contains' && edge.source.startsWith('class:')) {
+				const member = this.nodes.get(edge.target);
+				if (member && member.type !== 'constructor') {
+					membersOf.set(edge.source, [...(membersOf.get(edge.source) ?? []), member]);
+				}
+			}
+		}
+
+		for (const [classId, members] of membersOf) {
+			const cls = this.nodes.get(classId);
+			if (!cls || !baseOf.has(classId)) continue;
+
+			for (const member of members) {
+				const memberName = member.label.slice(cls.label.length + 1);
+				const seen = new Set<string>([classId]);
+				let baseId = baseOf.get(classId);
+				while (baseId && !seen.has(baseId)) {
+					seen.add(baseId);
+					const base = this.nodes.get(baseId);
+					const overriddenId = base && `${member.type}:${base.path}:${base.label}.${memberName}`;
+					if (overriddenId && this.nodes.has(overriddenId)) {
+						this.addEdge({ source: member.id, target: overriddenId, type: 'overrides' });
+						break;
+					}
+					baseId = baseOf.get(baseId);
+				}
+			}
+		}
+	}
+
+	private resolveImport(
 		importPath: string,
 		fromFile: string,
 		projectRoot: string,
-	): string | null {
-		try {
-			// Handle relative imports
-			if (importPath.startsWith('.')) {
-				const fromDir = dirname(resolve(fromFile));
-				const resolved = resolve(fromDir, importPath);
-
-				// Try common TypeScript extensions
-				const extensions = ['.ts', '.tsx', '.js', '.jsx', '/index.ts', '/index.tsx'];
-				for (const ext of extensions) {
-					const withExt = resolved + ext;
-					const relPath = relative(projectRoot, withExt);
-					if (this.fileParseResults.has(relPath) || this.fileParseResults.has(withExt)) {
-						return relPath.startsWith('.') ? withExt : relPath;
-					}
+	): Promise<string | null> {
+		const key = `${fromFile}\0${importPath}`;
+		let resolved = this.resolvedImports.get(key);
+		if (!resolved) {
+			resolved = this.resolveImportPath(importPath, fromFile, projectRoot);
+			this.resolvedImports.set(key, resolved);
+		}
+		return resolved;
+	}
+
+	/**
+	 * Find the file and local name that `name`, as exported from `filePath`,
+	 * is declared under, following `export { name } from` and `export * from`
+	 * chains through barrel files. Returns null when the declaration cannot be found.
+	 */
+	private async findDeclaration(
+		filePath: string,
+		name: string,
+		projectRoot: string,
+		visited: Set<string> = new Set(),
+	): Promise<{ filePath: string; name: string } | null> {
+		const key = `${filePath}\0${name}`;
+		if (visited.has(key)) return null;
+		visited.add(key);
+
+		const parseResult = this.fileParseResults.get(filePath);
+		if (!parseResult) return null;
+		const reExports = parseResult.imports.filter((imp) => imp.reExport);
+
+		for (const imp of reExports) {
+			if (imp.importedName === '*' || (imp.alias ?? imp.importedName) !== name) continue;
+			const target = await this.resolveImport(imp.modulePath, filePath, projectRoot);
+			if (!target) return null;
+			return (
+				(await this.findDeclaration(target, imp.importedName, projectRoot, visited)) ?? {
+					filePath: target,
+					name: imp.importedName,
 				}
+			);
+		}
+
+		const declared = parseResult.symbols.some((symbol) =>
+			name === 'default' ? isDefaultExport(symbol) : !symbol.parent && symbol.name === name,
+		);
+		if (declared) return { filePath, name };
 
-				// Return as-is if we can't resolve (might be in node_modules)
-				return relative(projectRoot, resolved);
+		// `export *` never re-exports a default export
+		if (name === 'default') return null;
+		for (const imp of reExports) {
+			if (imp.importedName !== '*' || imp.alias) continue;
+			const target = await this.resolveImport(imp.modulePath, filePath, projectRoot);
+			const found = target && (await this.findDeclaration(target, name, projectRoot, visited));
+			if (found) return found;
+		}
+		return null;
+	}
+
+	private async resolveImportPath(
+		importPath: string,
+		fromFile: string,
+		projectRoot: string,
+	): Promise<string | null> {
+		try {
+			const language = getLanguageParser(fromFile);
+			let candidates: string[];
+			if (language?.moduleCandidates) {
+				candidates = language.moduleCandidates(
+					importPath,
+					resolve(projectRoot, fromFile),
+					projectRoot,
+				);
+			} else {
+				const resolver = this.resolver ?? new ModuleResolver(projectRoot, this.workspace);
+				candidates = await resolver.candidates(importPath, fromFile);
+			}
+			for (const candidate of candidates) {
+				const found = this.findIndexedFile(candidate, projectRoot, language?.probeSuffixes);
+				if (found) return found;
+			}
+
+			// Return relative imports as-is if we can't resolve (might be in node_modules)
+			if (importPath.startsWith('.') && candidates[0]) {
+				return relative(projectRoot, candidates[0]);
 			}
 
 			// For node_modules or absolute imports, we don't track them for now
@@ -204,32 +851,144 @@ export class GraphBuilder {
 		}
 	}
 
+	/**
+	 * Probe a module path with the importing language's suffixes (the usual
+	 * TypeScript extensions by default) and return the key of the matching
+	 * parsed file, if any
+	 */
+	private findIndexedFile(
+		basePath: string,
+		projectRoot: string,
+		suffixes: string[] = ['.ts', '.tsx', '.js', '.jsx', '/index.ts', '/index.tsx'],
+	): string | null {
+		const extensions = ['', ...suffixes];
+		const bases = [basePath];
+
+		// ESM TypeScript imports the emitted name: './x.js' means './x.ts'
+		const emitted = basePath.match(/\.(m|c)?jsx?$/);
+		if (emitted) {
+			const stem = basePath.slice(0, -emitted[0].length);
+			const module = emitted[1] ?? '';
+			bases.unshift(`${stem}.${module}ts`, `${stem}.${module}tsx`);
+		}
+
+		for (const base of bases) {
+			for (const ext of extensions) {
+				const withExt = base + ext;
+				const relPath = relative(projectRoot, withExt);
+				// Files are keyed however symbols.json spelled them (absolute or root-relative)
+				if (this.fileParseResults.has(withExt)) return withExt;
+				if (this.fileParseResults.has(relPath)) return relPath;
+			}
+		}
+		return null;
+	}
+
+	/**
+	 * Fill in fan-in and fan-out once every call edge is known
+	 */
+	private countCallFan(): void {
+		for (const node of this.nodes.values()) {
+			if (node.metrics) {
+				node.metrics.fanIn = 0;
+				node.metrics.fanOut = 0;
+			}
+		}
+
+		// Repeated calls between the same pair count once
+		const seen = new Set<string>();
+		for (const edge of this.edges) {
+			if (edge.type !== 'calls' || edge.source === edge.target) continue;
+			const key = `${edge.source}\0${edge.target}`;
+			if (seen.has(key)) continue;
+			seen.add(key);
+			const caller = this.nodes.get(edge.source)?.metrics;
+			const callee = this.nodes.get(edge.target)?.metrics;
+			if (caller) caller.fanOut++;
+			if (callee) callee.fanIn++;
+		}
+	}
+
+	/**
+	 * Add the call edges the type checker finds on top of the name-based ones,
+	 * for calls made in `only` (every file by default)
+	 */
+	private buildTypeCheckedCallEdges(projectRoot: string, only?: string[]): void {
+		const keysByPath: Map<string, string> = new Map();
+		for (const key of this.fileParseResults.keys()) {
+			if (getLanguageParser(key) === typescriptParser) keysByPath.set(resolve(key), key);
+		}
+		const files = [...keysByPath.keys()];
+
+		const scanned = only
+			? only.filter((key) => keysByPath.has(resolve(key))).map((key) => resolve(key))
+			: files;
+
+		let calls: ResolvedCall[];
+		try {
+			calls = resolveCallsWithTypeChecker(createProjectProgram(projectRoot, files), scanned);
+		} catch (error) {
+			console.warn('Type-checked call resolution failed, keeping name-based calls:', error);
+			return;
+		}
+
+		const existing = new Set(this.index.ofType('calls').map((e) => `${e.source}\0${e.target}`));
+		for (const call of calls) {
+			const fileKey = keysByPath.get(call.filePath);
+			const targetKey = keysByPath.get(call.targetFile);
+			// Calls into libraries and unindexed files have no node to point at
+			if (!fileKey || !targetKey) continue;
+
+			const callee = this.fileParseResults
+				.get(targetKey)
+				?.symbols.find(
+					(symbol) => symbol.start === call.targetPosition && CALLABLE_KINDS.includes(symbol.kind),
+				);
+			if (!callee) continue;
+			const caller = this.callableAt(fileKey, call.position);
+			const source = caller ? symbolNodeId(fileKey, caller) : `file:${fileKey}`;
+			const target = symbolNodeId(targetKey, callee);
+
+			const key = `${source}\0${target}`;
+			if (existing.has(key) || !this.nodes.has(target)) continue;
+			existing.add(key);
+			this.addEdge({ source, target, type: 'calls' });
+		}
+	}
+
+	/**
+	 * The innermost function-like symbol whose declaration spans `position`
+	 */
+	private callableAt(filePath: string, position: number): ParsedSymbol | undefined {
+		let best: ParsedSymbol | undefined;
+		for (const symbol of this.fileParseResults.get(filePath)?.symbols ?? []) {
+			if (!CALLABLE_KINDS.includes(symbol.kind)) continue;
+			if (position < symbol.start || position >= symbol.end) continue;
+			if (!best || symbol.end - symbol.start < best.end - best.start) best = symbol;
+		}
+		return best;
+	}
+
 	private findCallTarget(
 		calleeName: string,
 		filePath: string,
-		_parseResult: ParseResult,
+		callerFunction: string | null,
 	): string | null {
-		// Check if it's a method call (e.g., "obj.method")
-		if (calleeName.includes('.')) {
-			const parts = calleeName.split('.');
-			const className = parts[0];
-			const methodName = parts.slice(1).join('.');
-
-			// Look for class method in the same file
-			const methodId = `function:${filePath}:${className}.${methodName}`;
-			if (this.nodes.has(methodId)) {
-				return methodId;
-			}
-		}
+		// `this.save()` refers to a member of the caller's class
+		const name = calleeName.startsWith('this.') ? calleeName.slice('this.'.length) : calleeName;
 
-		// Look for function in the same file
-		const functionId = `function:${filePath}:${calleeName}`;
-		if (this.nodes.has(functionId)) {
-			return functionId;
+		// Innermost scope first: `save()` inside `Store.load` may be `Store.load.save`,
+		// `Store.save` or a top-level `save`; `Class.method()` matches at the top level
+		const symbols = this.fileParseResults.get(filePath)?.symbols ?? [];
+		for (const scope of [...enclosingScopes(symbols, callerFunction), null]) {
+			const functionId = `function:${filePath}:${scope ? `${scope}.${name}` : name}`;
+			if (this.nodes.has(functionId)) {
+				return functionId;
+			}
 		}
 
-		// Look for imported function
-		// (For now, we don't cross-file resolve calls; this can be enhanced)
+		// Name-based resolution stays within the file; calls into imported
+		// functions are linked by buildTypeCheckedCallEdges under `index --type-check`
 		return null;
 	}
 
@@ -237,47 +996,179 @@ export class GraphBuilder {
 	 * Query functions for graph traversal
 	 */
 	getCallersOf(symbolId: string): GraphNode[] {
-		const callers: GraphNode[] = [];
-		for (const edge of this.edges) {
-			if (edge.target === symbolId && edge.type === 'calls') {
-				const node = this.nodes.get(edge.source);
-				if (node) callers.push(node);
-			}
-		}
-		return callers;
+		return this.neighbors(this.index.incoming(symbolId, ['calls']), 'source');
 	}
 
 	getCalleesOf(symbolId: string): GraphNode[] {
-		const callees: GraphNode[] = [];
-		for (const edge of this.edges) {
-			if (edge.source === symbolId && edge.type === 'calls') {
-				const node = this.nodes.get(edge.target);
-				if (node) callees.push(node);
-			}
-		}
-		return callees;
+		return this.neighbors(this.index.outgoing(symbolId, ['calls']), 'target');
 	}
 
 	getImportsOf(fileId: string): GraphNode[] {
-		const imports: GraphNode[] = [];
-		for (const edge of this.edges) {
-			if (edge.source === fileId && edge.type === 'imports') {
-				const node = this.nodes.get(edge.target);
-				if (node) imports.push(node);
+		return this.neighbors(this.index.outgoing(fileId, ['imports']), 'target');
+	}
+
+	getImportersOf(fileId: string): GraphNode[] {
+		return this.neighbors(this.index.incoming(fileId, ['imports']), 'source');
+	}
+
+	/** Classes and interfaces that extend or implement a class or interface */
+	getSubtypesOf(symbolId: string): GraphNode[] {
+		return this.getSourcesOf(symbolId, ['extends', 'implements']);
+	}
+
+	/** Symbols that mention a type in annotations or heritage clauses, or instantiate a class */
+	getTypeUsersOf(symbolId: string): GraphNode[] {
+		return this.getSourcesOf(symbolId, [
+			'references-type',
+			'instantiates',
+			'extends',
+			'implements',
+		]);
+	}
+
+	/**
+	 * Nodes reachable from a node within the options' limits, each with the
+	 * path that reached it
+	 */
+	traverse(startId: string, options: TraversalOptions = {}): TraversalHit[] {
+		return this.cached('traverse', [startId, options], () => traverse(this.view, startId, options));
+	}
+
+	/** Shortest path between two nodes, or null when there is none within the limits */
+	findPath(
+		fromId: string,
+		toId: string,
+		options: Omit<TraversalOptions, 'strategy'> = {},
+	): TraversalHit | null {
+		return this.cached('path', [fromId, toId, options], () =>
+			findShortestPath(this.view, fromId, toId, options),
+		);
+	}
+
+	/** Files a file imports, transitively (or, `backward`, the files importing it) */
+	getImportChain(
+		fileId: string,
+		options: Pick<TraversalOptions, 'direction' | 'maxDepth'> = {},
+	): TraversalHit[] {
+		return this.cached('importChain', [fileId, options], () =>
+			importChain(this.view, fileId, options),
+		);
+	}
+
+	/** Ids of every node reachable from any of the start nodes, starts included */
+	getReachable(startIds: string[], options: Omit<TraversalOptions, 'strategy'> = {}): Set<string> {
+		return this.cached('reachable', [startIds, options], () =>
+			reachableFrom(this.view, startIds, options),
+		);
+	}
+
+	private get view(): GraphView {
+		return { nodes: this.nodes, index: this.index };
+	}
+
+	/**
+	 * Test cases and suites that exercise a symbol, directly or through any
+	 * chain of callers. Tests of a member's class count too. For a file node,
+	 * tests of any symbol in the file.
+	 */
+	getTestsCovering(nodeId: string): GraphNode[] {
+		return this.cached('testsCovering', [nodeId], () => this.findTestsCovering(nodeId));
+	}
+
+	private findTestsCovering(nodeId: string): GraphNode[] {
+		const node = this.nodes.get(nodeId);
+		if (!node) return [];
+
+		const covered = new Set<string>([nodeId]);
+		if (node.type === 'file') {
+			// Everything the file contains, members included
+			for (const id of reachableFrom(this.view, [nodeId], { edgeTypes: ['contains'] })) {
+				covered.add(id);
+			}
+		} else {
+			// Containing classes and namespaces, up to (not including) the file
+			const parentOf = (id: string) => this.index.incoming(id, ['contains'])[0]?.source;
+			let parent = parentOf(nodeId);
+			while (parent && !parent.startsWith('file:') && !covered.has(parent)) {
+				covered.add(parent);
+				parent = parentOf(parent);
+			}
+		}
+
+		// Whatever calls covered code exercises it too
+		const callers = reachableFrom(this.view, [...covered], {
+			direction: 'backward',
+			edgeTypes: ['calls'],
+		});
+
+		const tests: GraphNode[] = [];
+		for (const id of callers) {
+			for (const edge of this.index.incoming(id, ['tests'])) {
+				const test = this.nodes.get(edge.source);
+				if (test && !tests.includes(test)) tests.push(test);
 			}
 		}
-		return imports;
+		return tests;
 	}
 
-	getImportersOf(fileId: string): GraphNode[] {
-		const importers: GraphNode[] = [];
-		for (const edge of this.edges) {
-			if (edge.target === fileId && edge.type === 'imports') {
-				const node = this.nodes.get(edge.source);
-				if (node) importers.push(node);
+	/**
+	 * Test files to run after `filePaths` changed: changed test files
+	 * themselves, files with tests covering the changed code, and test files
+	 * importing a changed file. Paths come back as the graph spells them.
+	 */
+	getTestFilesCovering(filePaths: string[]): string[] {
+		const key = [...filePaths].sort();
+		return this.cached('testFilesCovering', key, () => this.findTestFilesCovering(filePaths));
+	}
+
+	private findTestFilesCovering(filePaths: string[]): string[] {
+		const files = new Set<string>();
+		const wanted = new Set(filePaths.map((p) => resolve(p)));
+
+		for (const fileNode of this.nodes.values()) {
+			if (fileNode.type !== 'file' || !fileNode.path || !wanted.has(resolve(fileNode.path))) {
+				continue;
+			}
+			if (fileNode.test) files.add(fileNode.path);
+			for (const test of this.getTestsCovering(fileNode.id)) {
+				if (test.path) files.add(test.path);
+			}
+			for (const importer of this.getImportersOf(fileNode.id)) {
+				if (importer.test && importer.path) files.add(importer.path);
 			}
 		}
-		return importers;
+		return [...files].sort();
+	}
+
+	private getSourcesOf(targetId: string, types: GraphEdgeType[]): GraphNode[] {
+		const sources: GraphNode[] = [];
+		for (const node of this.neighbors(this.index.incoming(targetId, types), 'source')) {
+			if (!sources.includes(node)) sources.push(node);
+		}
+		return sources;
+	}
+
+	/** Nodes at one end of each edge, skipping ends that are not in the graph */
+	private neighbors(edges: GraphEdge[], end: 'source' | 'target'): GraphNode[] {
+		const nodes: GraphNode[] = [];
+		for (const edge of edges) {
+			const node = this.nodes.get(edge[end]);
+			if (node) nodes.push(node);
+		}
+		return nodes;
+	}
+
+	/** Answer a query from the cache, computing and storing it on a miss */
+	private cached<T>(queryType: string, params: unknown[], compute: () => T): T {
+		const key = GraphQueryCache.createKey(queryType, ...params);
+		if (this.queryCache.has(key)) return this.queryCache.get(key) as T;
+		const value = compute();
+		this.queryCache.set(key, value);
+		return value;
+	}
+
+	getNodesInPackage(packageName: string): GraphNode[] {
+		return Array.from(this.nodes.values()).filter((node) => node.package === packageName);
 	}
 
 	async loadGraph(): Promise<CodeGraph | null> {
@@ -286,7 +1177,9 @@ export class GraphBuilder {
 			if (graph) {
 				// Rebuild internal structures for querying
 				this.nodes.clear();
-				this.edges = graph.edges;
+				this.edges = new Set(graph.edges);
+				this.index = new GraphIndex(graph.edges);
+				this.queryCache.invalidateAll();
 				for (const node of graph.nodes) {
 					this.nodes.set(node.id, node);
 				}
@@ -297,3 +1190,121 @@ export class GraphBuilder {
 		}
 	}
 }
+
+/**
+ * Add an import edge, folding it into an existing one between the same files.
+ * Flags stay set only if every import behind the edge has them.
+ */
+function mergeImportEdge(edges: Map<string, GraphEdge>, edge: GraphEdge): void {
+	const existing = edges.get(edge.target);
+	if (!existing) {
+		edges.set(edge.target, compactEdge(edge));
+		return;
+	}
+	edges.set(
+		edge.target,
+		compactEdge({
+			...existing,
+			typeOnly: existing.typeOnly && edge.typeOnly,
+			dynamic: existing.dynamic && edge.dynamic,
+			reExport: existing.reExport && edge.reExport,
+			via: existing.via && edge.via ? existing.via : undefined,
+			lines: union(existing.lines, edge.lines).sort((a, b) => a - b),
+			names: union(existing.names, edge.names).sort(),
+		}),
+	);
+}
+
+function union<T>(a: T[] = [], b: T[] = []): T[] {
+	return [...new Set([...a, ...b])];
+}
+
+/** Drop unset flags so graph.json stays small */
+function compactEdge(edge: GraphEdge): GraphEdge {
+	const { typeOnly, dynamic, reExport, via, lines, names, ...rest } = edge;
+	return {
+		...rest,
+		...(typeOnly ? { typeOnly } : {}),
+		...(dynamic ? { dynamic } : {}),
+		...(reExport ? { reExport } : {}),
+		...(via ? { via } : {}),
+		...(lines?.length ? { lines } : {}),
+		...(names?.length ? { names } : {}),
+	};
+}
+
+const CALLABLE_KINDS: SymbolKind[] = ['function', 'constructor', 'getter', 'setter'];
+
+const TEST_KINDS: SymbolKind[] = ['suite', 'test'];
+
+/** Anything a test can exercise */
+const TESTED_KINDS: SymbolKind[] = [
+	'function',
+	'class',
+	'interface',
+	'type',
+	'variable',
+	'enum',
+	'namespace',
+	'property',
+	'constructor',
+	'getter',
+	'setter',
+];
+
+/** Symbol kinds a reference of each kind can point at */
+const REFERENCE_TARGET_KINDS: Record<SymbolReferenceKind, SymbolKind[]> = {
+	extends: ['class', 'interface'],
+	implements: ['class', 'interface', 'type'],
+	'references-type': ['class', 'interface', 'type', 'enum'],
+	instantiates: ['class'],
+	references: ['function', 'variable', 'class', 'enum', 'namespace'],
+};
+
+/**
+ * Spell a path the way `known` paths are spelled (absolute or relative to
+ * the working directory), reusing a known spelling of the same file
+ */
+function spellLike(filePath: string, known: string[]): string {
+	const absolute = resolve(filePath);
+	const match = known.find((k) => resolve(k) === absolute);
+	if (match) return match;
+	if (known.length === 0) return filePath;
+	return known.some((k) => isAbsolute(k)) ? absolute : relative(process.cwd(), absolute);
+}
+
+function isDefaultExport(symbol: ParsedSymbol): boolean {
+	return symbol.name === 'default' || (symbol.modifiers?.includes('default') ?? false);
+}
+
+function symbolNodeId(filePath: string, symbol: ParsedSymbol): string {
+	return `${symbol.kind}:${filePath}:${symbol.name}`;
+}
+
+/**
+ * `name` and the symbols enclosing it, innermost first. Follows `parent`
+ * rather than splitting on `.`, which test titles may contain.
+ */
+function enclosingScopes(symbols: ParsedSymbol[], name: string | null): string[] {
+	const scopes: string[] = [];
+	for (
+		let scope = name ?? undefined;
+		scope;
+		scope = symbols.find((s) => s.name === scope)?.parent
+	) {
+		scopes.push(scope);
+	}
+	return scopes;
+}
+
+/**
+ * Node ids of a file's symbols by qualified name. A getter and setter pair
+ * share a name; the first declaration wins.
+ */
+function symbolIdsByName(filePath: string, parseResult: ParseResult): Map<string, string> {
+	const ids = new Map<string, string>();
+	for (const symbol of parseResult.symbols) {
+		if (!ids.has(symbol.name)) ids.set(symbol.name, symbolNodeId(filePath, symbol));
+	}
+	return ids;
+}
@@ -0,0 +1,79 @@
+import type { GraphEdge, GraphEdgeType } from './graphBuilder.ts';
+
+type Adjacency = Map<GraphEdgeType, Map<string, GraphEdge[]>>;
+
+/**
+ * Forward and reverse adjacency lists of a graph's edges, keyed by edge type,
+ * so neighbor lookups cost the node's degree instead of a scan of every edge
+ */
+export class GraphIndex {
+	private forward: Adjacency = new Map();
+	private reverse: Adjacency = new Map();
+
+	constructor(edges: Iterable<GraphEdge> = []) {
+		for (const edge of edges) this.add(edge);
+	}
+
+	add(edge: GraphEdge): void {
+		listFor(this.forward, edge.type, edge.source).push(edge);
+		listFor(this.reverse, edge.type, edge.target).push(edge);
+	}
+
+	/** Remove this exact edge object (not an equal copy) */
+	remove(edge: GraphEdge): void {
+		dropFrom(this.forward, edge.type, edge.source, edge);
+		dropFrom(this.reverse, edge.type, edge.target, edge);
+	}
+
+	/** Every edge of one type */
+	ofType(type: GraphEdgeType): GraphEdge[] {
+		return [...(this.forward.get(type)?.values() ?? [])].flat();
+	}
+
+	/** Edges leaving a node, of the given types (all types by default), oldest first within a type */
+	outgoing(nodeId: string, types?: GraphEdgeType[]): GraphEdge[] {
+		return collect(this.forward, nodeId, types);
+	}
+
+	/** Edges arriving at a node, of the given types (all types by default), oldest first within a type */
+	incoming(nodeId: string, types?: GraphEdgeType[]): GraphEdge[] {
+		return collect(this.reverse, nodeId, types);
+	}
+}
+
+function listFor(adjacency: Adjacency, type: GraphEdgeType, nodeId: string): GraphEdge[] {
+	let byNode = adjacency.get(type);
+	if (!byNode) {
+		byNode = new Map();
+		adjacency.set(type, byNode);
+	}
+	let list = byNode.get(nodeId);
+	if (!list) {
+		list = [];
+		byNode.set(nodeId, list);
+	}
+	return list;
+}
+
+function dropFrom(
+	adjacency: Adjacency,
+	type: GraphEdgeType,
+	nodeId: string,
+	edge: GraphEdge,
+): void {
+	const byNode = adjacency.get(type);
+	const list = byNode?.get(nodeId);
+	const position = list?.indexOf(edge) ?? -1;
+	if (!list || position === -1) return;
+	list.splice(position, 1);
+	if (list.length === 0) byNode?.delete(nodeId);
+}
+
+function collect(adjacency: Adjacency, nodeId: string, types?: GraphEdgeType[]): GraphEdge[] {
+	const edges: GraphEdge[] = [];
+	for (const type of types ?? adjacency.keys()) {
+		const list = adjacency.get(type)?.get(nodeId);
+		if (list) edges.push(...list);
+	}
+	return edges;
+}
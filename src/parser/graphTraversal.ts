@@ -0,0 +1,285 @@
+import type { CodeGraph, GraphEdge, GraphEdgeType, GraphNode } from './graphBuilder.ts';
+import { GraphIndex } from './graphIndex.ts';
+
+/** The nodes of a graph plus its adjacency index */
+export type GraphView = {
+	nodes: ReadonlyMap<string, GraphNode>;
+	index: GraphIndex;
+};
+
+export type TraversalOptions = {
+	/** `forward` follows edges source to target, `backward` target to source; defaults to forward */
+	direction?: 'forward' | 'backward' | 'both';
+	/** Edge types to follow; all by default */
+	edgeTypes?: GraphEdgeType[];
+	/** Hops from the start; unlimited by default */
+	maxDepth?: number;
+	/** Breadth-first (default) reaches every node by a shortest path */
+	strategy?: 'bfs' | 'dfs';
+};
+
+/** One hop along a path */
+export interface PathStep {
+	from: string;
+	to: string;
+	type: GraphEdgeType;
+	/** The edge points from `to` to `from`: it was followed backwards */
+	reversed: boolean;
+}
+
+/** A node reached from the start, with the path that reached it */
+export interface TraversalHit {
+	node: GraphNode;
+	depth: number;
+	path: PathStep[];
+}
+
+/**
+ * Index a loaded graph for traversal
+ */
+export function graphView(graph: CodeGraph): GraphView {
+	return {
+		nodes: new Map(graph.nodes.map((node) => [node.id, node])),
+		index: new GraphIndex(graph.edges),
+	};
+}
+
+/**
+ * Every node reachable from `startId` within the options' limits, each once,
+ * in visiting order. The start node itself is not included.
+ */
+export function traverse(
+	view: GraphView,
+	startId: string,
+	options: TraversalOptions = {},
+): TraversalHit[] {
+	if (!view.nodes.has(startId)) return [];
+	const maxDepth = options.maxDepth ?? Number.POSITIVE_INFINITY;
+	const depthFirst = options.strategy === 'dfs';
+	const hits: TraversalHit[] = [];
+	// Shallowest depth each node was reached at
+	const reached = new Map<string, number>([[startId, 0]]);
+	const frontier: { id: string; path: PathStep[] }[] = [{ id: startId, path: [] }];
+
+	for (
+		let current = depthFirst ? frontier.pop() : frontier.shift();
+		current !== undefined;
+		current = depthFirst ? frontier.pop() : frontier.shift()
+	) {
+		const depth = current.path.length;
+		if (depthFirst && depth > 0) {
+			// Revisit a node only when a shorter path lets the depth limit reach further
+			const before = reached.get(current.id);
+			if (before !== undefined && before <= depth) continue;
+			if (before === undefined) {
+				const node = view.nodes.get(current.id);
+				if (node) hits.push({ node, depth, path: current.path });
+			}
+			reached.set(current.id, depth);
+		}
+		if (depth >= maxDepth) continue;
+
+		const next = steps(view, current.id, options);
+		if (depthFirst) {
+			// A stack pops last first: push in reverse to visit neighbors in edge order
+			for (const step of next.reverse()) {
+				frontier.push({ id: step.to, path: [...current.path, step] });
+			}
+			continue;
+		}
+		for (const step of next) {
+			if (reached.has(step.to)) continue;
+			reached.set(step.to, depth + 1);
+			const path = [...current.path, step];
+			const node = view.nodes.get(step.to);
+			if (node) hits.push({ node, depth: depth + 1, path });
+			frontier.push({ id: step.to, path });
+		}
+	}
+	return hits;
+}
+
+/**
+ * The shortest path from one node to another, or null when `toId` cannot be
+ * reached within the options' limits
+ */
+export function findShortestPath(
+	view: GraphView,
+	fromId: string,
+	toId: string,
+	options: Omit<TraversalOptions, 'strategy'> = {},
+): TraversalHit | null {
+	const node = view.nodes.get(toId);
+	if (!node || !view.nodes.has(fromId)) return null;
+	if (fromId === toId) return { node, depth: 0, path: [] };
+
+	// Breadth-first, remembering the step that first reached each node
+	const maxDepth = options.maxDepth ?? Number.POSITIVE_INFINITY;
+	const reachedBy = new Map<string, PathStep | null>([[fromId, null]]);
+	let frontier = [fromId];
+	for (let depth = 0; depth < maxDepth && frontier.length > 0; depth++) {
+		const next: string[] = [];
+		for (const id of frontier) {
+			for (const step of steps(view, id, options)) {
+				if (reachedBy.has(step.to)) continue;
+				reachedBy.set(step.to, step);
+				if (step.to === toId) {
+					const path: PathStep[] = [];
+					for (
+						let back: PathStep | null | undefined = step;
+						back;
+						back = reachedBy.get(back.from)
+					) {
+						path.unshift(back);
+					}
+					return { node, depth: path.length, path };
+				}
+				next.push(step.to);
+			}
+		}
+		frontier = next;
+	}
+	return null;
+}
+
+/**
+ * Files a module depends on through imports, directly or transitively, each
+ * with the chain of imports that pulls it in. `backward` lists the files that
+ * depend on the module instead.
+ */
+export function importChain(
+	view: GraphView,
+	fileId: string,
+	options: Pick<TraversalOptions, 'direction' | 'maxDepth'> = {},
+): TraversalHit[] {
+	return traverse(view, fileId, { ...options, edgeTypes: ['imports'], strategy: 'bfs' });
+}
+
+/**
+ * Ids of every node reachable from any of `startIds`, the starts included
+ */
+export function reachableFrom(
+	view: GraphView,
+	startIds: string[],
+	options: Omit<TraversalOptions, 'strategy'> = {},
+): Set<string> {
+	return new Set(distancesFrom(view, startIds, options).keys());
+}
+
+/**
+ * Every node reachable from any of `startIds` with its distance in hops from
+ * the nearest start; the starts themselves are at distance 0
+ */
+export function distancesFrom(
+	view: GraphView,
+	startIds: string[],
+	options: Omit<TraversalOptions, 'strategy'> = {},
+): Map<string, number> {
+	const maxDepth = options.maxDepth ?? Number.POSITIVE_INFINITY;
+	const distances = new Map<string, number>();
+	for (const id of startIds) if (view.nodes.has(id)) distances.set(id, 0);
+	let frontier = [...distances.keys()];
+	for (let depth = 0; depth < maxDepth && frontier.length > 0; depth++) {
+		const next: string[] = [];
+		for (const id of frontier) {
+			for (const step of steps(view, id, options)) {
+				if (distances.has(step.to) || !view.nodes.has(step.to)) continue;
+				distances.set(step.to, depth + 1);
+				next.push(step.to);
+			}
+		}
+		frontier = next;
+	}
+	return distances;
+}
+
+/**
+ * Strongly connected components of the graph given by `ids` and
+ * `successors`: groups of nodes that can all reach one another. Every node
+ * is in exactly one component, a lone node when it is on no cycle.
+ * Components come out in reverse topological order.
+ */
+export function stronglyConnectedComponents(
+	ids: Iterable<string>,
+	successors: (id: string) => Iterable<string>,
+): string[][] {
+	// Tarjan's algorithm with an explicit stack, as import chains can run deep
+	const order = new Map<string, number>();
+	const low = new Map<string, number>();
+	const open: string[] = [];
+	const isOpen = new Set<string>();
+	const components: string[][] = [];
+	const frames: { id: string; next: Iterator<string> }[] = [];
+	const enter = (id: string) => {
+		order.set(id, order.size);
+		low.set(id, order.size - 1);
+		open.push(id);
+		isOpen.add(id);
+		frames.push({ id, next: successors(id)[Symbol.iterator]() });
+	};
+	const lower = (id: string, value: number) => {
+		if (value < (low.get(id) ?? value)) low.set(id, value);
+	};
+
+	for (const root of ids) {
+		if (order.has(root)) continue;
+		enter(root);
+		while (frames.length > 0) {
+			const frame = frames[frames.length - 1] as (typeof frames)[number];
+			const step = frame.next.next();
+			if (!step.done) {
+				const to = step.value;
+				if (!order.has(to)) enter(to);
+				else if (isOpen.has(to)) lower(frame.id, order.get(to) ?? 0);
+				continue;
+			}
+
+			frames.pop();
+			const lowest = low.get(frame.id) ?? 0;
+			const parent = frames[frames.length - 1];
+			if (parent) lower(parent.id, lowest);
+			if (lowest !== order.get(frame.id)) continue;
+			// frame.id is the root of a component: everything opened since belongs to it
+			const component: string[] = [];
+			let member: string | undefined;
+			do {
+				member = open.pop();
+				if (member === undefined) break;
+				isOpen.delete(member);
+				component.push(member);
+			} while (member !== frame.id);
+			components.push(component);
+		}
+	}
+	return components;
+}
+
+/**
+ * A path as readable text: `main -[calls]-> save <-[imports]- app.ts`
+ */
+export function describePath(view: GraphView, startId: string, path: PathStep[]): string {
+	const label = (id: string) => view.nodes.get(id)?.label ?? id;
+	let text = label(startId);
+	for (const step of path) {
+		text += step.reversed ? ` <-[${step.type}]- ` : ` -[${step.type}]-> `;
+		text += label(step.to);
+	}
+	return text;
+}
+
+/** Hops available from a node, in edge order: forward edges before backward ones */
+function steps(view: GraphView, nodeId: string, options: TraversalOptions): PathStep[] {
+	const direction = options.direction ?? 'forward';
+	const result: PathStep[] = [];
+	const add = (edge: GraphEdge, reversed: boolean) => {
+		const to = reversed ? edge.source : edge.target;
+		if (to !== nodeId) result.push({ from: nodeId, to, type: edge.type, reversed });
+	};
+	if (direction !== 'backward') {
+		for (const edge of view.index.outgoing(nodeId, options.edgeTypes)) add(edge, false);
+	}
+	if (direction !== 'forward') {
+		for (const edge of view.index.incoming(nodeId, options.edgeTypes)) add(edge, true);
+	}
+	return result;
+}
@@ -0,0 +1,136 @@
+/**
+ * Minimal .gitignore-compatible pattern matching used by the file indexer
+ */
+
+export type IgnoreRule = {
+	/** Directory (relative to the project root, posix separators) the rule was declared in */
+	base: string;
+	regex: RegExp;
+	negated: boolean;
+	directoryOnly: boolean;
+};
+
+/**
+ * Compile the contents of an ignore file (.gitignore syntax) into rules
+ */
+export function compileIgnorePatterns(text: string, base = ''): IgnoreRule[] {
+	const rules: IgnoreRule[] = [];
+
+	for (const rawLine of text.split(/\r?\n/)) {
+		let line = rawLine.replace(/(?<!\\)\s+$/, '');
+		if (!line || line.startsWith('#')) continue;
+
+		let negated = false;
+		if (line.startsWith('!')) {
+			negated = true;
+			line = line.slice(1);
+		} else if (line.startsWith('\\!') || line.startsWith('\\#')) {
+			line = line.slice(1);
+		}
+
+		let directoryOnly = false;
+		if (line.endsWith('/')) {
+			directoryOnly = true;
+			line = line.replace(/\/+$/, '');
+		}
+		if (!line) continue;
+
+		// A slash anywhere but the end anchors the pattern to the ignore file's directory
+		const anchored = line.includes('/');
+		if (line.startsWith('/')) line = line.slice(1);
+
+		const body = globToRegexSource(line);
+		const regex = new RegExp(anchored ? `^${body}$` : `(?:^|/)${body}$`);
+		rules.push({ base, regex, negated, directoryOnly });
+	}
+
+	return rules;
+}
+
+/**
+ * Decide whether a path is ignored. The last matching rule wins, as in git.
+ *
+ * @param relPath path relative to the project root, posix separators
+ */
+export function isIgnored(rules: IgnoreRule[], relPath: string, isDirectory: boolean): boolean {
+	let ignored = false;
+
+	for (const rule of rules) {
+		if (rule.directoryOnly && !isDirectory) continue;
+
+		let candidate = relPath;
+		if (rule.base) {
+			if (!relPath.startsWith(`${rule.base}/`)) continue;
+			candidate = relPath.slice(rule.base.length + 1);
+		}
+
+		if (rule.regex.test(candidate)) {
+			ignored = !rule.negated;
+		}
+	}
+
+	return ignored;
+}
+
+function globToRegexSource(glob: string): string {
+	let out = '';
+	let i = 0;
+
+	while (i < glob.length) {
+		const char = glob[i] as string;
+
+		if (char === '*') {
+			if (glob[i + 1] === '*') {
+				const atSegmentStart = i === 0 || glob[i - 1] === '/';
+				const next = glob[i + 2];
+				if (atSegmentStart && next === '/') {
+					// "**/" matches zero or more directories
+					out += '(?:.*/)?';
+					i += 3;
+					continue;
+				}
+				if (atSegmentStart && next === undefined) {
+					// trailing "**" matches everything inside
+					out += '.*';
+					i += 2;
+					continue;
+				}
+			}
+			out += '[^/]*';
+			i++;
+			continue;
+		}
+
+		if (char === '?') {
+			out += '[^/]';
+			i++;
+			continue;
+		}
+
+		if (char === '[') {
+			const close = glob.indexOf(']', i + 2);
+			if (close !== -1) {
+				let cls = glob.slice(i + 1, close);
+				if (cls.startsWith('!')) cls = `^${cls.slice(1)}`;
+				out += `[${cls.replace(/\\/g, '\\\\')}]`;
+				i = close + 1;
+				continue;
+			}
+		}
+
+		if (char === '\\' && i + 1 < glob.length) {
+			out += escapeRegex(glob[i + 1] as string);
+			i += 2;
+			continue;
+		}
+
+		out += escapeRegex(char);
+		i++;
+	}
+
+	return out;
+}
+
+function escapeRegex(text: string): string {
+	return text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
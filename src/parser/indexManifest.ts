@@ -0,0 +1,143 @@
+import { join } from 'node:path';
+import { readJson, writeJson } from '../utils/fs.ts';
+import type { IndexedFile } from './fileIndexer.ts';
+import { PARSER_VERSION } from './tsParser.ts';
+
+export interface ManifestEntry {
+	hash: string;
+	mtime: number;
+	size: number;
+}
+
+interface ManifestFile {
+	version: number;
+	parserVersion?: number;
+	files: Record<string, ManifestEntry>;
+}
+
+export interface FileChange {
+	file: IndexedFile;
+	content: string;
+	hash: string;
+}
+
+export interface ManifestDiff {
+	added: FileChange[];
+	modified: FileChange[];
+	removed: string[];
+	unchanged: IndexedFile[];
+}
+
+const MANIFEST_VERSION = 1;
+
+export function hashContent(content: string): string {
+	return new Bun.CryptoHasher('sha256').update(content).digest('hex');
+}
+
+/**
+ * Tracks the content hash and mtime of every indexed file so that
+ * re-indexing only touches files that were added, modified or removed.
+ */
+export class IndexManifest {
+	private readonly manifestPath: string;
+	private entries: Map<string, ManifestEntry> = new Map();
+
+	constructor(dataDir = join(process.cwd(), '.the-gap')) {
+		this.manifestPath = join(dataDir, 'manifest.json');
+	}
+
+	async load(): Promise<void> {
+		const data = await readJson<ManifestFile | null>(this.manifestPath, null);
+		this.entries.clear();
+		// Entries recorded by another parser version describe stale parse output
+		if (!data || data.version !== MANIFEST_VERSION || data.parserVersion !== PARSER_VERSION) return;
+		for (const [path, entry] of Object.entries(data.files)) {
+			this.entries.set(path, entry);
+		}
+	}
+
+	async save(): Promise<void> {
+		const files: Record<string, ManifestEntry> = {};
+		for (const path of [...this.entries.keys()].sort()) {
+			files[path] = this.entries.get(path) as ManifestEntry;
+		}
+		await writeJson(this.manifestPath, {
+			version: MANIFEST_VERSION,
+			parserVersion: PARSER_VERSION,
+			files,
+		} satisfies ManifestFile);
+	}
+
+	get size(): number {
+		return this.entries.size;
+	}
+
+	get(path: string): ManifestEntry | undefined {
+		return this.entries.get(path);
+	}
+
+	paths(): string[] {
+		return [...this.entries.keys()];
+	}
+
+	clear(): void {
+		this.entries.clear();
+	}
+
+	/**
+	 * Compare the current file listing against the manifest.
+	 * Files whose mtime and size are unchanged are trusted without being read;
+	 * everything else is read and compared by content hash.
+	 */
+	async diff(files: IndexedFile[]): Promise<ManifestDiff> {
+		const result: ManifestDiff = { added: [], modified: [], removed: [], unchanged: [] };
+		const seen = new Set<string>();
+
+		for (const file of files) {
+			seen.add(file.path);
+			const entry = this.entries.get(file.path);
+
+			if (entry && entry.mtime === file.mtime && entry.size === file.size) {
+				result.unchanged.push(file);
+				continue;
+			}
+
+			let content: string;
+			try {
+				content = await Bun.file(file.path).text();
+			} catch (error) {
+				console.warn(`Failed to read file ${file.path}:`, error);
+				continue;
+			}
+
+			const hash = hashContent(content);
+			if (!entry) {
+				result.added.push({ file, content, hash });
+			} else if (entry.hash !== hash) {
+				result.modified.push({ file, content, hash });
+			} else {
+				// Touched but not edited: refresh the stat data only
+				this.entries.set(file.path, { ...entry, mtime: file.mtime, size: file.size });
+				result.unchanged.push(file);
+			}
+		}
+
+		for (const path of this.entries.keys()) {
+			if (!seen.has(path)) result.removed.push(path);
+		}
+
+		return result;
+	}
+
+	record(change: FileChange): void {
+		this.entries.set(change.file.path, {
+			hash: change.hash,
+			mtime: change.file.mtime,
+			size: change.file.size,
+		});
+	}
+
+	remove(path: string): void {
+		this.entries.delete(path);
+	}
+}
@@ -0,0 +1,67 @@
+import { extname } from 'node:path';
+import { ParsingError } from '../utils/errors.ts';
+import { pythonParser } from './pyParser.ts';
+import { type ParseResult, parseFileComplete } from './tsParser.ts';
+
+/**
+ * A parser for one language. Every adapter produces the same ParseResult
+ * shape, so symbols, imports and calls from any language land in the same
+ * index and graph.
+ */
+export interface LanguageParser {
+	/** Short identifier, e.g. `typescript` */
+	id: string;
+	/** File extensions handled, including the dot */
+	extensions: string[];
+	parse(filePath: string, sourceText: string): ParseResult;
+	/**
+	 * Candidate paths (without extension probing) for an import specifier.
+	 * Languages without it go through the TypeScript module resolver.
+	 */
+	moduleCandidates?(specifier: string, fromFile: string, projectRoot: string): string[];
+	/** Suffixes tried when matching a candidate path to an indexed file */
+	probeSuffixes?: string[];
+}
+
+export const typescriptParser: LanguageParser = {
+	id: 'typescript',
+	extensions: ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs'],
+	parse: parseFileComplete,
+};
+
+const parsersByExtension: Map<string, LanguageParser> = new Map();
+
+/**
+ * Register a parser for its extensions, replacing any earlier parser for the same ones
+ */
+export function registerLanguageParser(parser: LanguageParser): void {
+	for (const ext of parser.extensions) {
+		parsersByExtension.set(ext, parser);
+	}
+}
+
+export function getLanguageParser(filePath: string): LanguageParser | undefined {
+	return parsersByExtension.get(extname(filePath));
+}
+
+export function supportedExtensions(): string[] {
+	return [...parsersByExtension.keys()];
+}
+
+/**
+ * Parse a file with the parser registered for its extension
+ */
+export function parseSourceFile(filePath: string, sourceText: string): ParseResult {
+	const parser = getLanguageParser(filePath);
+	if (!parser) {
+		throw new ParsingError(
+			`No language parser registered for ${filePath}`,
+			filePath,
+			`Supported extensions: ${supportedExtensions().join(', ')}`,
+		);
+	}
+	return parser.parse(filePath, sourceText);
+}
+
+registerLanguageParser(typescriptParser);
+registerLanguageParser(pythonParser);
@@ -0,0 +1,282 @@
+import { dirname, join, resolve, sep } from 'node:path';
+import ts from 'typescript';
+import { exists, readJson } from '../utils/fs.ts';
+import {
+	distToSource,
+	findPackageBySpecifier,
+	type PackageJson,
+	type WorkspaceLayout,
+	workspaceImportCandidates,
+} from './workspace.ts';
+
+export interface PathMapping {
+	/** Directory that `paths` substitutions are relative to */
+	pathsBase: string;
+	paths: Record<string, string[]>;
+	/** Absolute baseUrl, when configured */
+	baseUrl?: string;
+}
+
+/**
+ * Condition names tried when resolving `exports`/`imports` maps, in order of
+ * preference. Source-ish conditions come first because we index source files.
+ */
+export const EXPORT_CONDITIONS = [
+	'source',
+	'development',
+	'types',
+	'import',
+	'module',
+	'node',
+	'require',
+	'default',
+];
+
+/**
+ * Turns import specifiers into candidate file paths (without extension
+ * probing). Handles relative paths, tsconfig `paths`/`baseUrl`, package.json
+ * `imports` (`#internal`) and `exports`, and workspace packages.
+ */
+export class ModuleResolver {
+	private tsconfigByDir: Map<string, Promise<PathMapping | null>> = new Map();
+	private packageByDir: Map<string, Promise<{ dir: string; manifest: PackageJson } | null>> =
+		new Map();
+
+	constructor(
+		private readonly projectRoot: string,
+		private readonly workspace: WorkspaceLayout | null = null,
+	) {}
+
+	async candidates(specifier: string, fromFile: string): Promise<string[]> {
+		const fromDir = dirname(resolve(fromFile));
+
+		if (specifier.startsWith('.')) {
+			return [resolve(fromDir, specifier)];
+		}
+
+		if (specifier.startsWith('#')) {
+			const pkg = await this.nearestPackage(fromDir);
+			if (!pkg?.manifest.imports) return [];
+			return subpathMapCandidates(pkg.dir, pkg.manifest.imports, specifier);
+		}
+
+		const results: string[] = [];
+
+		const mapping = await this.nearestTsconfig(fromDir);
+		if (mapping) {
+			results.push(...pathMappingCandidates(mapping, specifier));
+		}
+
+		if (this.workspace) {
+			const pkg = findPackageBySpecifier(this.workspace, specifier);
+			if (pkg?.manifest.exports) {
+				const subpath = specifier === pkg.name ? '.' : `./${specifier.slice(pkg.name.length + 1)}`;
+				const exported = subpathMapCandidates(pkg.root, pkg.manifest.exports, subpath);
+				results.push(...exported, ...exported.map(distToSource));
+			}
+			results.push(...workspaceImportCandidates(this.workspace, specifier));
+		}
+
+		return results;
+	}
+
+	private nearestTsconfig(dir: string): Promise<PathMapping | null> {
+		const cached = this.tsconfigByDir.get(dir);
+		if (cached) return cached;
+
+		const lookup = (async () => {
+			const configPath = join(dir, 'tsconfig.json');
+			if (await exists(configPath)) return readPathMapping(configPath, this.projectRoot);
+			const parent = dirname(dir);
+			if (parent === dir || !this.isWithinRoot(parent)) return null;
+			return this.nearestTsconfig(parent);
+		})();
+		this.tsconfigByDir.set(dir, lookup);
+		return lookup;
+	}
+
+	private nearestPackage(dir: string): Promise<{ dir: string; manifest: PackageJson } | null> {
+		const cached = this.packageByDir.get(dir);
+		if (cached) return cached;
+
+		const lookup = (async () => {
+			const manifest = await readJson<PackageJson | null>(join(dir, 'package.json'), null);
+			if (manifest) return { dir, manifest };
+			const parent = dirname(dir);
+			if (parent === dir || !this.isWithinRoot(parent)) return null;
+			return this.nearestPackage(parent);
+		})();
+		this.packageByDir.set(dir, lookup);
+		return lookup;
+	}
+
+	private isWithinRoot(dir: string): boolean {
+		const roots = [this.projectRoot, ...(this.workspace?.packages.map((p) => p.root) ?? [])];
+		return roots.some((root) => dir === root || dir.startsWith(root + sep));
+	}
+}
+
+/**
+ * Read `paths`/`baseUrl` from a tsconfig, following `extends` chains
+ */
+export function readPathMapping(configPath: string, projectRoot: string): PathMapping | null {
+	const visited = new Set<string>();
+
+	const load = (path: string): PathMapping | null => {
+		if (visited.has(path)) return null;
+		visited.add(path);
+
+		const { config } = ts.readConfigFile(path, ts.sys.readFile);
+		if (!config) return null;
+		const configDir = dirname(path);
+
+		// Later entries of an `extends` array override earlier ones
+		let inherited: PathMapping | null = null;
+		const parents: string[] =
+			typeof config.extends === 'string' ? [config.extends] : (config.extends ?? []);
+		for (const parent of parents) {
+			const parentPath = resolveExtends(parent, configDir, projectRoot);
+			const loaded = parentPath ? load(parentPath) : null;
+			if (loaded) inherited = loaded;
+		}
+
+		const options = config.compilerOptions ?? {};
+		const baseUrl: string | undefined =
+			typeof options.baseUrl === 'string'
+				? resolve(configDir, options.baseUrl)
+				: inherited?.baseUrl;
+
+		if (options.paths) {
+			return { paths: options.paths, pathsBase: baseUrl ?? configDir, baseUrl };
+		}
+		if (inherited) {
+			// An explicit baseUrl here re-roots inherited paths
+			const pathsBase =
+				typeof options.baseUrl === 'string' && baseUrl ? baseUrl : inherited.pathsBase;
+			return { ...inherited, baseUrl, pathsBase };
+		}
+		return baseUrl ? { paths: {}, pathsBase: baseUrl, baseUrl } : null;
+	};
+
+	return load(configPath);
+}
+
+function resolveExtends(specifier: string, configDir: string, projectRoot: string): string | null {
+	const candidates = specifier.startsWith('.')
+		? [resolve(configDir, specifier)]
+		: [join(projectRoot, 'node_modules', specifier), join(configDir, 'node_modules', specifier)];
+
+	for (const candidate of candidates) {
+		for (const path of [candidate, `${candidate}.json`, join(candidate, 'tsconfig.json')]) {
+			if (ts.sys.fileExists(path)) return path;
+		}
+	}
+	return null;
+}
+
+/**
+ * Apply tsconfig `paths` patterns (longest matching prefix wins) and `baseUrl`
+ */
+export function pathMappingCandidates(mapping: PathMapping, specifier: string): string[] {
+	let best: { pattern: string; captured: string } | null = null;
+
+	for (const pattern of Object.keys(mapping.paths)) {
+		const star = pattern.indexOf('*');
+		if (star === -1) {
+			if (pattern === specifier) {
+				best = { pattern, captured: '' };
+				break;
+			}
+			continue;
+		}
+
+		const prefix = pattern.slice(0, star);
+		const suffix = pattern.slice(star + 1);
+		if (
+			specifier.length >= prefix.length + suffix.length &&
+			specifier.startsWith(prefix) &&
+			specifier.endsWith(suffix) &&
+			(!best || prefix.length > best.pattern.indexOf('*'))
+		) {
+			best = {
+				pattern,
+				captured: specifier.slice(prefix.length, specifier.length - suffix.length),
+			};
+		}
+	}
+
+	const results: string[] = [];
+	if (best) {
+		for (const target of mapping.paths[best.pattern] ?? []) {
+			results.push(resolve(mapping.pathsBase, target.replace('*', best.captured)));
+		}
+	}
+	if (mapping.baseUrl) {
+		results.push(resolve(mapping.baseUrl, specifier));
+	}
+	return results;
+}
+
+/**
+ * Resolve a key against a package.json `exports` or `imports` map.
+ *
+ * @param key `.`, `./sub/path` for exports, or `#name` for imports
+ */
+export function subpathMapCandidates(packageDir: string, map: unknown, key: string): string[] {
+	if (map === null || map === undefined) return [];
+
+	// Sugar: "exports": "./index.js" or a bare conditions object applies to "."
+	const isSubpathMap =
+		typeof map === 'object' &&
+		!Array.isArray(map) &&
+		Object.keys(map).some((k) => k.startsWith('.') || k.startsWith('#'));
+	if (!isSubpathMap) {
+		return key === '.' ? conditionTargets(map).map((t) => join(packageDir, t)) : [];
+	}
+
+	const entries = map as Record<string, unknown>;
+	if (key in entries) {
+		return conditionTargets(entries[key]).map((t) => join(packageDir, t));
+	}
+
+	// Wildcard patterns: the longest matching prefix wins
+	let best: { pattern: string; captured: string } | null = null;
+	for (const pattern of Object.keys(entries)) {
+		const star = pattern.indexOf('*');
+		if (star === -1) continue;
+		const prefix = pattern.slice(0, star);
+		const suffix = pattern.slice(star + 1);
+		if (
+			key.startsWith(prefix) &&
+			key.endsWith(suffix) &&
+			key.length >= prefix.length + suffix.length &&
+			(!best || prefix.length > best.pattern.indexOf('*'))
+		) {
+			best = { pattern, captured: key.slice(prefix.length, key.length - suffix.length) };
+		}
+	}
+	if (!best) return [];
+
+	const { pattern, captured } = best;
+	return conditionTargets(entries[pattern]).map((t) =>
+		join(packageDir, t.split('*').join(captured)),
+	);
+}
+
+function conditionTargets(value: unknown): string[] {
+	if (typeof value === 'string') {
+		return value.endsWith('.d.ts') ? [] : [value];
+	}
+	if (Array.isArray(value)) {
+		return value.flatMap(conditionTargets);
+	}
+	if (value && typeof value === 'object') {
+		const conditions = value as Record<string, unknown>;
+		const ordered = [
+			...EXPORT_CONDITIONS.filter((c) => c in conditions),
+			...Object.keys(conditions).filter((c) => !EXPORT_CONDITIONS.includes(c)),
+		];
+		return ordered.flatMap((c) => conditionTargets(conditions[c]));
+	}
+	return [];
+}
@@ -0,0 +1,119 @@
+import { availableParallelism } from 'node:os';
+import { parseSourceFile } from './languages.ts';
+import type { ParseResult } from './tsParser.ts';
+
+export type ParseTask = {
+	filePath: string;
+	content: string;
+};
+
+export type ParseOutcome = {
+	filePath: string;
+	result: ParseResult | null;
+	error?: string;
+};
+
+export type ParsePoolOptions = {
+	/** Number of worker threads (defaults to the number of cores minus one) */
+	concurrency?: number;
+	/** Below this many files parsing stays on the main thread */
+	inlineThreshold?: number;
+	onProgress?: (done: number, total: number) => void;
+};
+
+export type ParseTaskMessage = ParseTask & { id: number };
+
+export type ParseTaskReply = {
+	id: number;
+	result: ParseResult | null;
+	error?: string;
+};
+
+export function defaultConcurrency(): number {
+	return Math.max(1, availableParallelism() - 1);
+}
+
+/**
+ * Parse many files across a pool of workers. Outcomes are returned in the
+ * same order as the tasks, regardless of which worker finished first, so
+ * downstream merging is deterministic.
+ */
+export async function parseFilesInParallel(
+	tasks: ParseTask[],
+	options: ParsePoolOptions = {},
+): Promise<ParseOutcome[]> {
+	const concurrency = Math.max(1, options.concurrency ?? defaultConcurrency());
+	const inlineThreshold = options.inlineThreshold ?? 64;
+	const outcomes: ParseOutcome[] = new Array(tasks.length);
+	let done = 0;
+
+	const complete = (index: number, outcome: ParseOutcome): void => {
+		outcomes[index] = outcome;
+		done++;
+		options.onProgress?.(done, tasks.length);
+	};
+
+	if (concurrency === 1 || tasks.length < inlineThreshold) {
+		for (let index = 0; index < tasks.length; index++) {
+			complete(index, parseInline(tasks[index] as ParseTask));
+		}
+		return outcomes;
+	}
+
+	let next = 0;
+	const workerCount = Math.min(concurrency, tasks.length);
+
+	const runWorker = (): Promise<void> =>
+		new Promise((resolve) => {
+			const worker = new Worker(new URL('./parseWorker.ts', import.meta.url).href);
+			let current = -1;
+
+			const dispatch = (): void => {
+				if (next >= tasks.length) {
+					worker.terminate();
+					resolve();
+					return;
+				}
+				current = next++;
+				const task = tasks[current] as ParseTask;
+				worker.postMessage({ id: current, ...task } satisfies ParseTaskMessage);
+			};
+
+			worker.onmessage = (event: MessageEvent<ParseTaskReply>) => {
+				const { id, result, error } = event.data;
+				complete(id, { filePath: (tasks[id] as ParseTask).filePath, result, error });
+				dispatch();
+			};
+
+			worker.onerror = (event) => {
+				// A crashed worker should not lose its file: parse it here and carry on inline
+				console.warn('Parse worker failed, continuing on main thread:', event.message);
+				worker.terminate();
+				if (current >= 0 && !outcomes[current]) {
+					complete(current, parseInline(tasks[current] as ParseTask));
+				}
+				while (next < tasks.length) {
+					const index = next++;
+					complete(index, parseInline(tasks[index] as ParseTask));
+				}
+				resolve();
+			};
+
+			dispatch();
+		});
+
+	await Promise.all(Array.from({ length: workerCount }, runWorker));
+	return outcomes;
+}
+
+function parseInline(task: ParseTask): ParseOutcome {
+	try {
+		return { filePath: task.filePath, result: parseSourceFile(task.filePath, task.content) };
+	} catch (error) {
+		return {
+			filePath: task.filePath,
+			result: null,
+			error: error instanceof Error ? error.message : String(error),
+		};
+	}
+}
@@ -0,0 +1,18 @@
+/**
+ * Worker entry point for the parse pool: parses one file per message
+ */
+import { parseSourceFile } from './languages.ts';
+import type { ParseTaskMessage, ParseTaskReply } from './parsePool.ts';
+
+declare const self: Worker;
+
+self.onmessage = (event: MessageEvent<ParseTaskMessage>) => {
+	const { id, filePath, content } = event.data;
+	let reply: ParseTaskReply;
+	try {
+		reply = { id, result: parseSourceFile(filePath, content) };
+	} catch (error) {
+		reply = { id, result: null, error: error instanceof Error ? error.message : String(error) };
+	}
+	self.postMessage(reply);
+};
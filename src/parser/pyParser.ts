@@ -0,0 +1,610 @@
+import { dirname, join, resolve } from 'node:path';
+import type { LanguageParser } from './languages.ts';
+import { isTestFile } from './testFiles.ts';
+import type {
+	FunctionCall,
+	ImportInfo,
+	ParseDiagnostic,
+	ParsedSymbol,
+	ParseResult,
+	SourceRange,
+	SymbolKind,
+	SymbolMetrics,
+	SymbolParameter,
+	SymbolReference,
+} from './tsParser.ts';
+
+/** A statement, possibly spanning several physical lines (brackets, `\` continuations) */
+type LogicalLine = {
+	/** Offset of the first non-blank character */
+	start: number;
+	/** Offset just past the last character of the last physical line */
+	end: number;
+	indent: number;
+	/** Masked source of the statement, newlines included */
+	code: string;
+};
+
+type Block = {
+	symbol: ParsedSymbol;
+	indent: number;
+	isClass: boolean;
+	/** Offset where the body starts, once known */
+	bodyStart: number | null;
+	lastEnd: number;
+	/** Functions only: complexity so far (lines are filled in on close) */
+	metrics?: SymbolMetrics;
+	/** Indents of the open control-flow statements inside a function */
+	controls: number[];
+};
+
+/** Branches, loops, handlers and short-circuit operators, comprehensions included */
+const DECISION_WORDS = /\b(?:if|elif|for|while|except|and|or)\b/g;
+
+const NESTING_STATEMENT = /^(?:if|elif|else|(?:async\s+)?for|while|except|match)\b/;
+
+const CALL_KEYWORDS = new Set([
+	'and',
+	'assert',
+	'await',
+	'del',
+	'elif',
+	'except',
+	'for',
+	'if',
+	'in',
+	'is',
+	'lambda',
+	'not',
+	'or',
+	'return',
+	'while',
+	'with',
+	'yield',
+]);
+
+/**
+ * Parse Python source without a Python toolchain. Works on logical lines and
+ * indentation rather than a full grammar, which is enough for symbols,
+ * imports, calls and class bases.
+ */
+export function parsePythonFile(filePath: string, sourceText: string): ParseResult {
+	const { masked, stringNewlines } = maskStringsAndComments(sourceText);
+	const lineStarts = computeLineStarts(sourceText);
+	const symbols: ParsedSymbol[] = [];
+	const imports: ImportInfo[] = [];
+	const calls: FunctionCall[] = [];
+	const references: SymbolReference[] = [];
+	const stack: Block[] = [];
+	const testFile = isTestFile(filePath);
+	let exportList: Set<string> | null = null;
+	let decorators: string[] = [];
+	let decoratorStart: number | null = null;
+	let awaitingDocstring: Block | null = null;
+
+	const position = (offset: number) => {
+		let low = 0;
+		let high = lineStarts.length - 1;
+		while (low < high) {
+			const mid = (low + high + 1) >> 1;
+			if ((lineStarts[mid] ?? 0) <= offset) low = mid;
+			else high = mid - 1;
+		}
+		return { line: low + 1, column: offset - (lineStarts[low] ?? 0) + 1 };
+	};
+
+	const rangeOf = (start: number, end: number): SourceRange => {
+		const from = position(start);
+		const to = position(end);
+		return { start, end, ...from, endLine: to.line, endColumn: to.column };
+	};
+
+	const closeBlock = (block: Block) => {
+		const { symbol } = block;
+		const range = rangeOf(symbol.start, block.lastEnd);
+		Object.assign(symbol, {
+			end: range.end,
+			endLine: range.endLine,
+			endColumn: range.endColumn,
+		});
+		if (block.bodyStart !== null && block.bodyStart < block.lastEnd) {
+			symbol.body = rangeOf(block.bodyStart, block.lastEnd);
+		}
+		if (block.metrics) {
+			symbol.metrics = { ...block.metrics, lines: range.endLine - symbol.line + 1 };
+		}
+	};
+
+	const measure = (code: string, indent: number) => {
+		const fn = stack.findLast((block) => !block.isClass);
+		if (!fn?.metrics) return;
+		fn.metrics.complexity += (code.match(DECISION_WORDS) ?? []).length;
+		if (/^case\b/.test(code)) fn.metrics.complexity++;
+		while ((fn.controls[fn.controls.length - 1] ?? -1) >= indent) fn.controls.pop();
+		if (NESTING_STATEMENT.test(code)) {
+			fn.controls.push(indent);
+			fn.metrics.nesting = Math.max(fn.metrics.nesting, fn.controls.length);
+		}
+	};
+
+	const enclosingFunction = (): string | null => {
+		for (let i = stack.length - 1; i >= 0; i--) {
+			const block = stack[i] as Block;
+			if (!block.isClass) return block.symbol.name;
+		}
+		return null;
+	};
+
+	const inTestClass = () => stack[stack.length - 1]?.symbol.kind === 'suite';
+
+	const enclosingClass = (): string | null => {
+		for (let i = stack.length - 1; i >= 0; i--) {
+			const block = stack[i] as Block;
+			if (block.isClass) return block.symbol.name;
+		}
+		return null;
+	};
+
+	const addSymbol = (
+		kind: SymbolKind,
+		name: string,
+		start: number,
+		end: number,
+		details: Partial<ParsedSymbol> = {},
+	): ParsedSymbol => {
+		const parent = stack[stack.length - 1]?.symbol.name;
+		const range = rangeOf(start, end);
+		const symbol: ParsedSymbol = {
+			name: parent ? `${parent}.${name}` : name,
+			kind,
+			filePath,
+			start,
+			end,
+			line: range.line,
+			column: range.column,
+			endLine: range.endLine,
+			endColumn: range.endColumn,
+			exported: !parent && !name.startsWith('_'),
+			...(parent ? { parent } : {}),
+			...details,
+		};
+		symbols.push(symbol);
+		return symbol;
+	};
+
+	for (const line of logicalLines(masked, stringNewlines)) {
+		while (stack.length > 0 && (stack[stack.length - 1] as Block).indent >= line.indent) {
+			closeBlock(stack.pop() as Block);
+		}
+		for (const block of stack) {
+			block.lastEnd = line.end;
+			block.bodyStart ??= line.start;
+		}
+
+		const code = line.code.trim();
+
+		if (awaitingDocstring) {
+			const block = awaitingDocstring;
+			awaitingDocstring = null;
+			if (stack[stack.length - 1] === block && /^[rRuUbBfF]*['"]/.test(code)) {
+				const summary = docstringSummary(sourceText.slice(line.start, line.end));
+				if (summary) block.symbol.doc = { summary, tags: [] };
+			}
+		}
+
+		if (code.startsWith('@')) {
+			decorators.push(
+				sourceText
+					.slice(line.start + 1, line.end)
+					.replace(/\s+/g, ' ')
+					.trim(),
+			);
+			decoratorStart ??= line.start;
+			continue;
+		}
+		const lineDecorators = decorators;
+		const start = decoratorStart ?? line.start;
+		decorators = [];
+		decoratorStart = null;
+
+		const def = code.match(/^(async\s+)?def\s+([A-Za-z_]\w*)\s*\(/);
+		if (def) {
+			const name = def[2] as string;
+			const open = masked.indexOf('(', line.start + (def[0].length - 1));
+			const close = matchingBracket(masked, open);
+			const colon = headerColon(masked, close + 1, line.end);
+			const arrow = masked.slice(close + 1, colon).indexOf('->');
+			const inClass = stack[stack.length - 1]?.isClass ?? false;
+
+			let kind: SymbolKind = 'function';
+			if (inClass && name === '__init__') kind = 'constructor';
+			else if (inClass && lineDecorators.includes('property')) kind = 'getter';
+			else if (inClass && lineDecorators.some((d) => d.endsWith('.setter'))) kind = 'setter';
+			else if (testFile && name.startsWith('test') && (stack.length === 0 || inTestClass())) {
+				kind = 'test';
+			}
+
+			const returnType =
+				arrow >= 0 ? sourceText.slice(close + 1 + arrow + 2, colon).trim() : undefined;
+			const symbol = addSymbol(kind, name, start, line.end, {
+				signature: collapse(sourceText.slice(line.start, colon)),
+				parameters: parseParameters(sourceText, masked, open + 1, close, inClass),
+				...(returnType ? { returnType } : {}),
+				...(lineDecorators.length ? { decorators: lineDecorators } : {}),
+				...(def[1] ? { modifiers: ['async'] } : {}),
+			});
+			const block = openBlock(symbol, line, colon, false);
+			stack.push(block);
+			awaitingDocstring = block;
+			collectCalls(colon + 1, line.end);
+			measure(masked.slice(colon + 1, line.end).trim(), line.indent + 1);
+			continue;
+		}
+
+		const cls = code.match(/^class\s+([A-Za-z_]\w*)\s*[(:[]/);
+		if (cls) {
+			const name = cls[1] as string;
+			const nameEnd = line.start + code.indexOf(name, 'class'.length) + name.length;
+			const colon = headerColon(masked, nameEnd, line.end);
+			const kind = testFile && name.startsWith('Test') ? 'suite' : 'class';
+			const symbol = addSymbol(kind, name, start, line.end, {
+				signature: collapse(sourceText.slice(line.start, colon)),
+				...(lineDecorators.length ? { decorators: lineDecorators } : {}),
+			});
+
+			const open = masked.indexOf('(', nameEnd);
+			if (open >= 0 && open < colon) {
+				for (const [from, to] of splitTopLevel(masked, open + 1, matchingBracket(masked, open))) {
+					const base = sourceText.slice(from, to).trim();
+					if (/^[A-Za-z_][\w.]*$/.test(base)) {
+						references.push({
+							kind: 'extends',
+							fromSymbol: symbol.name,
+							targetName: base,
+							filePath,
+							line: position(from).line,
+						});
+					}
+				}
+			}
+
+			const block = openBlock(symbol, line, colon, true);
+			stack.push(block);
+			awaitingDocstring = block;
+			continue;
+		}
+
+		measure(code, line.indent);
+
+		// Imports, wherever they appear
+		const importLine = position(line.start).line;
+		const importMatch = code.match(/^import\s+(.+)$/s);
+		if (importMatch) {
+			for (const part of (importMatch[1] as string).split(',')) {
+				const [module, alias] = part.trim().split(/\s+as\s+/);
+				if (!module) continue;
+				// Like `import * as ns`: the bound name is the imported name
+				imports.push({
+					importedName: alias ?? (module.split('.')[0] as string),
+					modulePath: module,
+					filePath,
+					isNamespace: true,
+					line: importLine,
+				});
+			}
+		}
+		const fromMatch = code.match(/^from\s+(\S+)\s+import\s+(.+)$/s);
+		if (fromMatch) {
+			const modulePath = fromMatch[1] as string;
+			const names = (fromMatch[2] as string).replace(/[()\\]/g, ' ');
+			for (const part of names.split(',')) {
+				const [importedName, alias] = part.trim().split(/\s+as\s+/);
+				if (!importedName) continue;
+				if (/^\.+$/.test(modulePath) && importedName !== '*') {
+					// `from . import views` imports the sibling module itself
+					imports.push({
+						importedName: alias ?? importedName,
+						modulePath: modulePath + importedName,
+						filePath,
+						isNamespace: true,
+						line: importLine,
+					});
+				} else {
+					imports.push({
+						importedName,
+						modulePath,
+						filePath,
+						...(alias ? { alias } : {}),
+						line: importLine,
+					});
+				}
+			}
+		}
+		if (importMatch || fromMatch) continue;
+
+		// Module constants and class attributes
+		const inFunction = enclosingFunction() !== null;
+		const assignment = code.match(/^([A-Za-z_]\w*)\s*(?::[^=]*)?=(?!=)/);
+		if (assignment && !inFunction) {
+			const name = assignment[1] as string;
+			if (name === '__all__' && stack.length === 0) {
+				exportList = new Set(
+					[...sourceText.slice(line.start, line.end).matchAll(/['"]([A-Za-z_]\w*)['"]/g)].map(
+						(m) => m[1] as string,
+					),
+				);
+			} else {
+				const inClass = stack[stack.length - 1]?.isClass ?? false;
+				const kind: SymbolKind = inClass ? 'property' : 'variable';
+				const parent = stack[stack.length - 1]?.symbol.name;
+				const qualifiedName = parent ? `${parent}.${name}` : name;
+				// Reassignments do not declare anything new
+				if (!symbols.some((s) => s.kind === kind && s.name === qualifiedName)) {
+					addSymbol(kind, name, line.start, line.end, {
+						signature: collapse(sourceText.slice(line.start, line.end)).slice(0, 300),
+					});
+				}
+			}
+		}
+
+		collectCalls(line.start - line.indent, line.end);
+	}
+
+	while (stack.length > 0) {
+		closeBlock(stack.pop() as Block);
+	}
+
+	if (exportList) {
+		const exported = exportList;
+		for (const symbol of symbols) {
+			if (!symbol.parent) symbol.exported = exported.has(symbol.name);
+		}
+	}
+
+	const diagnostics: ParseDiagnostic[] = [];
+	const unbalanced = unbalancedBracket(masked);
+	if (unbalanced) {
+		diagnostics.push({ message: unbalanced.message, ...position(unbalanced.offset) });
+	}
+
+	return { symbols, imports, calls, references, diagnostics };
+
+	function collectCalls(from: number, to: number) {
+		const caller = enclosingFunction();
+		const className = enclosingClass();
+		const code = masked.slice(from, to);
+		for (const match of code.matchAll(/(?<![\w.])((?:[A-Za-z_]\w*\.)*[A-Za-z_]\w*)\s*\(/g)) {
+			let calleeName = match[1] as string;
+			if (CALL_KEYWORDS.has(calleeName)) continue;
+			// `self.save()` inside a class calls the class's own method
+			const owner = calleeName.match(/^(self|cls)\.(.+)$/);
+			if (owner && className) calleeName = `${className}.${owner[2]}`;
+			calls.push({
+				callerFunction: caller,
+				calleeName,
+				filePath,
+				line: position(from + (match.index ?? 0)).line,
+			});
+		}
+	}
+
+	function openBlock(symbol: ParsedSymbol, line: LogicalLine, colon: number, isClass: boolean) {
+		// `def f(): return 1` keeps its body on the header line
+		const inline = masked.slice(colon + 1, line.end).trim();
+		const bodyStart = inline ? colon + 1 + masked.slice(colon + 1).search(/\S/) : null;
+		const metrics = isClass
+			? undefined
+			: { complexity: 1, nesting: 0, lines: 0, parameters: symbol.parameters?.length ?? 0 };
+		return {
+			symbol,
+			indent: line.indent,
+			isClass,
+			bodyStart,
+			lastEnd: line.end,
+			metrics,
+			controls: [],
+		};
+	}
+}
+
+export const pythonParser: LanguageParser = {
+	id: 'python',
+	extensions: ['.py', '.pyi'],
+	parse: parsePythonFile,
+	moduleCandidates(specifier, fromFile, projectRoot) {
+		const dots = specifier.match(/^\.*/)?.[0].length ?? 0;
+		const modulePath = specifier.slice(dots).split('.').filter(Boolean).join('/');
+		if (dots > 0) {
+			// `.` is the current package, each further dot one level up
+			let base = dirname(resolve(fromFile));
+			for (let i = 1; i < dots; i++) base = dirname(base);
+			return [join(base, modulePath)];
+		}
+		return [
+			join(projectRoot, modulePath),
+			join(projectRoot, 'src', modulePath),
+			join(dirname(resolve(fromFile)), modulePath),
+		];
+	},
+	probeSuffixes: ['.py', '.pyi', '/__init__.py'],
+};
+
+/**
+ * Blank out string contents and comments (newlines are kept) so brackets,
+ * colons and keywords can be found without tripping over literals.
+ * Also reports the newlines that sit inside multi-line strings.
+ */
+function maskStringsAndComments(text: string): { masked: string; stringNewlines: Set<number> } {
+	const out = text.split('');
+	const stringNewlines = new Set<number>();
+	let i = 0;
+	while (i < text.length) {
+		const ch = text[i];
+		if (ch === '#') {
+			while (i < text.length && text[i] !== '\n') out[i++] = ' ';
+			continue;
+		}
+		if (ch !== '"' && ch !== "'") {
+			i++;
+			continue;
+		}
+		const quote = text.startsWith(ch.repeat(3), i) ? ch.repeat(3) : ch;
+		i += quote.length;
+		while (i < text.length && !text.startsWith(quote, i)) {
+			// A single-quoted string cannot span lines; stop at the newline if unterminated
+			if (quote.length === 1 && text[i] === '\n') break;
+			if (text[i] === '\\') out[i++] = ' ';
+			if (text[i] === '\n') stringNewlines.add(i);
+			else if (i < text.length) out[i] = ' ';
+			i++;
+		}
+		if (text.startsWith(quote, i)) i += quote.length;
+	}
+	return { masked: out.join(''), stringNewlines };
+}
+
+function* logicalLines(masked: string, stringNewlines: Set<number>): Generator<LogicalLine> {
+	let offset = 0;
+	while (offset < masked.length) {
+		const lineStart = offset;
+		let depth = 0;
+		let end = offset;
+		for (;;) {
+			const newline = masked.indexOf('\n', end);
+			const lineEnd = newline === -1 ? masked.length : newline;
+			for (let i = end; i < lineEnd; i++) {
+				const ch = masked[i];
+				if (ch === '(' || ch === '[' || ch === '{') depth++;
+				else if (ch === ')' || ch === ']' || ch === '}') depth = Math.max(0, depth - 1);
+			}
+			end = lineEnd;
+			const continued =
+				depth > 0 ||
+				stringNewlines.has(newline) ||
+				masked.slice(lineStart, lineEnd).trimEnd().endsWith('\\');
+			if (!continued || newline === -1) break;
+			end = newline + 1;
+		}
+		offset = end + 1;
+
+		const code = masked.slice(lineStart, end);
+		const indent = code.length - code.trimStart().length;
+		if (code.trim()) {
+			yield { start: lineStart + indent, end: lineStart + code.trimEnd().length, indent, code };
+		}
+	}
+}
+
+function computeLineStarts(text: string): number[] {
+	const starts = [0];
+	for (let i = 0; i < text.length; i++) {
+		if (text[i] === '\n') starts.push(i + 1);
+	}
+	return starts;
+}
+
+function matchingBracket(masked: string, open: number): number {
+	let depth = 0;
+	for (let i = open; i < masked.length; i++) {
+		const ch = masked[i];
+		if (ch === '(' || ch === '[' || ch === '{') depth++;
+		else if (ch === ')' || ch === ']' || ch === '}') {
+			depth--;
+			if (depth === 0) return i;
+		}
+	}
+	return masked.length;
+}
+
+/** Offset of the `:` that ends a `def`/`class` header */
+function headerColon(masked: string, from: number, end: number): number {
+	let depth = 0;
+	for (let i = from; i < end; i++) {
+		const ch = masked[i];
+		if (ch === '(' || ch === '[' || ch === '{') depth++;
+		else if (ch === ')' || ch === ']' || ch === '}') depth--;
+		else if (ch === ':' && depth === 0) return i;
+	}
+	return end;
+}
+
+/** [start, end) offsets of the comma-separated items between `from` and `to` */
+function splitTopLevel(masked: string, from: number, to: number): Array<[number, number]> {
+	const parts: Array<[number, number]> = [];
+	let depth = 0;
+	let partStart = from;
+	for (let i = from; i < to; i++) {
+		const ch = masked[i];
+		if (ch === '(' || ch === '[' || ch === '{') depth++;
+		else if (ch === ')' || ch === ']' || ch === '}') depth--;
+		else if (ch === ',' && depth === 0) {
+			parts.push([partStart, i]);
+			partStart = i + 1;
+		}
+	}
+	if (masked.slice(partStart, to).trim()) parts.push([partStart, to]);
+	return parts;
+}
+
+function parseParameters(
+	sourceText: string,
+	masked: string,
+	from: number,
+	to: number,
+	isMethod: boolean,
+): SymbolParameter[] {
+	const parameters: SymbolParameter[] = [];
+	for (const [start, end] of splitTopLevel(masked, from, to)) {
+		const code = masked.slice(start, end);
+		const equals = code.search(/=(?!=)/);
+		const declaration = sourceText.slice(start, equals >= 0 ? start + equals : end).trim();
+		const [rawName, ...typeParts] = declaration.split(':');
+		const name = (rawName ?? '').trim();
+		if (!name || name === '*' || name === '/') continue;
+		if (isMethod && parameters.length === 0 && (name === 'self' || name === 'cls')) continue;
+
+		const type = typeParts.join(':').trim();
+		parameters.push({
+			name: name.replace(/^\*+/, ''),
+			...(type ? { type } : {}),
+			...(equals >= 0 ? { optional: true } : {}),
+			...(name.startsWith('*') ? { rest: true } : {}),
+		});
+	}
+	return parameters;
+}
+
+function docstringSummary(literal: string): string {
+	const body = literal
+		.trim()
+		.replace(/^[rRuUbBfF]*("""|'''|"|')/, '')
+		.replace(/("""|'''|"|')$/, '');
+	return collapse(body.split(/\n\s*\n/)[0] ?? '');
+}
+
+function collapse(text: string): string {
+	return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * The first bracket that is never closed, or closed by the wrong kind
+ */
+function unbalancedBracket(masked: string): { message: string; offset: number } | null {
+	const pairs: Record<string, string> = { ')': '(', ']': '[', '}': '{' };
+	const open: number[] = [];
+	for (let i = 0; i < masked.length; i++) {
+		const ch = masked[i] as string;
+		if (ch === '(' || ch === '[' || ch === '{') {
+			open.push(i);
+		} else if (ch in pairs) {
+			const last = open.pop();
+			if (last === undefined || masked[last] !== pairs[ch]) {
+				return { message: `Unmatched '${ch}'`, offset: i };
+			}
+		}
+	}
+	const last = open.pop();
+	return last === undefined
+		? null
+		: { message: `'${masked[last]}' was never closed`, offset: last };
+}
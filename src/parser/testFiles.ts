@@ -0,0 +1,12 @@
+import { basename } from 'node:path';
+
+/**
+ * Whether a path follows a test file convention: anything under `__tests__/`,
+ * `*.test.*` and `*.spec.*`, or Python's `test_*.py` and `*_test.py`
+ */
+export function isTestFile(filePath: string): boolean {
+	const normalized = filePath.replace(/\\/g, '/');
+	if (/(^|\/)__tests__\//.test(normalized)) return true;
+	const name = basename(normalized);
+	return /\.(test|spec)\.[cm]?[jt]sx?$/.test(name) || /^test_.+\.py$|_test\.py$/.test(name);
+}
@@ -1,21 +1,121 @@
 import ts from 'typescript';
+import { isTestFile } from './testFiles.ts';
 
-export type SymbolKind = 'function' | 'class' | 'interface' | 'type' | 'variable';
+export type SymbolKind =
+	| 'function'
+	| 'class'
+	| 'interface'
+	| 'type'
+	| 'variable'
+	| 'enum'
+	| 'namespace'
+	| 'property'
+	| 'constructor'
+	| 'getter'
+	| 'setter'
+	/** `describe` blocks in test files (test classes in Python) */
+	| 'suite'
+	/** `it` / `test` cases */
+	| 'test';
+
+export type SymbolParameter = {
+	name: string;
+	type?: string;
+	optional?: boolean;
+	rest?: boolean;
+};
+
+export type SymbolDocTag = {
+	name: string;
+	text?: string;
+};
+
+export type SymbolDoc = {
+	summary: string;
+	tags: SymbolDocTag[];
+};
+
+/**
+ * A span of source text. Offsets index into the file text; lines and
+ * columns are 1-based, as editors and `file:line:col` links expect.
+ */
+export type SourceRange = {
+	start: number;
+	end: number;
+	line: number;
+	column: number;
+	endLine: number;
+	endColumn: number;
+};
 
 export type ParsedSymbol = {
+	/** Qualified by the enclosing declarations, e.g. `Store.load` or `outer.inner` */
 	name: string;
 	kind: SymbolKind;
 	filePath: string;
+	/** Offset of the first token of the declaration (leading comments excluded) */
 	start: number;
 	end: number;
+	line: number;
+	column: number;
+	endLine: number;
+	endColumn: number;
+	/** Range of the body (`{ ... }` or arrow expression), when the declaration has one */
+	body?: SourceRange;
 	exported?: boolean;
+	/** Name of the enclosing symbol (class, namespace, function or object) */
+	parent?: string;
+	/** Declaration header, e.g. `async function load(path: string): Promise<void>` */
+	signature?: string;
+	parameters?: SymbolParameter[];
+	returnType?: string;
+	doc?: SymbolDoc;
+	decorators?: string[];
+	/** Modifier keywords other than `export` (async, static, abstract, readonly, ...) */
+	modifiers?: string[];
+	/** Functions with a body only */
+	metrics?: SymbolMetrics;
+};
+
+/**
+ * Size and complexity of one function body. Nested functions are measured
+ * on their own and do not add to their parent's numbers.
+ */
+export type SymbolMetrics = {
+	/** Cyclomatic complexity: 1 + branches, loops, cases, catches and short-circuit operators */
+	complexity: number;
+	/** Deepest nesting of conditionals, loops, switches and catch blocks */
+	nesting: number;
+	lines: number;
+	parameters: number;
 };
 
 export type ImportInfo = {
+	/**
+	 * Name as exported by the target module. For namespace imports this is the
+	 * local namespace name; `*` stands for the whole module (`export *`,
+	 * `import()`, `require()`, `import './x'`).
+	 */
 	importedName: string;
 	modulePath: string;
 	filePath: string;
 	isDefault?: boolean;
+	/** Local (or re-exported) name when it differs: `import { a as b }`, `export * as ns` */
+	alias?: string;
+	/** `import * as ns` */
+	isNamespace?: boolean;
+	/** `import type`, `import { type X }` or `export type { X } from` */
+	typeOnly?: boolean;
+	/** `import('./lazy')` or `new URL('./worker.ts', import.meta.url)` */
+	dynamic?: boolean;
+	/** `require('./x')` */
+	commonJs?: boolean;
+	/** `export { a } from` / `export * from`: the name is passed through, not used here */
+	reExport?: boolean;
+	/** `import './polyfill'`: the module runs, but no name is imported */
+	sideEffect?: boolean;
+	/** 1-based line the import statement (or `import()`/`require()` call) starts on */
+	line?: number;
 };
 
 export type FunctionCall = {
@@ -25,12 +125,78 @@ export type FunctionCall = {
 	line: number;
 };
 
+export type SymbolReferenceKind =
+	| 'extends'
+	| 'implements'
+	| 'references-type'
+	| 'instantiates'
+	/** A declaration of the same file read as a value: `.sort(byName)`, `[...DEFAULTS]` */
+	| 'references';
+
+/**
+ * A use of a type or class by name: heritage clauses, type annotations and `new X()`,
+ * or of a function or constant of the same file as a value.
+ * Names are unresolved; the graph builder maps them to declarations.
+ */
+export type SymbolReference = {
+	kind: SymbolReferenceKind;
+	/** Qualified name of the referencing symbol; null at the top level */
+	fromSymbol: string | null;
+	/** Name as written, e.g. `Embedder` or `ts.Node` */
+	targetName: string;
+	filePath: string;
+	line: number;
+};
+
+/**
+ * A syntax error found while parsing. The rest of the ParseResult is
+ * best-effort recovery output and may be missing or misplace symbols.
+ */
+export type ParseDiagnostic = {
+	message: string;
+	line: number;
+	column: number;
+	/** Compiler error code, e.g. 1005 for `';' expected` */
+	code?: number;
+};
+
 export type ParseResult = {
 	symbols: ParsedSymbol[];
 	imports: ImportInfo[];
 	calls: FunctionCall[];
+	references: SymbolReference[];
+	diagnostics: ParseDiagnostic[];
 };
 
+/**
+ * Bumped whenever the shape or content of ParseResult changes, so persisted
+ * indexes built by an older parser are rebuilt instead of trusted. Indexes
+ * that predate it (including those without symbol signatures and JSDoc) carry
+ * no version and are rebuilt too.
+ */
+export const PARSER_VERSION = 13;
+
+/**
+ * The exact source text of a symbol, or of its body
+ */
+export function extractSymbolSource(
+	sourceText: string,
+	symbol: Pick<ParsedSymbol, 'start' | 'end' | 'body'>,
+	part: 'declaration' | 'body' = 'declaration',
+): string {
+	if (part === 'body') {
+		return symbol.body ? sourceText.slice(symbol.body.start, symbol.body.end) : '';
+	}
+	return sourceText.slice(symbol.start, symbol.end);
+}
+
+/**
+ * `path:line:column`, the form terminals and editors turn into links
+ */
+export function formatLocation(symbol: Pick<ParsedSymbol, 'filePath' | 'line' | 'column'>): string {
+	return `${symbol.filePath}:${symbol.line}:${symbol.column}`;
+}
+
 export function parseFileSymbols(filePath: string, sourceText: string): ParsedSymbol[] {
 	const result = parseFileComplete(filePath, sourceText);
 	return result.symbols;
@@ -41,11 +207,189 @@ export function parseFileComplete(filePath: string, sourceText: string): ParseRe
 	const symbols: ParsedSymbol[] = [];
 	const imports: ImportInfo[] = [];
 	const calls: FunctionCall[] = [];
+	const references: SymbolReference[] = [];
+	const seenReferences = new Set<string>();
+	// Unqualified names of the file's declarations
+	const declared = new Set<string>();
+	const testFile = isTestFile(filePath);
 	let currentFunction: string | null = null;
+	// Qualified name of the innermost enclosing declaration
+	let container: string | null = null;
+
+	function add(
+		node: ts.Node,
+		kind: SymbolKind,
+		name: string,
+		exported = false,
+		fn?: ts.SignatureDeclaration,
+		decl?: ts.VariableDeclaration,
+	): string {
+		const parent = container ?? undefined;
+		const qualifiedName = parent ? `${parent}.${name}` : name;
+		declared.add(name);
+		const { line, column, endLine, endColumn, start, end } = rangeOf(
+			node.getStart(sourceFile),
+			node.end,
+		);
+		const body = bodyRange(node, fn);
+		const details = describeSymbol(node, fn, decl);
+		symbols.push({
+			name: qualifiedName,
+			kind,
+			filePath,
+			start,
+			end,
+			line,
+			column,
+			endLine,
+			endColumn,
+			...(body ? { body } : {}),
+			exported,
+			...(parent ? { parent } : {}),
+			...details,
+		});
+		return qualifiedName;
+	}
+
+	function rangeOf(start: number, end: number): SourceRange {
+		const from = sourceFile.getLineAndCharacterOfPosition(start);
+		const to = sourceFile.getLineAndCharacterOfPosition(end);
+		return {
+			start,
+			end,
+			line: from.line + 1,
+			column: from.character + 1,
+			endLine: to.line + 1,
+			endColumn: to.character + 1,
+		};
+	}
+
+	function bodyRange(node: ts.Node, fn?: ts.SignatureDeclaration): SourceRange | undefined {
+		const fnLike = fn ?? (ts.isFunctionLike(node) ? node : undefined);
+		if (fnLike && 'body' in fnLike && fnLike.body) {
+			const body = fnLike.body as ts.Node;
+			return rangeOf(body.getStart(sourceFile), body.end);
+		}
+		if (
+			ts.isClassDeclaration(node) ||
+			ts.isInterfaceDeclaration(node) ||
+			ts.isEnumDeclaration(node)
+		) {
+			// From the opening brace to the closing one
+			return rangeOf(node.members.pos - 1, node.end);
+		}
+		if (ts.isModuleDeclaration(node) && node.body && ts.isModuleBlock(node.body)) {
+			return rangeOf(node.body.getStart(sourceFile), node.body.end);
+		}
+		return undefined;
+	}
+
+	/**
+	 * Collect signature text, parameters, return type, JSDoc, decorators and modifiers.
+	 * `fn` is the function-like node when it differs from the declaration (arrow functions).
+	 */
+	function describeSymbol(
+		node: ts.Node,
+		fn?: ts.SignatureDeclaration,
+		decl?: ts.VariableDeclaration,
+	): Partial<ParsedSymbol> {
+		const details: Partial<ParsedSymbol> = {};
+		const signatureNode = fn ?? (ts.isFunctionLike(node) ? node : undefined);
 
-	function add(node: ts.Node, kind: SymbolKind, name: string, exported = false) {
-		const { pos, end } = node;
-		symbols.push({ name, kind, filePath, start: pos, end, exported });
+		const signature = decl ? variableSignature(decl, fn) : signatureText(node, fn);
+		if (signature) details.signature = signature;
+
+		if (signatureNode) {
+			details.parameters = signatureNode.parameters.map((p) => ({
+				name: p.name.getText(sourceFile),
+				type: p.type?.getText(sourceFile),
+				optional: Boolean(p.questionToken || p.initializer) || undefined,
+				rest: Boolean(p.dotDotDotToken) || undefined,
+			}));
+			if (signatureNode.type) details.returnType = signatureNode.type.getText(sourceFile);
+			if ('body' in signatureNode && signatureNode.body) {
+				details.metrics = measureFunction(signatureNode, signatureNode.body as ts.Node, sourceFile);
+			}
+		}
+
+		const doc = jsDocOf(node);
+		if (doc) details.doc = doc;
+
+		const decorators = ts.canHaveDecorators(node) ? ts.getDecorators(node) : undefined;
+		if (decorators?.length) {
+			details.decorators = decorators.map((d) => d.expression.getText(sourceFile));
+		}
+
+		const modifiers = [...modifierKeywords(node), ...(fn ? modifierKeywords(fn) : [])];
+		if (modifiers.length) details.modifiers = modifiers;
+
+		return details;
+	}
+
+	function modifierKeywords(node: ts.Node): string[] {
+		const modifiers = ts.canHaveModifiers(node) ? ts.getModifiers(node) : undefined;
+		return (modifiers ?? [])
+			.filter((m) => m.kind !== ts.SyntaxKind.ExportKeyword)
+			.map((m) => m.getText(sourceFile));
+	}
+
+	function signatureText(node: ts.Node, fn?: ts.SignatureDeclaration): string | undefined {
+		// Start after decorators so the header reads like the declaration itself
+		const decorators = ts.canHaveDecorators(node) ? ts.getDecorators(node) : undefined;
+		const lastDecorator = decorators?.[decorators.length - 1];
+		const start = lastDecorator ? lastDecorator.end : node.getStart(sourceFile);
+
+		let end = node.end;
+		if (fn && ts.isArrowFunction(fn)) {
+			end = fn.equalsGreaterThanToken.end;
+		} else if (fn && 'body' in fn && fn.body) {
+			end = fn.body.getStart(sourceFile);
+		} else if (ts.isFunctionLike(node) && 'body' in node && node.body) {
+			end = node.body.getStart(sourceFile);
+		} else if (
+			ts.isClassDeclaration(node) ||
+			ts.isInterfaceDeclaration(node) ||
+			ts.isEnumDeclaration(node)
+		) {
+			end = node.members.pos - 1;
+		} else if (ts.isModuleDeclaration(node) && node.body) {
+			end = node.body.getStart(sourceFile);
+		}
+
+		const text = sourceText.slice(start, Math.max(start, end)).replace(/\s+/g, ' ').trim();
+		return truncate(text.replace(/[=;{]\s*$/, '').trim(), 300) || undefined;
+	}
+
+	function variableSignature(decl: ts.VariableDeclaration, fn?: ts.SignatureDeclaration): string {
+		const flags = decl.parent.flags;
+		const keyword = flags & ts.NodeFlags.Const ? 'const' : flags & ts.NodeFlags.Let ? 'let' : 'var';
+		const typeText = decl.type ? `: ${decl.type.getText(sourceFile)}` : '';
+		let text = `${keyword} ${decl.name.getText(sourceFile)}${typeText}`;
+		if (fn && ts.isArrowFunction(fn)) {
+			const header = sourceText.slice(fn.getStart(sourceFile), fn.equalsGreaterThanToken.end);
+			text += ` = ${header}`;
+		} else if (fn && ts.isFunctionExpression(fn)) {
+			const header = sourceText.slice(fn.getStart(sourceFile), fn.body.getStart(sourceFile));
+			text += ` = ${header}`;
+		}
+		return truncate(text.replace(/\s+/g, ' ').trim(), 300);
+	}
+
+	function jsDocOf(node: ts.Node): SymbolDoc | undefined {
+		const docs = ts.getJSDocCommentsAndTags(node).filter(ts.isJSDoc);
+		const lastDoc = docs[docs.length - 1];
+		if (!lastDoc) return undefined;
+
+		const summary = (ts.getTextOfJSDocComment(lastDoc.comment) ?? '').split(/\n\s*\n/)[0] ?? '';
+		const tags: SymbolDocTag[] = (lastDoc.tags ?? []).map((tag) => {
+			const comment = ts.getTextOfJSDocComment(tag.comment)?.replace(/^-\s*/, '');
+			const subject = ts.isJSDocParameterTag(tag) ? tag.name.getText(sourceFile) : undefined;
+			const text = [subject, comment].filter(Boolean).join(' ');
+			return text ? { name: tag.tagName.text, text } : { name: tag.tagName.text };
+		});
+
+		if (!summary.trim() && tags.length === 0) return undefined;
+		return { summary: summary.replace(/\s+/g, ' ').trim(), tags };
 	}
 
 	function getLineNumber(pos: number): number {
@@ -53,59 +397,166 @@ export function parseFileComplete(filePath: string, sourceText: string): ParseRe
 	}
 
 	function isExported(node: ts.Node): boolean {
-		return node.modifiers?.some((mod) => mod.kind === ts.SyntaxKind.ExportKeyword) ?? false;
+		const modifiers = ts.canHaveModifiers(node) ? ts.getModifiers(node) : undefined;
+		return modifiers?.some((mod) => mod.kind === ts.SyntaxKind.ExportKeyword) ?? false;
 	}
 
-	function visit(node: ts.Node) {
-		// Track current function context for call resolution
+	/**
+	 * Record a member of an object literal bound to `owner` (`const api = { load() {} }`).
+	 * Returns false for properties that are not functions.
+	 */
+	function addObjectMember(member: ts.ObjectLiteralElementLike): boolean {
+		if (ts.isMethodDeclaration(member)) {
+			enter(member, add(member, 'function', memberName(member.name)));
+			return true;
+		}
+		if (ts.isPropertyAssignment(member) && isFunctionValue(member.initializer)) {
+			enter(member, add(member, 'function', memberName(member.name), false, member.initializer));
+			return true;
+		}
+		return false;
+	}
+
+	/** `title`, or `title #2`, `title #3`, ... when an earlier block in the same scope has it */
+	function testTitle(title: string): string {
+		const taken = (name: string) =>
+			symbols.some((s) => s.name === (container ? `${container}.${name}` : name));
+		let unique = title;
+		for (let n = 2; taken(unique); n++) unique = `${title} #${n}`;
+		return unique;
+	}
+
+	/**
+	 * Visit the children of a declaration with it as the enclosing scope
+	 */
+	function enter(node: ts.Node, name: string, callable = true) {
 		const prevFunction = currentFunction;
+		const prevContainer = container;
+		container = name;
+		if (callable) currentFunction = name;
+		ts.forEachChild(node, visit);
+		currentFunction = prevFunction;
+		container = prevContainer;
+	}
 
-		// Extract function declarations
-		if (ts.isFunctionDeclaration(node) && node.name) {
-			const funcName = node.name.text;
-			add(node, 'function', funcName, isExported(node));
-			currentFunction = funcName;
-		}
-
-		// Extract class declarations and their methods
-		if (ts.isClassDeclaration(node) && node.name) {
-			add(node, 'class', node.name.text, isExported(node));
-			// Extract class methods
-			for (const member of node.members) {
-				if (ts.isMethodDeclaration(member) && ts.isIdentifier(member.name)) {
-					const methodName = `${node.name.text}.${member.name.text}`;
-					add(member, 'function', methodName, false);
-					currentFunction = methodName;
-					ts.forEachChild(member, visit);
-					currentFunction = prevFunction;
-				}
+	function addReference(kind: SymbolReferenceKind, targetName: string, node: ts.Node) {
+		const key = `${kind}\0${container}\0${targetName}`;
+		if (seenReferences.has(key)) return;
+		seenReferences.add(key);
+		references.push({
+			kind,
+			fromSymbol: container,
+			targetName,
+			filePath,
+			line: getLineNumber(node.getStart(sourceFile)),
+		});
+	}
+
+	/** `Foo` or `ns.Foo`; null for anything that is not a plain (dotted) name */
+	function entityName(expression: ts.Expression): string | null {
+		if (ts.isIdentifier(expression)) return expression.text;
+		if (ts.isPropertyAccessExpression(expression)) {
+			const left = entityName(expression.expression);
+			return left ? `${left}.${expression.name.text}` : null;
+		}
+		return null;
+	}
+
+	function memberName(name: ts.PropertyName): string {
+		if (ts.isIdentifier(name) || ts.isPrivateIdentifier(name)) return name.text;
+		if (ts.isStringLiteral(name) || ts.isNumericLiteral(name)) return name.text;
+		return name.getText(sourceFile);
+	}
+
+	function visit(node: ts.Node) {
+		// Function declarations, including nested ones and `export default function () {}`
+		if (ts.isFunctionDeclaration(node)) {
+			enter(node, add(node, 'function', node.name?.text ?? 'default', isExported(node)));
+			return;
+		}
+
+		if (ts.isClassDeclaration(node)) {
+			enter(node, add(node, 'class', node.name?.text ?? 'default', isExported(node)), false);
+			return;
+		}
+
+		// Class members; `container` is the class name here
+		if (ts.isClassLike(node.parent)) {
+			if (ts.isMethodDeclaration(node)) {
+				enter(node, add(node, 'function', memberName(node.name)));
+				return;
+			}
+			if (ts.isConstructorDeclaration(node)) {
+				enter(node, add(node, 'constructor', 'constructor'));
+				return;
+			}
+			if (ts.isGetAccessorDeclaration(node) || ts.isSetAccessorDeclaration(node)) {
+				const kind: SymbolKind = ts.isGetAccessorDeclaration(node) ? 'getter' : 'setter';
+				enter(node, add(node, kind, memberName(node.name)));
+				return;
+			}
+			if (ts.isPropertyDeclaration(node)) {
+				// `handler = () => {}` behaves like a method
+				const fn =
+					node.initializer && isFunctionValue(node.initializer) ? node.initializer : undefined;
+				const name = add(node, fn ? 'function' : 'property', memberName(node.name), false, fn);
+				enter(node, name, fn !== undefined);
+				return;
 			}
 		}
 
-		// Extract interfaces
 		if (ts.isInterfaceDeclaration(node)) {
-			add(node, 'interface', node.name.text, isExported(node));
+			enter(node, add(node, 'interface', node.name.text, isExported(node)), false);
+			return;
 		}
 
-		// Extract type aliases
 		if (ts.isTypeAliasDeclaration(node)) {
-			add(node, 'type', node.name.text, isExported(node));
+			enter(node, add(node, 'type', node.name.text, isExported(node)), false);
+			return;
+		}
+
+		if (ts.isEnumDeclaration(node)) {
+			enter(node, add(node, 'enum', node.name.text, isExported(node)), false);
+			return;
 		}
 
-		// Extract variables (including arrow functions)
+		// `namespace A.B {}` nests a declaration for B inside the one for A
+		if (ts.isModuleDeclaration(node)) {
+			enter(node, add(node, 'namespace', node.name.text, isExported(node)), false);
+			return;
+		}
+
+		// Variables, arrow functions and function expressions
 		if (ts.isVariableStatement(node)) {
 			const exported = isExported(node);
 			for (const decl of node.declarationList.declarations) {
-				if (ts.isIdentifier(decl.name)) {
-					// Check if it's an arrow function
-					const isArrowFunc = decl.initializer && ts.isArrowFunction(decl.initializer);
-					const kind: SymbolKind = isArrowFunc ? 'function' : 'variable';
-					const varName = decl.name.text;
-					add(node, kind, varName, exported);
-					if (isArrowFunc) {
-						currentFunction = varName;
-					}
+				if (!ts.isIdentifier(decl.name)) {
+					ts.forEachChild(decl, visit);
+					continue;
 				}
+				const fn =
+					decl.initializer && isFunctionValue(decl.initializer) ? decl.initializer : undefined;
+				// Locals inside function bodies only count when they are functions themselves
+				if (!fn && ts.findAncestor(node.parent, ts.isFunctionLike)) {
+					ts.forEachChild(decl, visit);
+					continue;
+				}
+				const name = add(node, fn ? 'function' : 'variable', decl.name.text, exported, fn, decl);
+				visitBoundValue(decl, decl.initializer, name, fn);
+			}
+			return;
+		}
+
+		// `export default () => {}` and `export default { ... }`
+		if (ts.isExportAssignment(node) && !node.isExportEquals) {
+			const value = node.expression;
+			if (isFunctionValue(value)) {
+				enter(node, add(node, 'function', 'default', true, value));
+				return;
+			}
+			if (ts.isObjectLiteralExpression(value)) {
+				visitBoundValue(node, value, add(node, 'variable', 'default', true));
+				return;
 			}
 		}
 
@@ -115,8 +566,11 @@ export function parseFileComplete(filePath: string, sourceText: string): ParseRe
 			if (ts.isStringLiteral(moduleSpecifier)) {
 				const modulePath = moduleSpecifier.text;
 				const importClause = node.importClause;
+				const line = getLineNumber(node.getStart(sourceFile));
 
 				if (importClause) {
+					const typeOnly = importClause.isTypeOnly || undefined;
+
 					// Default import
 					if (importClause.name) {
 						imports.push({
@@ -124,6 +578,8 @@ export function parseFileComplete(filePath: string, sourceText: string): ParseRe
 							modulePath,
 							filePath,
 							isDefault: true,
+							typeOnly,
+							line,
 						});
 					}
 
@@ -132,10 +588,13 @@ export function parseFileComplete(filePath: string, sourceText: string): ParseRe
 						if (ts.isNamedImports(importClause.namedBindings)) {
 							for (const element of importClause.namedBindings.elements) {
 								imports.push({
-									importedName: element.name.text,
+									importedName: (element.propertyName ?? element.name).text,
 									modulePath,
 									filePath,
 									isDefault: false,
+									...(element.propertyName ? { alias: element.name.text } : {}),
+									typeOnly: typeOnly || element.isTypeOnly || undefined,
+									line,
 								});
 							}
 						}
@@ -146,13 +605,147 @@ export function parseFileComplete(filePath: string, sourceText: string): ParseRe
 								modulePath,
 								filePath,
 								isDefault: false,
+								isNamespace: true,
+								typeOnly,
+								line,
 							});
 						}
 					}
+				} else {
+					imports.push({ importedName: '*', modulePath, filePath, sideEffect: true, line });
 				}
 			}
 		}
 
+		// Re-exports: `export * from`, `export * as ns from`, `export { a as b } from`
+		if (
+			ts.isExportDeclaration(node) &&
+			node.moduleSpecifier &&
+			ts.isStringLiteral(node.moduleSpecifier)
+		) {
+			const modulePath = node.moduleSpecifier.text;
+			const typeOnly = node.isTypeOnly || undefined;
+			const clause = node.exportClause;
+			const line = getLineNumber(node.getStart(sourceFile));
+
+			if (!clause || ts.isNamespaceExport(clause)) {
+				imports.push({
+					importedName: '*',
+					modulePath,
+					filePath,
+					...(clause ? { alias: clause.name.text } : {}),
+					typeOnly,
+					reExport: true,
+					line,
+				});
+			} else {
+				for (const element of clause.elements) {
+					const importedName = (element.propertyName ?? element.name).text;
+					imports.push({
+						importedName,
+						modulePath,
+						filePath,
+						isDefault: importedName === 'default',
+						...(element.propertyName ? { alias: element.name.text } : {}),
+						typeOnly: typeOnly || element.isTypeOnly || undefined,
+						reExport: true,
+						line,
+					});
+				}
+			}
+		}
+
+		// `import fs = require('fs')`
+		if (
+			ts.isImportEqualsDeclaration(node) &&
+			ts.isExternalModuleReference(node.moduleReference) &&
+			ts.isStringLiteral(node.moduleReference.expression)
+		) {
+			imports.push({
+				importedName: node.name.text,
+				modulePath: node.moduleReference.expression.text,
+				filePath,
+				isNamespace: true,
+				typeOnly: node.isTypeOnly || undefined,
+				commonJs: true,
+				line: getLineNumber(node.getStart(sourceFile)),
+			});
+		}
+
+		// `import('./lazy')` and `require('./x')` with literal specifiers
+		if (ts.isCallExpression(node) && node.arguments.length >= 1) {
+			const [specifier] = node.arguments;
+			const isDynamic = node.expression.kind === ts.SyntaxKind.ImportKeyword;
+			const isRequire = ts.isIdentifier(node.expression) && node.expression.text === 'require';
+			if ((isDynamic || isRequire) && specifier && ts.isStringLiteralLike(specifier)) {
+				imports.push({
+					importedName: '*',
+					modulePath: specifier.text,
+					filePath,
+					...(isDynamic ? { dynamic: true } : { commonJs: true }),
+					line: getLineNumber(node.getStart(sourceFile)),
+				});
+			}
+		}
+
+		// `new URL('./worker.ts', import.meta.url)`: files loaded at runtime, such as workers
+		if (
+			ts.isNewExpression(node) &&
+			ts.isIdentifier(node.expression) &&
+			node.expression.text === 'URL'
+		) {
+			const [specifier, base] = node.arguments ?? [];
+			if (
+				specifier &&
+				ts.isStringLiteralLike(specifier) &&
+				specifier.text.startsWith('.') &&
+				base &&
+				ts.isPropertyAccessExpression(base) &&
+				ts.isMetaProperty(base.expression) &&
+				base.name.text === 'url'
+			) {
+				imports.push({
+					importedName: '*',
+					modulePath: specifier.text,
+					filePath,
+					dynamic: true,
+					line: getLineNumber(node.getStart(sourceFile)),
+				});
+			}
+		}
+
+		// Heritage clauses: `extends Base`, `implements Embedder`
+		if (ts.isHeritageClause(node)) {
+			const kind = node.token === ts.SyntaxKind.ImplementsKeyword ? 'implements' : 'extends';
+			for (const type of node.types) {
+				const targetName = entityName(type.expression);
+				if (targetName) addReference(kind, targetName, type);
+			}
+		}
+
+		// Type annotations, generic arguments, `satisfies` and the like
+		if (ts.isTypeReferenceNode(node)) {
+			addReference('references-type', node.typeName.getText(sourceFile), node);
+		}
+
+		if (ts.isNewExpression(node)) {
+			const targetName = entityName(node.expression);
+			if (targetName) addReference('instantiates', targetName, node);
+		}
+
+		if (ts.isIdentifier(node) && isValueRead(node)) {
+			addReference('references', node.text, node);
+		}
+
+		// `describe('...', () => {})` and `it('...', () => {})`: calls inside belong to the block
+		if (testFile && ts.isCallExpression(node)) {
+			const block = testBlock(node);
+			if (block) {
+				enter(node, add(node, block.kind, testTitle(block.title), false, block.fn));
+				return;
+			}
+		}
+
 		// Extract function calls
 		if (ts.isCallExpression(node)) {
 			const expression = node.expression;
@@ -182,9 +775,180 @@ export function parseFileComplete(filePath: string, sourceText: string): ParseRe
 		}
 
 		ts.forEachChild(node, visit);
-		currentFunction = prevFunction;
+	}
+
+	/**
+	 * Visit the value bound to a variable or default export, recording
+	 * object-literal methods as members of `name`
+	 */
+	function visitBoundValue(
+		owner: ts.Node,
+		value: ts.Expression | undefined,
+		name: string,
+		fn?: ts.SignatureDeclaration,
+	) {
+		if (fn || !value || !ts.isObjectLiteralExpression(value)) {
+			enter(owner, name, fn !== undefined);
+			return;
+		}
+		const prevContainer = container;
+		container = name;
+		for (const member of value.properties) {
+			if (!addObjectMember(member)) visit(member);
+		}
+		container = prevContainer;
 	}
 
 	visit(sourceFile);
-	return { symbols, imports, calls };
+	// Value reads of anything not declared here are locals, parameters or imports
+	return {
+		symbols,
+		imports,
+		calls,
+		references: references.filter((r) => r.kind !== 'references' || declared.has(r.targetName)),
+		diagnostics: syntaxDiagnostics(sourceFile),
+	};
+}
+
+/**
+ * An identifier read as a value, rather than declared, called, constructed,
+ * named as a property or used as a type
+ */
+function isValueRead(node: ts.Identifier): boolean {
+	const parent = node.parent;
+	if (ts.isShorthandPropertyAssignment(parent)) return true;
+	if ((ts.isCallExpression(parent) || ts.isNewExpression(parent)) && parent.expression === node) {
+		return false;
+	}
+	if ('name' in parent && parent.name === node) return false;
+	if ('propertyName' in parent && parent.propertyName === node) return false;
+	return !(
+		ts.isTypeReferenceNode(parent) ||
+		ts.isQualifiedName(parent) ||
+		ts.isExpressionWithTypeArguments(parent) ||
+		ts.isLabeledStatement(parent) ||
+		ts.isBreakOrContinueStatement(parent) ||
+		ts.isTypeParameterDeclaration(parent)
+	);
+}
+
+const DECISION_OPERATORS = new Set([
+	ts.SyntaxKind.AmpersandAmpersandToken,
+	ts.SyntaxKind.BarBarToken,
+	ts.SyntaxKind.QuestionQuestionToken,
+	ts.SyntaxKind.AmpersandAmpersandEqualsToken,
+	ts.SyntaxKind.BarBarEqualsToken,
+	ts.SyntaxKind.QuestionQuestionEqualsToken,
+]);
+
+function measureFunction(
+	fn: ts.SignatureDeclaration,
+	body: ts.Node,
+	sourceFile: ts.SourceFile,
+): SymbolMetrics {
+	let complexity = 1;
+	let nesting = 0;
+
+	const walk = (node: ts.Node, depth: number): void => {
+		if (ts.isFunctionLike(node) || ts.isClassLike(node)) return;
+		if (isDecisionPoint(node)) complexity++;
+		// `else if` continues its chain rather than nesting inside it
+		const elseIf =
+			ts.isIfStatement(node) && ts.isIfStatement(node.parent) && node.parent.elseStatement === node;
+		const inner = isNestingNode(node) && !elseIf ? depth + 1 : depth;
+		nesting = Math.max(nesting, inner);
+		ts.forEachChild(node, (child) => walk(child, inner));
+	};
+	// Expression-bodied arrows have no block to descend from
+	if (ts.isBlock(body)) ts.forEachChild(body, (child) => walk(child, 0));
+	else walk(body, 0);
+
+	const startLine = sourceFile.getLineAndCharacterOfPosition(fn.getStart(sourceFile)).line;
+	const endLine = sourceFile.getLineAndCharacterOfPosition(fn.end).line;
+	return {
+		complexity,
+		nesting,
+		lines: endLine - startLine + 1,
+		parameters: fn.parameters.filter((p) => !ts.isIdentifier(p.name) || p.name.text !== 'this')
+			.length,
+	};
+}
+
+function isDecisionPoint(node: ts.Node): boolean {
+	switch (node.kind) {
+		case ts.SyntaxKind.IfStatement:
+		case ts.SyntaxKind.ConditionalExpression:
+		case ts.SyntaxKind.ForStatement:
+		case ts.SyntaxKind.ForInStatement:
+		case ts.SyntaxKind.ForOfStatement:
+		case ts.SyntaxKind.WhileStatement:
+		case ts.SyntaxKind.DoStatement:
+		case ts.SyntaxKind.CaseClause:
+		case ts.SyntaxKind.CatchClause:
+			return true;
+		case ts.SyntaxKind.BinaryExpression:
+			return DECISION_OPERATORS.has((node as ts.BinaryExpression).operatorToken.kind);
+		default:
+			return false;
+	}
+}
+
+function isNestingNode(node: ts.Node): boolean {
+	return (
+		ts.isIfStatement(node) ||
+		ts.isIterationStatement(node, false) ||
+		ts.isSwitchStatement(node) ||
+		ts.isCatchClause(node)
+	);
+}
+
+const TEST_FUNCTIONS: Record<string, SymbolKind> = {
+	describe: 'suite',
+	suite: 'suite',
+	context: 'suite',
+	it: 'test',
+	test: 'test',
+};
+
+/**
+ * Recognize `describe`, `it` and `test` calls, including `it.only(...)`,
+ * `describe.skip(...)` and `it.each(table)(...)`
+ */
+function testBlock(
+	call: ts.CallExpression,
+): { kind: SymbolKind; title: string; fn?: ts.SignatureDeclaration } | null {
+	let callee: ts.Expression = call.expression;
+	if (ts.isCallExpression(callee)) callee = callee.expression;
+	while (ts.isPropertyAccessExpression(callee)) callee = callee.expression;
+	const kind = ts.isIdentifier(callee) ? TEST_FUNCTIONS[callee.text] : undefined;
+	const [title, fn] = call.arguments;
+	if (!kind || !title || !ts.isStringLiteralLike(title)) return null;
+	return { kind, title: title.text, fn: fn && isFunctionValue(fn) ? fn : undefined };
+}
+
+function isFunctionValue(node: ts.Node): node is ts.ArrowFunction | ts.FunctionExpression {
+	return ts.isArrowFunction(node) || ts.isFunctionExpression(node);
+}
+
+function truncate(text: string, max: number): string {
+	return text.length > max ? `${text.slice(0, max - 1)}…` : text;
+}
+
+/**
+ * Syntax errors the scanner and parser hit. `createSourceFile` records them on
+ * the source file without exposing them publicly; no Program is needed.
+ */
+function syntaxDiagnostics(sourceFile: ts.SourceFile): ParseDiagnostic[] {
+	const { parseDiagnostics } = sourceFile as ts.SourceFile & {
+		parseDiagnostics?: readonly ts.DiagnosticWithLocation[];
+	};
+	return (parseDiagnostics ?? []).map((diagnostic) => {
+		const { line, character } = sourceFile.getLineAndCharacterOfPosition(diagnostic.start);
+		return {
+			message: ts.flattenDiagnosticMessageText(diagnostic.messageText, ' '),
+			line: line + 1,
+			column: character + 1,
+			code: diagnostic.code,
+		};
+	});
 }
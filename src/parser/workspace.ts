@@ -0,0 +1,249 @@
+import { readdir } from 'node:fs/promises';
+import { basename, dirname, join, relative, resolve, sep } from 'node:path';
+import ts from 'typescript';
+import { exists, readFile, readJson } from '../utils/fs.ts';
+
+export type PackageJson = {
+	name?: string;
+	workspaces?: string[] | { packages?: string[] };
+	main?: string;
+	module?: string;
+	bin?: string | Record<string, string>;
+	types?: string;
+	typings?: string;
+	source?: string;
+	exports?: unknown;
+	imports?: unknown;
+};
+
+export interface WorkspacePackage {
+	name: string;
+	/** Absolute package directory */
+	root: string;
+	manifest: PackageJson;
+}
+
+export interface WorkspaceLayout {
+	root: string;
+	packages: WorkspacePackage[];
+}
+
+const SKIPPED_DIRS = new Set(['node_modules', '.git', '.the-gap', 'dist']);
+
+/**
+ * Discover the packages of a monorepo from package.json `workspaces`,
+ * pnpm-workspace.yaml and tsconfig project `references`. The root package
+ * itself is included when it has a name, so every file maps to some package.
+ */
+export async function discoverWorkspace(rootDir: string): Promise<WorkspaceLayout> {
+	const root = resolve(rootDir);
+	const packages = new Map<string, WorkspacePackage>();
+
+	const addPackage = async (dir: string, fallbackName?: string): Promise<void> => {
+		const pkgDir = resolve(dir);
+		if (packages.has(pkgDir)) return;
+		const manifest = await readJson<PackageJson | null>(join(pkgDir, 'package.json'), null);
+		const name = manifest?.name ?? fallbackName;
+		if (!name) return;
+		packages.set(pkgDir, { name, root: pkgDir, manifest: manifest ?? {} });
+	};
+
+	const rootManifest = await readJson<PackageJson | null>(join(root, 'package.json'), null);
+	const patterns = [...workspacePatterns(rootManifest), ...(await pnpmWorkspacePatterns(root))];
+	const excluded = patterns.filter((p) => p.startsWith('!')).map((p) => p.slice(1));
+
+	for (const pattern of patterns.filter((p) => !p.startsWith('!'))) {
+		for (const dir of await expandPattern(root, pattern)) {
+			const rel = toPosix(relative(root, dir));
+			if (excluded.some((ex) => matchesSegments(rel, ex))) continue;
+			await addPackage(dir);
+		}
+	}
+
+	for (const dir of await projectReferenceDirs(root)) {
+		await addPackage(dir, basename(dir));
+	}
+
+	if (rootManifest?.name) await addPackage(root);
+
+	return { root, packages: [...packages.values()] };
+}
+
+/**
+ * The innermost workspace package containing a file
+ */
+export function findPackageForFile(
+	layout: WorkspaceLayout,
+	filePath: string,
+): WorkspacePackage | undefined {
+	const absolute = resolve(filePath);
+	let best: WorkspacePackage | undefined;
+	for (const pkg of layout.packages) {
+		if (absolute !== pkg.root && !absolute.startsWith(pkg.root + sep)) continue;
+		if (!best || pkg.root.length > best.root.length) best = pkg;
+	}
+	return best;
+}
+
+/**
+ * Candidate source paths (without extension probing) for a bare import
+ * specifier that names a workspace package, e.g. `@acme/core` or
+ * `@acme/core/utils/date`. Returns an empty list for external packages.
+ */
+export function workspaceImportCandidates(layout: WorkspaceLayout, specifier: string): string[] {
+	const pkg = findPackageBySpecifier(layout, specifier);
+	if (!pkg) return [];
+
+	const subpath = specifier.slice(pkg.name.length + 1);
+	if (subpath) {
+		return [join(pkg.root, subpath), join(pkg.root, 'src', subpath)];
+	}
+
+	const { manifest } = pkg;
+	const entries = [
+		manifest.source,
+		manifest.types ?? manifest.typings,
+		manifest.module,
+		manifest.main,
+	]
+		.filter((e): e is string => typeof e === 'string' && !e.endsWith('.d.ts'))
+		.map((e) => join(pkg.root, e));
+
+	return [
+		...entries,
+		// Built entry points usually mirror the source tree
+		...entries.map(distToSource),
+		join(pkg.root, 'src', 'index'),
+		join(pkg.root, 'index'),
+	];
+}
+
+/**
+ * The workspace package a bare specifier refers to (longest name match)
+ */
+export function findPackageBySpecifier(
+	layout: WorkspaceLayout,
+	specifier: string,
+): WorkspacePackage | undefined {
+	return layout.packages
+		.filter((p) => specifier === p.name || specifier.startsWith(`${p.name}/`))
+		.sort((a, b) => b.name.length - a.name.length)[0];
+}
+
+/**
+ * Map a build output path (dist/) to where its source usually lives (src/)
+ */
+export function distToSource(path: string): string {
+	return path.replace(`${sep}dist${sep}`, `${sep}src${sep}`);
+}
+
+function workspacePatterns(manifest: PackageJson | null): string[] {
+	const workspaces = manifest?.workspaces;
+	if (!workspaces) return [];
+	if (Array.isArray(workspaces)) return workspaces;
+	return workspaces.packages ?? [];
+}
+
+async function pnpmWorkspacePatterns(root: string): Promise<string[]> {
+	const path = join(root, 'pnpm-workspace.yaml');
+	if (!(await exists(path))) return [];
+
+	const patterns: string[] = [];
+	let inPackages = false;
+	for (const line of (await readFile(path)).split(/\r?\n/)) {
+		if (/^packages\s*:/.test(line)) {
+			inPackages = true;
+			continue;
+		}
+		if (!inPackages) continue;
+		const item = line.match(/^\s+-\s*['"]?([^'"#]+?)['"]?\s*(?:#.*)?$/);
+		if (item?.[1]) patterns.push(item[1]);
+		else if (/^\S/.test(line)) inPackages = false;
+	}
+	return patterns;
+}
+
+async function projectReferenceDirs(root: string): Promise<string[]> {
+	const dirs: string[] = [];
+	const visited = new Set<string>();
+
+	const visit = (configPath: string): void => {
+		if (visited.has(configPath)) return;
+		visited.add(configPath);
+
+		const { config } = ts.readConfigFile(configPath, ts.sys.readFile);
+		const references: { path?: string }[] = config?.references ?? [];
+		for (const ref of references) {
+			if (!ref.path) continue;
+			const target = resolve(dirname(configPath), ref.path);
+			const refConfig = target.endsWith('.json') ? target : join(target, 'tsconfig.json');
+			dirs.push(dirname(refConfig));
+			if (ts.sys.fileExists(refConfig)) visit(refConfig);
+		}
+	};
+
+	const rootConfig = join(root, 'tsconfig.json');
+	if (await exists(rootConfig)) visit(rootConfig);
+	return dirs;
+}
+
+async function expandPattern(root: string, pattern: string): Promise<string[]> {
+	const segments = pattern.replace(/^\.\//, '').replace(/\/+$/, '').split('/');
+	const results: string[] = [];
+
+	const walk = async (dir: string, index: number): Promise<void> => {
+		if (index === segments.length) {
+			if (await exists(join(dir, 'package.json'))) results.push(dir);
+			return;
+		}
+
+		const segment = segments[index] as string;
+		if (!segment.includes('*')) {
+			await walk(join(dir, segment), index + 1);
+			return;
+		}
+
+		let children: string[];
+		try {
+			const entries = await readdir(dir, { withFileTypes: true });
+			children = entries
+				.filter((e) => e.isDirectory() && !SKIPPED_DIRS.has(e.name) && !e.name.startsWith('.'))
+				.map((e) => e.name)
+				.sort();
+		} catch {
+			return;
+		}
+
+		if (segment === '**') {
+			// Zero or more directories
+			await walk(dir, index + 1);
+			for (const child of children) await walk(join(dir, child), index);
+			return;
+		}
+
+		const regex = new RegExp(`^${segment.split('*').map(escapeRegex).join('.*')}$`);
+		for (const child of children) {
+			if (regex.test(child)) await walk(join(dir, child), index + 1);
+		}
+	};
+
+	await walk(root, 0);
+	return results;
+}
+
+function matchesSegments(relPath: string, pattern: string): boolean {
+	const source = pattern
+		.replace(/^\.\//, '')
+		.split('/')
+		.map((s) => (s === '**' ? '.*' : s.split('*').map(escapeRegex).join('[^/]*')))
+		.join('/');
+	return new RegExp(`^${source}$`).test(relPath);
+}
+
+function escapeRegex(text: string): string {
+	return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function toPosix(path: string): string {
+	return sep === '/' ? path : path.split(sep).join('/');
+}
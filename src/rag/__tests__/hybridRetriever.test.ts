@@ -148,6 +148,58 @@ describe('HybridRetriever', () => {
 		});
 	});
 
+	describe('with type edges', () => {
+		it('should relate results that share types and boost widely used types', async () => {
+			const files = ['file0', 'file1', 'file2', 'file3'];
+			const graph: CodeGraph = {
+				nodes: [
+					...files.map((f) => ({
+						id: `file:src/${f}.ts`,
+						label: `${f}.ts`,
+						type: 'file' as const,
+						path: `src/${f}.ts`,
+					})),
+					...files.map((f) => ({
+						id: `class:src/${f}.ts:${f}`,
+						label: f,
+						type: 'class' as const,
+						path: `src/${f}.ts`,
+					})),
+				],
+				// file1..file3 each extend or use the class declared in file0
+				edges: [
+					{
+						source: 'class:src/file1.ts:file1',
+						target: 'class:src/file0.ts:file0',
+						type: 'extends',
+					},
+					{
+						source: 'class:src/file2.ts:file2',
+						target: 'class:src/file0.ts:file0',
+						type: 'implements',
+					},
+					{
+						source: 'class:src/file3.ts:file3',
+						target: 'class:src/file0.ts:file0',
+						type: 'references-type',
+					},
+				],
+			};
+
+			const rag = mockRag as unknown as RagEngine;
+			const results = (await new HybridRetriever(rag, graph).search('embedder', 4)) as Array<
+				Document & { boostReason?: string[] }
+			>;
+			const top = results[0];
+
+			expect(top?.metadata?.source).toBe('src/file0.ts');
+			expect(top?.boostReason).toEqual([
+				'Core type (extended, implemented or used by 3 files)',
+				'Related to 3 other result(s)',
+			]);
+		});
+	});
+
 	describe('edge cases', () => {
 		it('should handle empty graph', async () => {
 			const emptyGraph: CodeGraph = {
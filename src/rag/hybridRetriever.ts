@@ -1,12 +1,36 @@
-import type { CodeGraph } from '../parser/graphBuilder.ts';
+import type { CodeGraph, GraphEdgeType } from '../parser/graphBuilder.ts';
+import { GraphIndex } from '../parser/graphIndex.ts';
 import type { Document, RagEngine } from './ragEngine.ts';
 
+/** Edges that tie code together through types rather than imports or calls */
+const TYPE_EDGES: GraphEdgeType[] = [
+	'extends',
+	'implements',
+	'references-type',
+	'instantiates',
+	'overrides',
+];
+
+type FileConnections = {
+	imports: number;
+	importedBy: number;
+	calls: number;
+	calledBy: number;
+	/** Type edges from other files into this file's symbols */
+	typeDependents: number;
+};
+
 interface ScoredDocument extends Document {
 	score: number;
 	boostReason?: string[];
 }
 
 export class HybridRetriever {
+	private nodeFiles: Map<string, string> | null = null;
+	/** Derived from the graph once; the graph does not change under a retriever */
+	private fileConnections: Map<string, FileConnections> | null = null;
+	private linkedFiles: Map<string, Set<string>> | null = null;
+
 	constructor(
 		private readonly rag: RagEngine,
 		private readonly graph?: CodeGraph | null,
@@ -71,6 +95,14 @@ export class HybridRetriever {
 				doc.boostReason?.push(`Integration point (imports ${connections.imports} files)`);
 			}
 
+			// Boost if many other files build on types declared here (core abstraction)
+			if (connections.typeDependents > 2) {
+				boostMultiplier += 0.2;
+				doc.boostReason?.push(
+					`Core type (extended, implemented or used by ${connections.typeDependents} files)`,
+				);
+			}
+
 			// Boost if connected to other results (related code)
 			const relatedCount = this.countRelatedDocuments(fileId, scoredDocs, fileConnectionMap);
 			if (relatedCount > 0) {
@@ -88,38 +120,63 @@ export class HybridRetriever {
 	/**
 	 * Build a map of file connections for quick lookup
 	 */
-	private buildFileConnectionMap(): Map<
-		string,
-		{ imports: number; importedBy: number; calls: number; calledBy: number }
-	> {
-		const map = new Map<
-			string,
-			{ imports: number; importedBy: number; calls: number; calledBy: number }
-		>();
+	private buildFileConnectionMap(): Map<string, FileConnections> {
+		if (this.fileConnections) return this.fileConnections;
+		const map = new Map<string, FileConnections>();
+		this.fileConnections = map;
 
 		if (!this.graph) return map;
 
-		// Initialize all file nodes
+		const index = new GraphIndex(this.graph.edges);
+		// Files tied to each file by imports either way or by type edges between their symbols
+		const linked = new Map<string, Set<string>>();
+		const linksOf = (fileId: string): Set<string> => {
+			let links = linked.get(fileId);
+			if (!links) {
+				links = new Set();
+				linked.set(fileId, links);
+			}
+			return links;
+		};
+		// Files with type edges into each file
+		const typeSources = new Map<string, Set<string>>();
+
 		for (const node of this.graph.nodes) {
 			if (node.type === 'file') {
-				map.set(node.id, { imports: 0, importedBy: 0, calls: 0, calledBy: 0 });
+				const imports = index.outgoing(node.id, ['imports']);
+				const importedBy = index.incoming(node.id, ['imports']);
+				map.set(node.id, {
+					imports: imports.length,
+					importedBy: importedBy.length,
+					calls: index.outgoing(node.id, ['calls']).length,
+					calledBy: index.incoming(node.id, ['calls']).length,
+					typeDependents: 0,
+				});
+				for (const edge of imports) linksOf(node.id).add(edge.target);
+				for (const edge of importedBy) linksOf(node.id).add(edge.source);
 			}
-		}
 
-		// Count connections
-		for (const edge of this.graph.edges) {
-			const sourceConn = map.get(edge.source);
-			const targetConn = map.get(edge.target);
-
-			if (edge.type === 'imports') {
-				if (sourceConn) sourceConn.imports++;
-				if (targetConn) targetConn.importedBy++;
-			} else if (edge.type === 'calls') {
-				if (sourceConn) sourceConn.calls++;
-				if (targetConn) targetConn.calledBy++;
+			// Count per file, not per symbol: the edge runs between symbols
+			const sourceFile = this.fileOf(node.id);
+			if (!sourceFile) continue;
+			for (const edge of index.outgoing(node.id, TYPE_EDGES)) {
+				const targetFile = this.fileOf(edge.target);
+				if (!targetFile) continue;
+				linksOf(sourceFile).add(targetFile);
+				linksOf(targetFile).add(sourceFile);
+				if (targetFile !== sourceFile) {
+					const sources = typeSources.get(targetFile) ?? new Set();
+					sources.add(sourceFile);
+					typeSources.set(targetFile, sources);
+				}
 			}
 		}
 
+		for (const [fileId, sources] of typeSources) {
+			const connections = map.get(fileId);
+			if (connections) connections.typeDependents = sources.size;
+		}
+		this.linkedFiles = linked;
 		return map;
 	}
 
@@ -129,23 +186,14 @@ export class HybridRetriever {
 	private countRelatedDocuments(
 		fileId: string,
 		documents: ScoredDocument[],
-		_connectionMap: Map<
-			string,
-			{ imports: number; importedBy: number; calls: number; calledBy: number }
-		>,
+		_connectionMap: Map<string, FileConnections>,
 	): number {
 		if (!this.graph) return 0;
 
-		// Get direct connections (imports and imported-by)
-		const connectedFileIds = new Set<string>();
-		for (const edge of this.graph.edges) {
-			if (edge.source === fileId && edge.type === 'imports') {
-				connectedFileIds.add(edge.target);
-			}
-			if (edge.target === fileId && edge.type === 'imports') {
-				connectedFileIds.add(edge.source);
-			}
-		}
+		// Direct connections: imports and imported-by, plus shared types
+		this.buildFileConnectionMap();
+		const connectedFileIds = this.linkedFiles?.get(fileId);
+		if (!connectedFileIds) return 0;
 
 		// Count how many result documents are connected
 		let count = 0;
@@ -162,6 +210,21 @@ export class HybridRetriever {
 		return count;
 	}
 
+	/**
+	 * File node id a graph node belongs to
+	 */
+	private fileOf(nodeId: string): string | undefined {
+		if (!this.nodeFiles) {
+			this.nodeFiles = new Map();
+			for (const node of this.graph?.nodes ?? []) {
+				if (node.path) {
+					this.nodeFiles.set(node.id, node.type === 'file' ? node.id : `file:${node.path}`);
+				}
+			}
+		}
+		return this.nodeFiles.get(nodeId);
+	}
+
 	/**
 	 * Extract file path from document content
 	 * Assumes content starts with "File: <path>" or similar
@@ -14,6 +14,7 @@ export class RagEngine {
 	) {}
 
 	async indexDocuments(docs: Document[]): Promise<void> {
+		if (docs.length === 0) return;
 		const embeddings = await this.embedder.embed(docs.map((d) => d.text));
 		const records: VectorRecord[] = docs.map((d, i) => ({
 			id: d.id,
@@ -24,6 +25,10 @@ export class RagEngine {
 		await this.store.upsertMany(records);
 	}
 
+	async removeDocuments(ids: string[]): Promise<void> {
+		await this.store.deleteMany(ids);
+	}
+
 	async search(query: string, k = 5): Promise<Document[]> {
 		const [qv] = await this.embedder.embed([query]);
 		const results = await this.store.query(qv, k);
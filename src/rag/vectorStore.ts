@@ -1,3 +1,5 @@
+import { readJson, writeJson } from '../utils/fs.ts';
+
 export type Vector = number[];
 
 export type VectorRecord = {
@@ -10,10 +12,43 @@ export type VectorRecord = {
 export interface VectorStore {
 	upsertMany(records: VectorRecord[]): Promise<void>;
 	query(vector: Vector, k: number): Promise<VectorRecord[]>;
+	deleteMany(ids: string[]): Promise<void>;
 }
 
 export class InMemoryVectorStore implements VectorStore {
-	private readonly records: VectorRecord[] = [];
+	private records: VectorRecord[] = [];
+
+	constructor(private readonly persistPath?: string) {}
+
+	get size(): number {
+		return this.records.length;
+	}
+
+	/**
+	 * Load records from disk (no-op without a persist path)
+	 */
+	async load(): Promise<void> {
+		if (!this.persistPath) return;
+		this.records = await readJson<VectorRecord[]>(this.persistPath, []);
+	}
+
+	/**
+	 * Save records to disk (no-op without a persist path)
+	 */
+	async save(): Promise<void> {
+		if (!this.persistPath) return;
+		await writeJson(this.persistPath, this.records);
+	}
+
+	async deleteMany(ids: string[]): Promise<void> {
+		if (ids.length === 0) return;
+		const toDelete = new Set(ids);
+		this.records = this.records.filter((r) => !toDelete.has(r.id));
+	}
+
+	clear(): void {
+		this.records = [];
+	}
 
 	async upsertMany(records: VectorRecord[]): Promise<void> {
 		// naive replace by id